@@ -0,0 +1,713 @@
+import type { YtdlpCommandBuilder } from './ytdlpCommandBuilder.js';
+import {
+  DOWNLOADER_PROTOCOLS,
+  type DownloaderProtocol,
+  type JsRuntime,
+  type Keyring,
+  type MergeOutputFormat,
+  PATH_TYPES,
+  type PathType,
+  POSTPROCESSOR_WHEN,
+  type PostProcessorWhen,
+  PRINT_WHEN,
+  type PrintWhen,
+  PROGRESS_TEMPLATE_TYPES,
+  type ProgressTemplateType,
+  type OptionSpan,
+  type ParseOptions,
+  type ReleaseChannel,
+  type RemoteComponent,
+  REPEATABLE_OPTIONS,
+  RETRY_TYPES,
+  type RetryType,
+  type SponsorBlockCategory,
+  type SupportedCookieBrowser,
+  type UnknownOption,
+  type YtdlpOption
+} from './types.js';
+
+type OptionHandler = {
+  /** Number of values the option takes. */
+  arity: number;
+  apply: (builder: YtdlpCommandBuilder, values: string[]) => void;
+};
+
+type ColorPolicy = Parameters<YtdlpCommandBuilder['color']>[0];
+
+/**
+ * Thrown by YtdlpCommandBuilder.parse() when the command contains options that have no
+ * builder method. Every unknown option is listed, not only the first one.
+ */
+export class YtdlpParseError extends Error {
+  readonly unknownOptions: UnknownOption[];
+
+  constructor(unknownOptions: UnknownOption[]) {
+    const names = unknownOptions.map(({ option }) => option).join(', ');
+    super(`Unknown option${unknownOptions.length === 1 ? '' : 's'}: ${names}`);
+    this.name = 'YtdlpParseError';
+    this.unknownOptions = unknownOptions;
+  }
+}
+
+const flag = (apply: (builder: YtdlpCommandBuilder) => void): OptionHandler => ({
+  arity: 0,
+  apply: (builder) => apply(builder)
+});
+
+const value = (apply: (builder: YtdlpCommandBuilder, value: string) => void): OptionHandler => ({
+  arity: 1,
+  apply: (builder, [arg]) => apply(builder, arg)
+});
+
+/**
+ * Splits a "PREFIX:VALUE" argument when PREFIX is one of the known prefixes.
+ * @param arg The argument to split.
+ * @param prefixes The accepted prefixes.
+ * @returns The prefix (if any) and the remaining value.
+ */
+function splitPrefix<T extends string>(arg: string, prefixes: readonly T[]) {
+  const index = arg.indexOf(':');
+  if (index !== -1) {
+    const prefix = arg.slice(0, index);
+    if ((prefixes as readonly string[]).includes(prefix)) {
+      return { prefix: prefix as T, rest: arg.slice(index + 1) };
+    }
+  }
+  return { prefix: undefined, rest: arg };
+}
+
+/**
+ * Splits a "NAME:VALUE" argument at the first colon.
+ * @param arg The argument to split.
+ * @param option The option the argument belongs to, used in error messages.
+ * @returns The name and value.
+ */
+function splitPair(arg: string, option: string) {
+  const index = arg.indexOf(':');
+  if (index === -1) {
+    throw new Error(`Option ${option} expects a value in the form NAME:VALUE`);
+  }
+  return [arg.slice(0, index), arg.slice(index + 1)] as const;
+}
+
+/**
+ * Converts a retries value, which is either a number or "infinite"/"inf".
+ * @param arg The retries value.
+ * @returns The value accepted by the builder's retries methods.
+ */
+function toRetries(arg: string) {
+  return arg === 'infinite' || arg === 'inf' ? 'infinite' : Number(arg);
+}
+
+const OPTIONS: Record<YtdlpOption, OptionHandler> = {
+  '--help': flag((b) => b.help()),
+  '--version': flag((b) => b.version()),
+  '--update': flag((b) => b.update()),
+  '--no-update': flag((b) => b.noUpdate()),
+  '--update-to': value((b, v) => {
+    const at = v.indexOf('@');
+    if (at === -1) {
+      b.updateTo(v as ReleaseChannel, '');
+    } else {
+      b.updateTo(v.slice(0, at) as ReleaseChannel, v.slice(at + 1) || 'latest');
+    }
+  }),
+  '--ignore-errors': flag((b) => b.ignoreErrors()),
+  '--no-abort-on-error': flag((b) => b.noAbortOnError()),
+  '--abort-on-error': flag((b) => b.abortOnError()),
+  '--list-extractors': flag((b) => b.listExtractors()),
+  '--extractor-descriptions': flag((b) => b.extractorDescriptions()),
+  '--use-extractors': value((b, v) => b.useExtractors(v)),
+  '--default-search': value((b, v) => b.defaultSearch(v)),
+  '--ignore-config': flag((b) => b.ignoreConfig()),
+  '--no-config-locations': flag((b) => b.noConfigLocations()),
+  '--config-locations': value((b, v) => b.configLocations(v)),
+  '--plugin-dirs': value((b, v) => b.pluginDirs(v)),
+  '--no-plugin-dirs': flag((b) => b.noPluginDirs()),
+  '--js-runtimes': value((b, v) => {
+    const index = v.indexOf(':');
+    if (index === -1) {
+      b.jsRuntime(v as JsRuntime);
+    } else {
+      b.jsRuntime(v.slice(0, index) as JsRuntime, v.slice(index + 1));
+    }
+  }),
+  '--no-js-runtimes': flag((b) => b.noJsRuntimes()),
+  '--remote-components': value((b, v) => b.remoteComponent(v as RemoteComponent)),
+  '--no-remote-components': flag((b) => b.noRemoteComponents()),
+  '--flat-playlist': flag((b) => b.flatPlaylist()),
+  '--no-flat-playlist': flag((b) => b.noFlatPlaylist()),
+  '--live-from-start': flag((b) => b.liveFromStart()),
+  '--no-live-from-start': flag((b) => b.noLiveFromStart()),
+  '--wait-for-video': value((b, v) =>
+    b.waitForVideo(/^\d+$/.test(v) ? Number(v) : (v as `${number}-${number}`))
+  ),
+  '--no-wait-for-video': flag((b) => b.noWaitForVideo()),
+  '--mark-watched': flag((b) => b.markWatched()),
+  '--no-mark-watched': flag((b) => b.noMarkWatched()),
+  '--color': value((b, v) => b.color(v as ColorPolicy)),
+  '--compat-options': value((b, v) => b.compatOptions(v)),
+  '--alias': { arity: 2, apply: (b, [aliases, options]) => b.alias(aliases, options) },
+  '--preset-alias': value((b, v) => b.presetAlias(v as 'mp3' | 'aac' | 'mp4' | 'mkv' | 'sleep')),
+  '--proxy': value((b, v) => b.proxy(v)),
+  '--socket-timeout': value((b, v) => b.socketTimeout(Number(v))),
+  '--source-address': value((b, v) => b.sourceAddress(v)),
+  '--impersonate': value((b, v) => b.impersonate(v)),
+  '--list-impersonate-targets': flag((b) => b.listImpersonateTargets()),
+  '--force-ipv4': flag((b) => b.forceIpv4()),
+  '--force-ipv6': flag((b) => b.forceIpv6()),
+  '--enable-file-urls': flag((b) => b.enableFileUrls()),
+  '--geo-verification-proxy': value((b, v) => b.geoVerificationProxy(v)),
+  '--xff': value((b, v) => b.xff(v)),
+  '--playlist-items': value((b, v) => b.playlistItems(v)),
+  '--min-filesize': value((b, v) => b.minFilesize(v)),
+  '--max-filesize': value((b, v) => b.maxFilesize(v)),
+  '--date': value((b, v) => b.date(v)),
+  '--datebefore': value((b, v) => b.dateBefore(v)),
+  '--dateafter': value((b, v) => b.dateAfter(v)),
+  '--match-filters': value((b, v) => b.matchFilters(v)),
+  '--no-match-filters': flag((b) => b.noMatchFilters()),
+  '--break-match-filters': value((b, v) => b.breakMatchFilters(v)),
+  '--no-break-match-filters': flag((b) => b.noBreakMatchFilters()),
+  '--no-playlist': flag((b) => b.noPlaylist()),
+  '--yes-playlist': flag((b) => b.yesPlaylist()),
+  '--age-limit': value((b, v) => b.ageLimit(Number(v))),
+  '--download-archive': value((b, v) => b.downloadArchive(v)),
+  '--no-download-archive': flag((b) => b.noDownloadArchive()),
+  '--max-downloads': value((b, v) => b.maxDownloads(Number(v))),
+  '--break-on-existing': flag((b) => b.breakOnExisting()),
+  '--no-break-on-existing': flag((b) => b.noBreakOnExisting()),
+  '--break-per-input': flag((b) => b.breakPerInput()),
+  '--no-break-per-input': flag((b) => b.noBreakPerInput()),
+  '--skip-playlist-after-errors': value((b, v) => b.skipPlaylistAfterErrors(Number(v))),
+  '--concurrent-fragments': value((b, v) => b.concurrentFragments(Number(v))),
+  '--limit-rate': value((b, v) => b.limitRate(v)),
+  '--throttled-rate': value((b, v) => b.throttledRate(v)),
+  '--retries': value((b, v) => b.retries(toRetries(v))),
+  '--file-access-retries': value((b, v) => b.fileAccessRetries(toRetries(v))),
+  '--fragment-retries': value((b, v) => b.fragmentRetries(toRetries(v))),
+  '--retry-sleep': value((b, v) => {
+    const { prefix, rest } = splitPrefix<RetryType>(v, RETRY_TYPES);
+    b.retrySleep(rest, prefix);
+  }),
+  '--skip-unavailable-fragments': flag((b) => b.skipUnavailableFragments()),
+  '--abort-on-unavailable-fragments': flag((b) => b.abortOnUnavailableFragments()),
+  '--keep-fragments': flag((b) => b.keepFragments()),
+  '--no-keep-fragments': flag((b) => b.noKeepFragments()),
+  '--buffer-size': value((b, v) => b.bufferSize(v)),
+  '--resize-buffer': flag((b) => b.resizeBuffer()),
+  '--no-resize-buffer': flag((b) => b.noResizeBuffer()),
+  '--http-chunk-size': value((b, v) => b.httpChunkSize(v)),
+  '--playlist-random': flag((b) => b.playlistRandom()),
+  '--lazy-playlist': flag((b) => b.lazyPlaylist()),
+  '--no-lazy-playlist': flag((b) => b.noLazyPlaylist()),
+  '--hls-use-mpegts': flag((b) => b.hlsUseMpegts()),
+  '--no-hls-use-mpegts': flag((b) => b.noHlsUseMpegts()),
+  '--download-sections': value((b, v) => b.downloadSections(v)),
+  '--downloader': value((b, v) => {
+    const index = v.indexOf(':');
+    const protocols = index === -1 ? [] : v.slice(0, index).split(',');
+    if (
+      protocols.length > 0 &&
+      protocols.every((p) => (DOWNLOADER_PROTOCOLS as readonly string[]).includes(p))
+    ) {
+      b.downloader(v.slice(index + 1), protocols as DownloaderProtocol[]);
+    } else {
+      b.downloader(v);
+    }
+  }),
+  '--downloader-args': value((b, v) => b.downloaderArgs(...splitPair(v, '--downloader-args'))),
+  '--batch-file': value((b, v) => b.batchFile(v)),
+  '--no-batch-file': flag((b) => b.noBatchFile()),
+  '--paths': value((b, v) => {
+    const { prefix, rest } = splitPrefix<PathType>(v, PATH_TYPES);
+    b.paths(rest, prefix);
+  }),
+  '--output': value((b, v) => {
+    const { prefix, rest } = splitPrefix<PathType>(v, PATH_TYPES);
+    b.output(rest, prefix);
+  }),
+  '--output-na-placeholder': value((b, v) => b.outputNaPlaceholder(v)),
+  '--restrict-filenames': flag((b) => b.restrictFilenames()),
+  '--no-restrict-filenames': flag((b) => b.noRestrictFilenames()),
+  '--windows-filenames': flag((b) => b.windowsFilenames()),
+  '--no-windows-filenames': flag((b) => b.noWindowsFilenames()),
+  '--trim-filenames': value((b, v) => b.trimFilenames(Number(v))),
+  '--no-overwrites': flag((b) => b.noOverwrites()),
+  '--force-overwrites': flag((b) => b.forceOverwrites()),
+  '--no-force-overwrites': flag((b) => b.noForceOverwrites()),
+  '--continue': flag((b) => b.continue()),
+  '--no-continue': flag((b) => b.noContinue()),
+  '--part': flag((b) => b.part()),
+  '--no-part': flag((b) => b.noPart()),
+  '--mtime': flag((b) => b.mtime()),
+  '--no-mtime': flag((b) => b.noMtime()),
+  '--write-description': flag((b) => b.writeDescription()),
+  '--no-write-description': flag((b) => b.noWriteDescription()),
+  '--write-info-json': flag((b) => b.writeInfoJson()),
+  '--no-write-info-json': flag((b) => b.noWriteInfoJson()),
+  '--write-playlist-metafiles': flag((b) => b.writePlaylistMetafiles()),
+  '--no-write-playlist-metafiles': flag((b) => b.noWritePlaylistMetafiles()),
+  '--clean-info-json': flag((b) => b.cleanInfoJson()),
+  '--no-clean-info-json': flag((b) => b.noCleanInfoJson()),
+  '--write-comments': flag((b) => b.writeComments()),
+  '--no-write-comments': flag((b) => b.noWriteComments()),
+  '--load-info-json': value((b, v) => b.loadInfoJson(v)),
+  '--cookies': value((b, v) => b.cookies(v)),
+  '--no-cookies': flag((b) => b.noCookies()),
+  '--cookies-from-browser': value((b, v) => {
+    const match = /^([^+:]+)(?:\+([^:]+))?(?::(?!:)(.+?))?(?:::(.+))?$/.exec(v);
+    if (!match) {
+      throw new Error(`Invalid --cookies-from-browser value: ${v}`);
+    }
+    const [, browser, keyring, profile, container] = match;
+    b.cookiesFromBrowser(browser as SupportedCookieBrowser, {
+      keyring: keyring as Keyring | undefined,
+      profile,
+      container
+    });
+  }),
+  '--no-cookies-from-browser': flag((b) => b.noCookiesFromBrowser()),
+  '--cache-dir': value((b, v) => b.cacheDir(v)),
+  '--no-cache-dir': flag((b) => b.noCacheDir()),
+  '--rm-cache-dir': flag((b) => b.rmCacheDir()),
+  '--write-thumbnail': flag((b) => b.writeThumbnail()),
+  '--no-write-thumbnail': flag((b) => b.noWriteThumbnail()),
+  '--write-all-thumbnails': flag((b) => b.writeAllThumbnails()),
+  '--list-thumbnails': flag((b) => b.listThumbnails()),
+  '--write-link': flag((b) => b.writeLink()),
+  '--write-url-link': flag((b) => b.writeUrlLink()),
+  '--write-webloc-link': flag((b) => b.writeWeblocLink()),
+  '--write-desktop-link': flag((b) => b.writeDesktopLink()),
+  '--quiet': flag((b) => b.quiet()),
+  '--no-quiet': flag((b) => b.noQuiet()),
+  '--no-warnings': flag((b) => b.noWarnings()),
+  '--simulate': flag((b) => b.simulate()),
+  '--no-simulate': flag((b) => b.noSimulate()),
+  '--ignore-no-formats-error': flag((b) => b.ignoreNoFormatsError()),
+  '--no-ignore-no-formats-error': flag((b) => b.noIgnoreNoFormatsError()),
+  '--skip-download': flag((b) => b.skipDownload()),
+  '--print': value((b, v) => {
+    const { prefix, rest } = splitPrefix<PrintWhen>(v, PRINT_WHEN);
+    b.print(rest, prefix);
+  }),
+  '--print-to-file': {
+    arity: 2,
+    apply: (b, [template, file]) => {
+      const { prefix, rest } = splitPrefix<PrintWhen>(template, PRINT_WHEN);
+      b.printToFile(rest, file, prefix);
+    }
+  },
+  '--dump-json': flag((b) => b.dumpJson()),
+  '--dump-single-json': flag((b) => b.dumpSingleJson()),
+  '--force-write-archive': flag((b) => b.forceWriteArchive()),
+  '--newline': flag((b) => b.newline()),
+  '--no-progress': flag((b) => b.noProgress()),
+  '--progress': flag((b) => b.progress()),
+  '--console-title': flag((b) => b.consoleTitle()),
+  '--progress-template': value((b, v) => {
+    const { prefix, rest } = splitPrefix<ProgressTemplateType>(v, PROGRESS_TEMPLATE_TYPES);
+    b.progressTemplate(rest, prefix);
+  }),
+  '--progress-delta': value((b, v) => b.progressDelta(Number(v))),
+  '--verbose': flag((b) => b.verbose()),
+  '--dump-pages': flag((b) => b.dumpPages()),
+  '--write-pages': flag((b) => b.writePages()),
+  '--print-traffic': flag((b) => b.printTraffic()),
+  '--encoding': value((b, v) => b.encoding(v)),
+  '--legacy-server-connect': flag((b) => b.legacyServerConnect()),
+  '--no-check-certificates': flag((b) => b.noCheckCertificates()),
+  '--prefer-insecure': flag((b) => b.preferInsecure()),
+  '--add-headers': value((b, v) => b.addHeaders(...splitPair(v, '--add-headers'))),
+  '--bidi-workaround': flag((b) => b.bidiWorkaround()),
+  '--sleep-requests': value((b, v) => b.sleepRequests(Number(v))),
+  '--sleep-interval': value((b, v) => b.sleepInterval(Number(v))),
+  '--max-sleep-interval': value((b, v) => b.maxSleepInterval(Number(v))),
+  '--sleep-subtitles': value((b, v) => b.sleepSubtitles(Number(v))),
+  '--format': value((b, v) => b.format(v)),
+  '--format-sort': value((b, v) => b.formatSort(v)),
+  '--format-sort-force': flag((b) => b.formatSortForce()),
+  '--no-format-sort-force': flag((b) => b.noFormatSortForce()),
+  '--video-multistreams': flag((b) => b.videoMultistreams()),
+  '--no-video-multistreams': flag((b) => b.noVideoMultistreams()),
+  '--audio-multistreams': flag((b) => b.audioMultistreams()),
+  '--no-audio-multistreams': flag((b) => b.noAudioMultistreams()),
+  '--prefer-free-formats': flag((b) => b.preferFreeFormats()),
+  '--no-prefer-free-formats': flag((b) => b.noPreferFreeFormats()),
+  '--check-formats': flag((b) => b.checkFormats()),
+  '--check-all-formats': flag((b) => b.checkAllFormats()),
+  '--no-check-formats': flag((b) => b.noCheckFormats()),
+  '--list-formats': flag((b) => b.listFormats()),
+  '--merge-output-format': value((b, v) => b.mergeOutputFormat(v as MergeOutputFormat)),
+  '--write-subs': flag((b) => b.writeSubs()),
+  '--no-write-subs': flag((b) => b.noWriteSubs()),
+  '--write-auto-subs': flag((b) => b.writeAutoSubs()),
+  '--no-write-auto-subs': flag((b) => b.noWriteAutoSubs()),
+  '--list-subs': flag((b) => b.listSubs()),
+  '--sub-format': value((b, v) => b.subFormat(v)),
+  '--sub-langs': value((b, v) => b.subLangs(v)),
+  '--username': value((b, v) => b.username(v)),
+  '--password': value((b, v) => b.password(v)),
+  '--twofactor': value((b, v) => b.twofactor(v)),
+  '--netrc': flag((b) => b.netrc()),
+  '--netrc-location': value((b, v) => b.netrcLocation(v)),
+  '--netrc-cmd': value((b, v) => b.netrcCmd(v)),
+  '--video-password': value((b, v) => b.videoPassword(v)),
+  '--ap-mso': value((b, v) => b.apMso(v)),
+  '--ap-username': value((b, v) => b.apUsername(v)),
+  '--ap-password': value((b, v) => b.apPassword(v)),
+  '--ap-list-mso': flag((b) => b.apListMso()),
+  '--client-certificate': value((b, v) => b.clientCertificate(v)),
+  '--client-certificate-key': value((b, v) => b.clientCertificateKey(v)),
+  '--client-certificate-password': value((b, v) => b.clientCertificatePassword(v)),
+  '--extract-audio': flag((b) => b.extractAudio()),
+  '--audio-format': value((b, v) => b.audioFormat(v)),
+  '--audio-quality': value((b, v) => b.audioQuality(v)),
+  '--remux-video': value((b, v) => b.remuxVideo(v)),
+  '--recode-video': value((b, v) => b.recodeVideo(v)),
+  '--postprocessor-args': value((b, v) =>
+    b.postprocessorArgs(...splitPair(v, '--postprocessor-args'))
+  ),
+  '--keep-video': flag((b) => b.keepVideo()),
+  '--no-keep-video': flag((b) => b.noKeepVideo()),
+  '--post-overwrites': flag((b) => b.postOverwrites()),
+  '--no-post-overwrites': flag((b) => b.noPostOverwrites()),
+  '--embed-subs': flag((b) => b.embedSubs()),
+  '--no-embed-subs': flag((b) => b.noEmbedSubs()),
+  '--embed-thumbnail': flag((b) => b.embedThumbnail()),
+  '--no-embed-thumbnail': flag((b) => b.noEmbedThumbnail()),
+  '--embed-metadata': flag((b) => b.embedMetadata()),
+  '--no-embed-metadata': flag((b) => b.noEmbedMetadata()),
+  '--embed-chapters': flag((b) => b.embedChapters()),
+  '--no-embed-chapters': flag((b) => b.noEmbedChapters()),
+  '--embed-info-json': flag((b) => b.embedInfoJson()),
+  '--no-embed-info-json': flag((b) => b.noEmbedInfoJson()),
+  '--parse-metadata': value((b, v) => {
+    const { prefix, rest } = splitPrefix<PostProcessorWhen>(v, POSTPROCESSOR_WHEN);
+    b.parseMetadata(rest, prefix);
+  }),
+  '--replace-in-metadata': {
+    arity: 3,
+    apply: (b, [fields, regex, replace]) => {
+      const { prefix, rest } = splitPrefix<PostProcessorWhen>(fields, POSTPROCESSOR_WHEN);
+      b.replaceInMetadata(rest, regex, replace, prefix);
+    }
+  },
+  '--xattrs': flag((b) => b.xattrs()),
+  '--concat-playlist': value((b, v) => b.concatPlaylist(v as 'never' | 'always' | 'multi_video')),
+  '--fixup': value((b, v) => b.fixup(v as 'never' | 'warn' | 'detect_or_warn' | 'force')),
+  '--ffmpeg-location': value((b, v) => b.ffmpegLocation(v)),
+  '--exec': value((b, v) => {
+    const { prefix, rest } = splitPrefix<PostProcessorWhen>(v, POSTPROCESSOR_WHEN);
+    b.exec(rest, prefix);
+  }),
+  '--no-exec': flag((b) => b.noExec()),
+  '--convert-subs': value((b, v) => b.convertSubs(v as 'ass' | 'lrc' | 'srt' | 'vtt' | 'none')),
+  '--convert-thumbnails': value((b, v) => b.convertThumbnails(v)),
+  '--split-chapters': flag((b) => b.splitChapters()),
+  '--no-split-chapters': flag((b) => b.noSplitChapters()),
+  '--remove-chapters': value((b, v) => b.removeChapters(v)),
+  '--no-remove-chapters': flag((b) => b.noRemoveChapters()),
+  '--force-keyframes-at-cuts': flag((b) => b.forceKeyframesAtCuts()),
+  '--no-force-keyframes-at-cuts': flag((b) => b.noForceKeyframesAtCuts()),
+  '--use-postprocessor': value((b, v) => b.usePostprocessor(v)),
+  '--sponsorblock-mark': value((b, v) => b.sponsorblockMark(v as SponsorBlockCategory)),
+  '--sponsorblock-remove': value((b, v) => b.sponsorblockRemove(v as SponsorBlockCategory)),
+  '--sponsorblock-chapter-title': value((b, v) => b.sponsorblockChapterTitle(v)),
+  '--no-sponsorblock': flag((b) => b.noSponsorblock()),
+  '--sponsorblock-api': value((b, v) => b.sponsorblockApi(v)),
+  '--extractor-retries': value((b, v) => b.extractorRetries(toRetries(v))),
+  '--allow-dynamic-mpd': flag((b) => b.allowDynamicMpd()),
+  '--ignore-dynamic-mpd': flag((b) => b.ignoreDynamicMpd()),
+  '--hls-split-discontinuity': flag((b) => b.hlsSplitDiscontinuity()),
+  '--no-hls-split-discontinuity': flag((b) => b.noHlsSplitDiscontinuity()),
+  '--extractor-args': value((b, v) => b.extractorArgs(...splitPair(v, '--extractor-args')))
+};
+
+const LONG_ALIASES: Record<string, string> = {
+  '--no-ignore-errors': '--abort-on-error',
+  '--ies': '--use-extractors',
+  '--no-config': '--ignore-config',
+  '--no-abort-on-unavailable-fragments': '--skip-unavailable-fragments',
+  '--no-skip-unavailable-fragments': '--abort-on-unavailable-fragments',
+  '--external-downloader': '--downloader',
+  '--external-downloader-args': '--downloader-args',
+  '--get-comments': '--write-comments',
+  '--no-get-comments': '--no-write-comments',
+  '--no-download': '--skip-download',
+  '--force-download-archive': '--force-write-archive',
+  '--min-sleep-interval': '--sleep-interval',
+  '--S-force': '--format-sort-force',
+  '--write-automatic-subs': '--write-auto-subs',
+  '--no-write-automatic-subs': '--no-write-auto-subs',
+  '--ppa': '--postprocessor-args',
+  '--add-metadata': '--embed-metadata',
+  '--no-add-metadata': '--no-embed-metadata',
+  '--add-chapters': '--embed-chapters',
+  '--no-add-chapters': '--no-embed-chapters',
+  '--convert-subtitles': '--convert-subs',
+  '--no-ignore-dynamic-mpd': '--allow-dynamic-mpd',
+  '--no-allow-dynamic-mpd': '--ignore-dynamic-mpd'
+};
+
+/**
+ * Looks up the handler of a long option.
+ * @param option The option, e.g. "--format".
+ * @returns The handler, or undefined for options the builder has no method for.
+ */
+function getHandler(option: string): OptionHandler | undefined {
+  return (OPTIONS as Partial<Record<string, OptionHandler>>)[option];
+}
+
+/**
+ * Gets the number of values a long option takes.
+ * @param option The option, e.g. "--format".
+ * @returns The number of values, or undefined for options the builder has no method for.
+ */
+export function getOptionArity(option: string) {
+  return getHandler(option)?.arity;
+}
+
+/**
+ * Converts a long option to its key in YtdlpOptions, e.g. "--add-headers" to "addHeaders".
+ * @param option The option.
+ * @returns The key.
+ */
+export function toOptionKey(option: string) {
+  return option.slice(2).replace(/-([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Converts a key in YtdlpOptions to its long option, e.g. "addHeaders" to "--add-headers".
+ * @param key The key.
+ * @returns The option.
+ */
+export function fromOptionKey(key: string) {
+  return `--${key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)}`;
+}
+
+/**
+ * Resolves an option name the way the parser does: long aliases to the option they stand
+ * for, and short options to their long option.
+ * @param name The option, e.g. "--ies" or "-f".
+ * @returns The long option, or undefined if the builder has no method for it.
+ */
+export function resolveOptionName(name: string) {
+  const option = /^-[^-]$/.test(name) ? SHORT_OPTIONS[name[1]] : (LONG_ALIASES[name] ?? name);
+  return option !== undefined && getHandler(option) ? option : undefined;
+}
+
+const SHORT_OPTIONS: Record<string, string> = {
+  h: '--help',
+  U: '--update',
+  i: '--ignore-errors',
+  t: '--preset-alias',
+  '4': '--force-ipv4',
+  '6': '--force-ipv6',
+  I: '--playlist-items',
+  N: '--concurrent-fragments',
+  r: '--limit-rate',
+  R: '--retries',
+  a: '--batch-file',
+  P: '--paths',
+  o: '--output',
+  w: '--no-overwrites',
+  c: '--continue',
+  q: '--quiet',
+  s: '--simulate',
+  O: '--print',
+  j: '--dump-json',
+  J: '--dump-single-json',
+  v: '--verbose',
+  f: '--format',
+  S: '--format-sort',
+  F: '--list-formats',
+  u: '--username',
+  p: '--password',
+  '2': '--twofactor',
+  n: '--netrc',
+  x: '--extract-audio',
+  k: '--keep-video'
+};
+
+/**
+ * Takes the values of an option from the inline value and the following tokens.
+ * @param option The option, used in error messages.
+ * @param arity Number of values the option takes.
+ * @param inline Value attached to the option token (--opt=value or -oVALUE), if any.
+ * @param args All argument tokens.
+ * @param next Index of the token following the option.
+ * @returns The values and the index of the next unread token.
+ */
+function takeValues(
+  option: string,
+  arity: number,
+  inline: string | undefined,
+  args: string[],
+  next: number
+) {
+  if (arity === 0) {
+    if (inline !== undefined) {
+      throw new Error(`Option ${option} does not take a value`);
+    }
+    return { values: [], next };
+  }
+
+  const values = inline === undefined ? [] : [inline];
+  while (values.length < arity) {
+    if (next >= args.length) {
+      throw new Error(`Option ${option} requires ${arity === 1 ? 'a value' : `${arity} values`}`);
+    }
+    values.push(args[next]);
+    next++;
+  }
+  return { values, next };
+}
+
+/**
+ * Replays command-line arguments onto a builder by calling the matching builder method for
+ * every option. Long options (--format best, --format=best), aliases (--ies), short options
+ * (-f best, -fbest) and grouped short flags (-xk) are supported. Tokens that are not options,
+ * and every token after "--", are added as URLs. An option that can only be used once may be
+ * repeated, and the last use wins, as in yt-dlp.
+ * @param builder The builder to apply the arguments to.
+ * @param args The arguments, without the program.
+ * @param options Parse options; unknownOptions decides between throwing and passing through.
+ * @returns The unknown options that were found.
+ */
+export function applyArgs(
+  builder: YtdlpCommandBuilder,
+  args: string[],
+  options?: Pick<ParseOptions, 'unknownOptions'>
+) {
+  const policy = options?.unknownOptions ?? 'error';
+  const unknown: UnknownOption[] = [];
+  // Builder calls run once every argument is read, so that only the last use of an option
+  // applies, as in yt-dlp, where the builder would throw.
+  const calls: { option?: string; apply: () => void }[] = [];
+  let i = 0;
+
+  // The value of an unknown option can't be told from a URL, so every token up to the next
+  // option stays with it, in place.
+  const handleUnknown = (option: string, index: number) => {
+    unknown.push({ option, index });
+    let next = index + 1;
+    while (next < args.length && !args[next].startsWith('-')) {
+      next++;
+    }
+    if (policy === 'passthrough') {
+      const tokens = args.slice(index, next);
+      calls.push({ apply: () => builder.passthrough(...tokens) });
+    }
+    return next;
+  };
+
+  const apply = (option: string, handler: OptionHandler, values: string[]) => {
+    calls.push({ option, apply: () => handler.apply(builder, values) });
+  };
+
+  const addUrl = (url: string) => {
+    calls.push({ apply: () => builder.url(url) });
+  };
+
+  while (i < args.length) {
+    const token = args[i];
+
+    if (token === '--') {
+      args.slice(i + 1).forEach(addUrl);
+      break;
+    }
+
+    if (token.startsWith('--')) {
+      const eq = token.indexOf('=');
+      const name = eq === -1 ? token : token.slice(0, eq);
+      const inline = eq === -1 ? undefined : token.slice(eq + 1);
+      const canonical = LONG_ALIASES[name] ?? name;
+      const handler = getHandler(canonical);
+
+      if (!handler) {
+        i = handleUnknown(name, i);
+        continue;
+      }
+
+      const taken = takeValues(name, handler.arity, inline, args, i + 1);
+      apply(canonical, handler, taken.values);
+      i = taken.next;
+      continue;
+    }
+
+    if (token.startsWith('-') && token.length > 1) {
+      const group: { option: string; name: string; handler: OptionHandler; inline?: string }[] = [];
+      let known = true;
+
+      for (let j = 1; j < token.length; j++) {
+        const option = SHORT_OPTIONS[token[j]];
+        const handler = option === undefined ? undefined : getHandler(option);
+        if (!handler) {
+          known = false;
+          break;
+        }
+        if (handler.arity > 0) {
+          const rest = token.slice(j + 1);
+          group.push({ option, name: `-${token[j]}`, handler, inline: rest || undefined });
+          break;
+        }
+        group.push({ option, name: `-${token[j]}`, handler });
+      }
+
+      if (!known) {
+        i = handleUnknown(token, i);
+        continue;
+      }
+
+      i++;
+      for (const { option, name, handler, inline } of group) {
+        const taken = takeValues(name, handler.arity, inline, args, i);
+        apply(option, handler, taken.values);
+        i = taken.next;
+      }
+      continue;
+    }
+
+    addUrl(token);
+    i++;
+  }
+
+  if (unknown.length > 0 && policy === 'error') {
+    throw new YtdlpParseError(unknown);
+  }
+
+  const last = new Map(calls.map(({ option }, index) => [option, index]));
+  calls.forEach(({ option, apply }, index) => {
+    if (
+      option === undefined ||
+      (REPEATABLE_OPTIONS as readonly string[]).includes(option) ||
+      last.get(option) === index
+    ) {
+      apply();
+    }
+  });
+
+  return unknown;
+}
+
+/**
+ * Finds the known options in an argument list built by YtdlpCommandBuilder, with the
+ * values each one takes. Other arguments (URLs, passthrough) are skipped.
+ * @param args The arguments, without the program.
+ * @returns The options, in order.
+ */
+export function findOptions(args: string[]) {
+  const spans: OptionSpan[] = [];
+  let i = 0;
+  while (i < args.length && args[i] !== '--') {
+    const handler = getHandler(args[i]);
+    if (!handler) {
+      i++;
+      continue;
+    }
+    spans.push({ option: args[i], index: i, length: handler.arity + 1 });
+    i += handler.arity + 1;
+  }
+  return spans;
+}
@@ -0,0 +1,88 @@
+import {
+  COMPAT_OPTION_GROUPS,
+  COMPAT_OPTIONS,
+  type CompatOption,
+  type CompatOptionGroup
+} from './types.js';
+
+/** What each group stands for, as in yt-dlp. Members may be groups or exclusions themselves. */
+export const COMPAT_OPTION_GROUP_MEMBERS: Readonly<Record<CompatOptionGroup, readonly string[]>> = {
+  all: COMPAT_OPTIONS,
+  'youtube-dl': [
+    'all',
+    '-multistreams',
+    '-playlist-match-filter',
+    '-manifest-filesize-approx',
+    '-allow-unsafe-ext',
+    '-prefer-vp9-sort',
+    '-allow-unsafe-exec-expansion'
+  ],
+  'youtube-dlc': [
+    'all',
+    '-no-youtube-channel-redirect',
+    '-no-live-chat',
+    '-playlist-match-filter',
+    '-manifest-filesize-approx',
+    '-allow-unsafe-ext',
+    '-prefer-vp9-sort',
+    '-allow-unsafe-exec-expansion'
+  ],
+  '2021': ['2022', 'no-certifi', 'filename-sanitization'],
+  '2022': [
+    '2023',
+    'no-external-downloader-progress',
+    'playlist-match-filter',
+    'prefer-legacy-http-handler',
+    'manifest-filesize-approx'
+  ],
+  '2023': ['2024', 'prefer-vp9-sort'],
+  '2024': ['2025', 'mtime-by-default'],
+  '2025': []
+};
+
+/**
+ * Normalizes a compat option value the way yt-dlp does, and checks it against the documented
+ * options and groups. A "+" prefix is dropped, since yt-dlp only knows "-".
+ * @param value The value, e.g. "filename" or "-2022".
+ * @returns The value as yt-dlp expects it.
+ */
+export function normalizeCompatOption(value: string) {
+  const normalized = value.trim().toLowerCase().replace(/^\+/, '');
+  const name = normalized.replace(/^-/, '');
+  const known: readonly string[] = [...COMPAT_OPTIONS, ...COMPAT_OPTION_GROUPS];
+  if (!known.includes(name)) {
+    throw new Error(`Unknown compat option "${value}"`);
+  }
+  return normalized;
+}
+
+/**
+ * Expands compat options into the options they enable, the way yt-dlp does: groups are
+ * expanded recursively, and "-" removes an option or every option of a group (a group's own
+ * exclusions are added back).
+ * @param values The compat options, e.g. ["youtube-dl", "-filename"].
+ * @param start Options enabled before these, e.g. by earlier --compat-options.
+ * @returns The enabled options, in the order they were enabled.
+ */
+export function expandCompatOptions(
+  values: readonly string[],
+  start: readonly CompatOption[] = []
+) {
+  let enabled = [...start];
+  for (const value of values.map(normalizeCompatOption)) {
+    const exclude = value.startsWith('-');
+    const name = exclude ? value.slice(1) : value;
+    if (name in COMPAT_OPTION_GROUP_MEMBERS) {
+      const members = COMPAT_OPTION_GROUP_MEMBERS[name as CompatOptionGroup];
+      const applied = exclude
+        ? members.map((member) => (member.startsWith('-') ? member.slice(1) : `-${member}`))
+        : members;
+      enabled = expandCompatOptions(applied, enabled);
+    } else if (exclude) {
+      enabled = enabled.filter((option) => option !== name);
+    } else {
+      enabled.push(name as CompatOption);
+    }
+  }
+  return [...new Set(enabled)];
+}
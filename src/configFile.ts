@@ -0,0 +1,149 @@
+import { quoteShellArg } from './shellQuote.js';
+
+const BOMS: [number[], string][] = [
+  [[0xef, 0xbb, 0xbf], 'utf-8'],
+  [[0x00, 0x00, 0xfe, 0xff], 'utf-32be'],
+  [[0xff, 0xfe, 0x00, 0x00], 'utf-32le'],
+  [[0xff, 0xfe], 'utf-16le'],
+  [[0xfe, 0xff], 'utf-16be']
+];
+
+const WHITESPACE = new Set([' ', '\t', '\r', '\n']);
+
+/**
+ * Detects the encoding of a config file the way yt-dlp does: a byte order mark, or else a
+ * "# coding: ENCODING" declaration on the first line.
+ * @param data The raw file contents.
+ * @returns The encoding, if any, and the number of bytes to skip.
+ */
+function detectEncoding(data: Uint8Array): [string | undefined, number] {
+  for (const [bom, encoding] of BOMS) {
+    if (bom.every((byte, i) => data[i] === byte)) {
+      return [encoding, bom.length];
+    }
+  }
+  // Null bytes are dropped so the declaration is found in UTF-16 and UTF-32 files too.
+  const head = String.fromCharCode(...data.subarray(0, 512).filter((byte) => byte !== 0));
+  const match = /^#\s*coding\s*:\s*(\S+)[^\S\n]*$/m.exec(head);
+  return [match?.index === 0 ? match[1] : undefined, 0];
+}
+
+/**
+ * Decodes a config file. Text is used as is, apart from a leading byte order mark.
+ * @param input The file contents, as text or raw bytes.
+ * @returns The decoded text.
+ */
+export function decodeConfigFile(input: string | Uint8Array) {
+  if (typeof input === 'string') {
+    return input.replace(/^\uFEFF/, '');
+  }
+  const [encoding, skip] = detectEncoding(input);
+  // TextDecoder has no UTF-32 support.
+  if (encoding === 'utf-32be' || encoding === 'utf-32le') {
+    const view = new DataView(input.buffer, input.byteOffset + skip, input.byteLength - skip);
+    let text = '';
+    for (let i = 0; i + 4 <= view.byteLength; i += 4) {
+      text += String.fromCodePoint(view.getUint32(i, encoding === 'utf-32le'));
+    }
+    return text;
+  }
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(encoding ?? 'utf-8');
+  } catch {
+    throw new Error(`Unknown config file encoding "${encoding}"`);
+  }
+  return decoder.decode(input.subarray(skip));
+}
+
+/**
+ * Splits a config file into arguments the way yt-dlp does, with Python's
+ * shlex.split(contents, comments=True): quotes may span lines, a backslash outside quotes
+ * escapes any character (a newline included), and "#" starts a comment anywhere outside
+ * quotes, even inside a word.
+ * @param input The file contents, as text or raw bytes.
+ * @returns The arguments.
+ */
+export function splitConfigFile(input: string | Uint8Array) {
+  const text = decodeConfigFile(input);
+  const args: string[] = [];
+  let arg = '';
+  let inArg = false;
+  let i = 0;
+
+  const line = (index: number) => text.slice(0, index).split('\n').length;
+  const end = () => {
+    if (inArg) {
+      args.push(arg);
+    }
+    arg = '';
+    inArg = false;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (WHITESPACE.has(char)) {
+      end();
+      i++;
+    } else if (char === '#') {
+      end();
+      const newline = text.indexOf('\n', i);
+      i = newline === -1 ? text.length : newline + 1;
+    } else if (char === '\\') {
+      if (i + 1 >= text.length) {
+        throw new Error(`No escaped character (at line ${line(i)})`);
+      }
+      arg += text[i + 1];
+      inArg = true;
+      i += 2;
+    } else if (char === "'") {
+      const close = text.indexOf("'", i + 1);
+      if (close === -1) {
+        throw new Error(`Unterminated single quote (at line ${line(i)})`);
+      }
+      arg += text.slice(i + 1, close);
+      inArg = true;
+      i = close + 1;
+    } else if (char === '"') {
+      const start = i;
+      i++;
+      while (text[i] !== '"') {
+        if (i >= text.length) {
+          throw new Error(`Unterminated double quote (at line ${line(start)})`);
+        }
+        // Only a double quote or a backslash can be escaped inside double quotes.
+        if (text[i] === '\\' && (text[i + 1] === '"' || text[i + 1] === '\\')) {
+          i++;
+        }
+        arg += text[i];
+        i++;
+      }
+      inArg = true;
+      i++;
+    } else {
+      arg += char;
+      inArg = true;
+      i++;
+    }
+  }
+  end();
+
+  return args;
+}
+
+/**
+ * Formats lines of arguments as a config file, one line per option. Arguments are quoted
+ * with single quotes where needed, which also keeps values with line breaks intact.
+ * @param lines The arguments of each line.
+ * @param comment Optional comment for the top of the file. May span several lines.
+ * @returns The config file contents, starting with a "# coding: utf-8" declaration.
+ */
+export function formatConfigFile(lines: string[][], comment?: string) {
+  const header = ['# coding: utf-8'];
+  if (comment !== undefined) {
+    header.push(...comment.split(/\r?\n/).map((text) => (text ? `# ${text}` : '#')));
+  }
+  const body = lines.map((args) => args.map((arg) => quoteShellArg(arg, 'posix')).join(' '));
+  return [...header, ...body].join('\n') + '\n';
+}
@@ -0,0 +1,193 @@
+import type { DownloadSection, SectionTimestamp } from './types.js';
+
+/** A time range in seconds. Negative values count from the end, Infinity is the end. */
+type SectionRange = [number, number];
+
+const COLON_DURATION = /^(?:(?:(?:(\d+):)?(\d+):)?(\d+):)?(\d+)([.:]\d+)?$/;
+const UNIT_DURATION =
+  /^(?:(\d+(?:\.\d+)?)d)?(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?$/;
+const TIME_RANGE = /^(?:(-?)([^-]+))?\s*-\s*(?:(-?)([^-]+))?$/;
+
+/**
+ * Parses an unsigned timestamp the way yt-dlp's parse_duration() does, for the
+ * "[[[DD:]HH:]MM:]SS[.ms]" and "1d2h3m4.5s" forms.
+ * @param text The timestamp.
+ * @returns The timestamp in seconds, or undefined if it is invalid.
+ */
+function parseDuration(text: string) {
+  const value = text.trim();
+  if (value === 'inf' || value === 'infinite') {
+    return Infinity;
+  }
+  const colon = COLON_DURATION.exec(value);
+  // Seconds are limited to two digits after minutes, as in yt-dlp.
+  if (colon && !(colon[3] !== undefined && colon[4].length > 2)) {
+    const [days, hours, minutes, seconds] = colon.slice(1, 5).map((part) => Number(part ?? 0));
+    const fraction = Number(`0.${colon[5]?.slice(1) ?? 0}`);
+    return ((days * 24 + hours) * 60 + minutes) * 60 + seconds + fraction;
+  }
+  const units = value ? UNIT_DURATION.exec(value) : null;
+  if (units) {
+    const [days, hours, minutes, seconds] = units.slice(1, 5).map((part) => Number(part ?? 0));
+    return ((days * 24 + hours) * 60 + minutes) * 60 + seconds;
+  }
+  return undefined;
+}
+
+/**
+ * Parses the time ranges of a "*start-end[,start-end...]" section, following yt-dlp.
+ * @param section The section, "*" included.
+ * @returns The ranges.
+ */
+function parseTimeRanges(section: string) {
+  return section
+    .slice(1)
+    .split(',')
+    .map((text): SectionRange => {
+      const range = text.trim();
+      const match = range !== '-' ? TIME_RANGE.exec(range) : null;
+      const start = match && parseDuration(match[2] ?? '0');
+      const end = match && parseDuration(match[4] ?? 'inf');
+      if (!match || start === undefined || end === undefined) {
+        throw new Error(
+          `Invalid time range "${range}" in "${section}". Must be of the form "*start-end"`
+        );
+      }
+      return [match[1] ? -start! : start!, match[3] ? -end! : end!];
+    });
+}
+
+/**
+ * Maps a range to positions that can be compared with other ranges: from the start for
+ * non-negative ranges, from the end for negative ones.
+ * @param range The range.
+ * @returns The anchor and positions, or undefined for ranges that mix both.
+ */
+function anchorRange([start, end]: SectionRange): [string, number, number] | undefined {
+  if (start >= 0 && end >= 0) {
+    return ['start', start, end];
+  }
+  if (start < 0 && (end < 0 || end === Infinity)) {
+    return ['end', start, end === Infinity ? 0 : end];
+  }
+  return undefined;
+}
+
+/**
+ * Formats a range for error messages.
+ * @param range The range.
+ * @returns The range as "*start-end", in seconds.
+ */
+function describeRange([start, end]: SectionRange) {
+  const format = (value: number) => (Math.abs(value) === Infinity ? 'inf' : String(value));
+  return `*${format(start)}-${format(end)}`;
+}
+
+/**
+ * Formats a timestamp, checking that it is valid.
+ * @param timestamp The timestamp.
+ * @returns The timestamp in yt-dlp's syntax.
+ */
+function formatTimestamp(timestamp: SectionTimestamp) {
+  if (typeof timestamp === 'number') {
+    if (Number.isNaN(timestamp) || timestamp === -Infinity) {
+      throw new Error(`Invalid timestamp ${timestamp}`);
+    }
+    return timestamp === Infinity ? 'inf' : String(timestamp);
+  }
+  const text = timestamp.trim();
+  if (parseDuration(text.replace(/^-/, '')) === undefined) {
+    throw new Error(`Invalid timestamp "${timestamp}"`);
+  }
+  return text;
+}
+
+/**
+ * Formats a chapter regular expression. The i, m and s flags become inline flags, which
+ * Python's re module understands.
+ * @param chapters The regular expression.
+ * @returns The regular expression source.
+ */
+function formatChapters(chapters: string | RegExp) {
+  let source = chapters;
+  if (chapters instanceof RegExp) {
+    const flags = chapters.flags.replace('g', '');
+    if (/[^ims]/.test(flags)) {
+      throw new Error(`Unsupported regular expression flags "${chapters.flags}"`);
+    }
+    source = (flags ? `(?${flags})` : '') + chapters.source;
+  }
+  if (typeof source !== 'string' || !source.trim()) {
+    throw new Error('Regex must be provided');
+  }
+  if (source.startsWith('*')) {
+    throw new Error('Chapter regex must not start with "*", escape it as "\\*"');
+  }
+  return source;
+}
+
+/**
+ * Formats download sections in yt-dlp's syntax. Time ranges are joined into one
+ * "*start-end,start-end" value; chapters and "*from-url" get a value each.
+ * @param sections The sections.
+ * @returns The --download-sections values.
+ */
+export function formatDownloadSections(sections: DownloadSection[]) {
+  const values: string[] = [];
+  const ranges: string[] = [];
+  for (const section of sections) {
+    if (section === 'from-url') {
+      values.push('*from-url');
+    } else if (section && typeof section === 'object' && 'chapters' in section) {
+      values.push(formatChapters(section.chapters));
+    } else if (section && typeof section === 'object') {
+      const { start, end } = section;
+      if (start === undefined && end === undefined) {
+        throw new Error('Range must include start and/or end');
+      }
+      ranges.push(
+        `${start === undefined ? '00:00:00' : formatTimestamp(start)}-${end === undefined ? 'inf' : formatTimestamp(end)}`
+      );
+    } else {
+      throw new Error(`Invalid download section ${JSON.stringify(section)}`);
+    }
+  }
+  if (ranges.length) {
+    values.unshift(`*${ranges.join(',')}`);
+  }
+  return values;
+}
+
+/**
+ * Checks --download-sections values: time ranges must be valid, start before they end,
+ * and not overlap each other.
+ * @param values The values, earlier ones first.
+ */
+export function validateDownloadSections(values: string[]) {
+  const checked: SectionRange[] = [];
+  for (const value of values) {
+    if (!value.startsWith('*') || value === '*from-url') {
+      continue;
+    }
+    for (const range of parseTimeRanges(value)) {
+      const anchored = anchorRange(range);
+      if (anchored && anchored[1] >= anchored[2]) {
+        throw new Error(`Section start must be before its end (${describeRange(range)})`);
+      }
+      const overlap = checked.find((other) => {
+        const anchoredOther = anchorRange(other);
+        return (
+          anchored &&
+          anchoredOther &&
+          anchored[0] === anchoredOther[0] &&
+          anchored[1] < anchoredOther[2] &&
+          anchoredOther[1] < anchored[2]
+        );
+      });
+      if (overlap) {
+        throw new Error(`Section ${describeRange(range)} overlaps ${describeRange(overlap)}`);
+      }
+      checked.push(range);
+    }
+  }
+}
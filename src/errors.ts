@@ -0,0 +1,15 @@
+/**
+ * Thrown when a yt-dlp mini-language string (a format selector, sort order, filter or
+ * template) cannot be parsed. The position points at the offending character.
+ */
+export class YtdlpSyntaxError extends Error {
+  readonly input: string;
+  readonly position: number;
+
+  constructor(message: string, input: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'YtdlpSyntaxError';
+    this.input = input;
+    this.position = position;
+  }
+}
@@ -0,0 +1,76 @@
+import type { ExtractorArgs, ExtractorArgValue } from './types.js';
+
+/**
+ * Formats one value, escaping commas the way yt-dlp expects.
+ * @param key The argument, used in error messages.
+ * @param value The value.
+ * @returns The formatted value.
+ */
+function formatValue(key: string, value: string | number) {
+  const text = String(value);
+  if (text.includes(';')) {
+    throw new Error(`Value of extractor argument "${key}" cannot contain ";"`);
+  }
+  return text.replace(/,/g, '\\,');
+}
+
+/**
+ * Formats extractor arguments as "KEY=VALUE,VALUE;KEY=VALUE". true gives the bare key,
+ * arrays give comma-separated values, and undefined arguments are left out.
+ * @param args The arguments.
+ * @returns The formatted arguments.
+ */
+export function formatExtractorArgs(args: ExtractorArgs) {
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(args) as [string, ExtractorArgValue | undefined][]) {
+    if (value === undefined) {
+      continue;
+    }
+    if (!/^\w+$/.test(key)) {
+      throw new Error(`Invalid extractor argument "${key}"`);
+    }
+    if (value === true) {
+      parts.push(key);
+    } else if (Array.isArray(value)) {
+      if (value.length === 0) {
+        throw new Error(`Extractor argument "${key}" must have at least one value`);
+      }
+      const values = value.map((item) => formatValue(key, item));
+      parts.push(values.length === 1 && values[0] === '' ? key : `${key}=${values.join(',')}`);
+    } else {
+      parts.push(`${key}=${formatValue(key, String(value))}`);
+    }
+  }
+  return parts.join(';');
+}
+
+/**
+ * Parses extractor arguments the way yt-dlp does: keys are lowercased with "-" turned into
+ * "_", and values are split at commas not escaped with "\" and trimmed. Empty keys are
+ * dropped.
+ * @param args The arguments, "KEY=VALUE,VALUE;KEY=VALUE".
+ * @returns The values of every key.
+ */
+export function parseExtractorArgs(args: string) {
+  const parsed: Record<string, string[]> = {};
+  for (const arg of args.split(';')) {
+    const index = arg.indexOf('=');
+    const key = (index === -1 ? arg : arg.slice(0, index)).trim().toLowerCase().replace(/-/g, '_');
+    if (!key) {
+      continue;
+    }
+    const values = index === -1 ? '' : arg.slice(index + 1);
+    parsed[key] = values.split(/(?<!\\),/).map((value) => value.replace(/\\,/g, ',').trim());
+  }
+  return parsed;
+}
+
+/**
+ * Merges arguments for the same extractor. Keys of the later arguments replace earlier ones.
+ * @param earlier The earlier arguments.
+ * @param later The later arguments.
+ * @returns The merged arguments.
+ */
+export function mergeExtractorArgs(earlier: string, later: string) {
+  return formatExtractorArgs({ ...parseExtractorArgs(earlier), ...parseExtractorArgs(later) });
+}
@@ -0,0 +1,614 @@
+import { YtdlpSyntaxError } from './errors.js';
+import type {
+  FormatFilter,
+  FormatFilterOptions,
+  FormatSelectorNode,
+  FormatSpecifierOptions,
+  NumericFormatField,
+  NumericOperator,
+  StringFormatField,
+  StringOperator
+} from './types.js';
+
+type CompoundType = 'merge' | 'fallback' | 'list';
+
+const PRECEDENCE: Record<CompoundType, number> = { list: 0, fallback: 1, merge: 2 };
+const SEPARATORS: Record<CompoundType, string> = { list: ',', fallback: '/', merge: '+' };
+
+const NUMERIC_OPERATORS = ['<', '<=', '>', '>=', '=', '!='];
+const STRING_OPERATORS = ['=', '^=', '$=', '*=', '~=', '!=', '!^=', '!$=', '!*=', '!~='];
+
+const SIZE = /^\d+(?:\.\d+)?(?:[kmgtpezy]i?b?)?$/i;
+const KEYWORD = /^(?:best|worst|b|w)(?:video|audio|v|a)?\*?(?:\.[1-9]\d*)?$/;
+const SPECIFIER_CHARS = /[\w.*=-]/;
+const LONG_KEYWORDS = [
+  'best',
+  'worst',
+  'bestvideo',
+  'worstvideo',
+  'bestaudio',
+  'worstaudio',
+  'mergeall'
+];
+
+/**
+ * An immutable yt-dlp format selector, see "FORMAT SELECTION" in the yt-dlp README.
+ * Build one from the static factories, or parse an existing string, and pass it to format().
+ *
+ * @example
+ * FormatSelector.bestVideo()
+ *   .where('height', '<=', 720)
+ *   .merge(FormatSelector.bestAudio())
+ *   .or(FormatSelector.best())
+ *   .toString(); // "bv[height<=720]+ba/b"
+ */
+export class FormatSelector {
+  private readonly node: FormatSelectorNode;
+
+  private constructor(node: FormatSelectorNode) {
+    this.node = node;
+  }
+
+  /**
+   * Best format that contains both video and audio ("b").
+   * @param options Adds "*" or selects the n-th best format.
+   * @returns A new FormatSelector.
+   */
+  static best(options?: FormatSpecifierOptions) {
+    return FormatSelector.keyword('b', options);
+  }
+
+  /**
+   * Worst format that contains both video and audio ("w").
+   * @param options Adds "*" or selects the n-th worst format.
+   * @returns A new FormatSelector.
+   */
+  static worst(options?: FormatSpecifierOptions) {
+    return FormatSelector.keyword('w', options);
+  }
+
+  /**
+   * Best video-only format ("bv").
+   * @param options Adds "*" or selects the n-th best format.
+   * @returns A new FormatSelector.
+   */
+  static bestVideo(options?: FormatSpecifierOptions) {
+    return FormatSelector.keyword('bv', options);
+  }
+
+  /**
+   * Worst video-only format ("wv").
+   * @param options Adds "*" or selects the n-th worst format.
+   * @returns A new FormatSelector.
+   */
+  static worstVideo(options?: FormatSpecifierOptions) {
+    return FormatSelector.keyword('wv', options);
+  }
+
+  /**
+   * Best audio-only format ("ba").
+   * @param options Adds "*" or selects the n-th best format.
+   * @returns A new FormatSelector.
+   */
+  static bestAudio(options?: FormatSpecifierOptions) {
+    return FormatSelector.keyword('ba', options);
+  }
+
+  /**
+   * Worst audio-only format ("wa").
+   * @param options Adds "*" or selects the n-th worst format.
+   * @returns A new FormatSelector.
+   */
+  static worstAudio(options?: FormatSpecifierOptions) {
+    return FormatSelector.keyword('wa', options);
+  }
+
+  /**
+   * Every format, downloaded separately ("all").
+   * @returns A new FormatSelector.
+   */
+  static all() {
+    return new FormatSelector({ type: 'format', specifier: 'all', filters: [] });
+  }
+
+  /**
+   * Every format, merged into one file ("mergeall").
+   * @returns A new FormatSelector.
+   */
+  static mergeAll() {
+    return new FormatSelector({ type: 'format', specifier: 'mergeall', filters: [] });
+  }
+
+  /**
+   * A format by its format code, as listed by listFormats(), e.g. "137" or "hls-1080p".
+   * @param formatId The format code.
+   * @returns A new FormatSelector.
+   */
+  static formatId(formatId: string) {
+    if (!formatId || !/^[\w.=-]+$/.test(formatId)) {
+      throw new Error('Format ID must be provided');
+    }
+    return new FormatSelector({ type: 'format', specifier: formatId, filters: [] });
+  }
+
+  /**
+   * Best format with the given file extension, e.g. "mp4".
+   * @param ext The file extension.
+   * @returns A new FormatSelector.
+   */
+  static extension(ext: string) {
+    if (!ext || !/^\w+$/.test(ext)) {
+      throw new Error('Extension must be provided');
+    }
+    return new FormatSelector({ type: 'format', specifier: ext, filters: [] });
+  }
+
+  /**
+   * Download each selector in turn (",").
+   * @param selectors The selectors to download.
+   * @returns A new FormatSelector.
+   */
+  static list(...selectors: FormatSelector[]) {
+    return FormatSelector.compound('list', selectors);
+  }
+
+  /**
+   * Parses and validates a --format string.
+   * @param input The format string, e.g. "bv*[height<=720]+ba/b".
+   * @returns A new FormatSelector.
+   * @throws YtdlpSyntaxError pointing at the first invalid character.
+   */
+  static parse(input: string) {
+    return new FormatSelector(new FormatParser(input).parse());
+  }
+
+  /**
+   * Adds a filter, e.g. where('height', '<=', 720) for "[height<=720]". Filtering a merge,
+   * fallback or list wraps it in parentheses first.
+   * @param field The format field to compare.
+   * @param operator The comparison operator.
+   * @param value The value to compare against.
+   * @param options Also match formats where the field is unknown ("?").
+   * @returns A new FormatSelector.
+   */
+  where(
+    field: NumericFormatField,
+    operator: NumericOperator,
+    value: number | string,
+    options?: FormatFilterOptions
+  ): FormatSelector;
+  where(
+    field: StringFormatField,
+    operator: StringOperator,
+    value: string,
+    options?: FormatFilterOptions
+  ): FormatSelector;
+  where(
+    field: string,
+    operator: NumericOperator | StringOperator,
+    value: number | string,
+    options?: FormatFilterOptions
+  ): FormatSelector;
+  where(
+    field: string,
+    operator: NumericOperator | StringOperator,
+    value: number | string,
+    options?: FormatFilterOptions
+  ) {
+    const filter: FormatFilter = { field, operator, value };
+    if (options?.allowUnknown) {
+      filter.allowUnknown = true;
+    }
+    const error = checkFilter(filter);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const node = this.getNode();
+    if (node.type === 'format' || node.type === 'group') {
+      return new FormatSelector({ ...node, filters: [...node.filters, filter] });
+    }
+    return new FormatSelector({ type: 'group', selector: node, filters: [filter] });
+  }
+
+  /**
+   * Merges this selector with others into one file ("+").
+   * @param selectors The selectors to merge in.
+   * @returns A new FormatSelector.
+   */
+  merge(...selectors: FormatSelector[]) {
+    return FormatSelector.compound('merge', [this, ...selectors]);
+  }
+
+  /**
+   * Falls back to other selectors when this one matches nothing ("/").
+   * @param selectors The selectors to try in order.
+   * @returns A new FormatSelector.
+   */
+  or(...selectors: FormatSelector[]) {
+    return FormatSelector.compound('fallback', [this, ...selectors]);
+  }
+
+  /**
+   * Wraps this selector in parentheses.
+   * @returns A new FormatSelector.
+   */
+  group() {
+    return new FormatSelector({ type: 'group', selector: this.getNode(), filters: [] });
+  }
+
+  /**
+   * Gets the syntax tree of the selector.
+   * @returns A copy of the syntax tree.
+   */
+  getNode(): FormatSelectorNode {
+    return cloneNode(this.node);
+  }
+
+  /**
+   * Serializes the selector to --format syntax.
+   * @returns The format string.
+   */
+  toString() {
+    return serialize(this.node);
+  }
+
+  /**
+   * Creates a best/worst specifier such as "bv*.2".
+   * @param base The short specifier, e.g. "bv".
+   * @param options Adds "*" or selects the n-th format.
+   * @returns A new FormatSelector.
+   */
+  private static keyword(base: string, options?: FormatSpecifierOptions) {
+    if (options?.n !== undefined && (!Number.isInteger(options.n) || options.n < 1)) {
+      throw new Error('n must be a positive integer');
+    }
+    const specifier = `${base}${options?.wildcard ? '*' : ''}${options?.n ? `.${options.n}` : ''}`;
+    return new FormatSelector({ type: 'format', specifier, filters: [] });
+  }
+
+  /**
+   * Joins selectors with a separator, flattening nested joins of the same type.
+   * @param type The kind of join.
+   * @param selectors The selectors to join.
+   * @returns A new FormatSelector.
+   */
+  private static compound(type: CompoundType, selectors: FormatSelector[]) {
+    if (selectors.length === 0) {
+      throw new Error('At least one selector must be provided');
+    }
+    const nodes = selectors.flatMap((selector) => {
+      const node = selector.getNode();
+      return node.type === type ? node.selectors : [node];
+    });
+    if (nodes.length === 1) {
+      return new FormatSelector(nodes[0]);
+    }
+    return new FormatSelector({ type, selectors: nodes });
+  }
+}
+
+/**
+ * Deep-copies a syntax tree node.
+ * @param node The node to copy.
+ * @returns The copy.
+ */
+function cloneNode(node: FormatSelectorNode): FormatSelectorNode {
+  switch (node.type) {
+    case 'format':
+      return { ...node, filters: node.filters.map((filter) => ({ ...filter })) };
+    case 'group':
+      return {
+        ...node,
+        selector: cloneNode(node.selector),
+        filters: node.filters.map((filter) => ({ ...filter }))
+      };
+    default:
+      return { ...node, selectors: node.selectors.map(cloneNode) };
+  }
+}
+
+/**
+ * Checks that a filter can be written in yt-dlp's filter syntax.
+ * @param filter The filter to check.
+ * @returns An error message, or undefined if the filter is valid.
+ */
+function checkFilter({ field, operator, value }: FormatFilter) {
+  if (!field || !/^[\w.-]+$/.test(field)) {
+    return 'Filter field must be provided';
+  }
+  if (!NUMERIC_OPERATORS.includes(operator) && !STRING_OPERATORS.includes(operator)) {
+    return `Unknown filter operator "${operator}"`;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value < 0) {
+      return 'Filter value must be a non-negative number';
+    }
+    if (!NUMERIC_OPERATORS.includes(operator)) {
+      return `Operator "${operator}" compares strings, not numbers`;
+    }
+  } else if (['<', '<=', '>', '>='].includes(operator) && !SIZE.test(value)) {
+    return `Operator "${operator}" needs a number, not "${value}"`;
+  }
+  return undefined;
+}
+
+/**
+ * Serializes a filter value, quoting it when it contains characters yt-dlp does not
+ * accept unquoted.
+ * @param value The value to serialize.
+ * @returns The serialized value.
+ */
+function serializeValue(value: string | number) {
+  if (typeof value === 'number' || /^[\w.-]+$/.test(value)) {
+    return String(value);
+  }
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+/**
+ * Serializes filters to "[field<op>value]" syntax.
+ * @param filters The filters to serialize.
+ * @returns The serialized filters.
+ */
+function serializeFilters(filters: FormatFilter[]) {
+  return filters
+    .map(
+      ({ field, operator, value, allowUnknown }) =>
+        `[${field}${operator}${allowUnknown ? '?' : ''}${serializeValue(value)}]`
+    )
+    .join('');
+}
+
+/**
+ * Serializes a syntax tree node, adding parentheses where precedence requires them.
+ * @param node The node to serialize.
+ * @returns The format string.
+ */
+function serialize(node: FormatSelectorNode): string {
+  switch (node.type) {
+    case 'format':
+      return `${node.specifier ?? ''}${serializeFilters(node.filters)}`;
+    case 'group':
+      return `(${serialize(node.selector)})${serializeFilters(node.filters)}`;
+    default:
+      return node.selectors
+        .map((child) => {
+          const text = serialize(child);
+          const wrap =
+            child.type !== 'format' &&
+            child.type !== 'group' &&
+            PRECEDENCE[child.type] < PRECEDENCE[node.type];
+          return wrap ? `(${text})` : text;
+        })
+        .join(SEPARATORS[node.type]);
+  }
+}
+
+/**
+ * Computes the edit distance between two strings.
+ * @param a The first string.
+ * @param b The second string.
+ * @returns The number of single-character edits that turn a into b.
+ */
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Recursive-descent parser for --format strings. Precedence from loosest to tightest
+ * is "," then "/" then "+"; parentheses group, and "[...]" filters bind to the
+ * specifier or group before them.
+ */
+class FormatParser {
+  private position = 0;
+
+  constructor(private readonly input: string) {}
+
+  /**
+   * Parses the whole input.
+   * @returns The syntax tree.
+   */
+  parse() {
+    if (!this.input.trim()) {
+      throw new YtdlpSyntaxError('Format selector must not be empty', this.input, 0);
+    }
+    const node = this.parseCompound('list');
+    this.skipSpaces();
+    if (this.position < this.input.length) {
+      this.fail(`Unexpected "${this.input[this.position]}"`);
+    }
+    return node;
+  }
+
+  /**
+   * Parses selectors joined by the separator of the given type.
+   * @param type The kind of join to parse.
+   * @returns The syntax tree.
+   */
+  private parseCompound(type: CompoundType): FormatSelectorNode {
+    const next = (): FormatSelectorNode =>
+      type === 'list'
+        ? this.parseCompound('fallback')
+        : type === 'fallback'
+          ? this.parseCompound('merge')
+          : this.parseUnit();
+
+    const selectors = [next()];
+    while (this.peek() === SEPARATORS[type]) {
+      this.position++;
+      selectors.push(next());
+    }
+    return selectors.length === 1 ? selectors[0] : { type, selectors };
+  }
+
+  /**
+   * Parses a specifier or parenthesized group, with its filters.
+   * @returns The syntax tree.
+   */
+  private parseUnit(): FormatSelectorNode {
+    this.skipSpaces();
+    if (this.input[this.position] === '(') {
+      this.position++;
+      const selector = this.parseCompound('list');
+      if (this.peek() !== ')') {
+        this.fail('Expected ")"');
+      }
+      this.position++;
+      return { type: 'group', selector, filters: this.parseFilters() };
+    }
+
+    const start = this.position;
+    while (this.position < this.input.length && SPECIFIER_CHARS.test(this.input[this.position])) {
+      this.position++;
+    }
+    const specifier = this.input.slice(start, this.position);
+    if (specifier) {
+      this.checkSpecifier(specifier, start);
+    }
+
+    const filters = this.parseFilters();
+    if (!specifier && filters.length === 0) {
+      this.fail(
+        this.position < this.input.length
+          ? `Unexpected "${this.input[this.position]}"`
+          : 'Unexpected end of format selector'
+      );
+    }
+    return specifier ? { type: 'format', specifier, filters } : { type: 'format', filters };
+  }
+
+  /**
+   * Rejects malformed specifiers and likely typos of keywords, such as "bestaudo".
+   * Other words are accepted as format codes or extensions.
+   * @param specifier The specifier to check.
+   * @param start Position of the specifier in the input.
+   */
+  private checkSpecifier(specifier: string, start: number) {
+    if (KEYWORD.test(specifier) || specifier === 'all' || specifier === 'mergeall') {
+      return;
+    }
+    if (specifier.includes('*')) {
+      throw new YtdlpSyntaxError(`Invalid format specifier "${specifier}"`, this.input, start);
+    }
+    if (specifier.length >= 4 && !/\d/.test(specifier)) {
+      const typo = LONG_KEYWORDS.find((keyword) => editDistance(specifier, keyword) <= 2);
+      if (typo) {
+        throw new YtdlpSyntaxError(
+          `Unknown format specifier "${specifier}" (did you mean "${typo}"?)`,
+          this.input,
+          start
+        );
+      }
+    }
+  }
+
+  /**
+   * Parses the "[...]" filters at the current position.
+   * @returns The filters.
+   */
+  private parseFilters() {
+    const filters: FormatFilter[] = [];
+    while (this.input[this.position] === '[') {
+      const start = this.position;
+      let quote = '';
+      let end = start + 1;
+      for (; end < this.input.length; end++) {
+        const char = this.input[end];
+        if (quote) {
+          if (char === '\\') {
+            end++;
+          } else if (char === quote) {
+            quote = '';
+          }
+        } else if (char === '"' || char === "'") {
+          quote = char;
+        } else if (char === ']') {
+          break;
+        }
+      }
+      if (end >= this.input.length) {
+        throw new YtdlpSyntaxError('Unclosed "["', this.input, start);
+      }
+      filters.push(this.parseFilter(this.input.slice(start + 1, end), start + 1));
+      this.position = end + 1;
+    }
+    return filters;
+  }
+
+  /**
+   * Parses the contents of one filter.
+   * @param text The text between the brackets.
+   * @param start Position of the text in the input.
+   * @returns The filter.
+   */
+  private parseFilter(text: string, start: number): FormatFilter {
+    const match =
+      /^\s*([\w.-]+)\s*(!?)\s*(<=|>=|<|>|=|\^=|\$=|\*=|~=)\s*(\?)?\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([\w.-]+))\s*$/.exec(
+        text
+      );
+    if (!match) {
+      throw new YtdlpSyntaxError(`Invalid filter "[${text}]"`, this.input, start);
+    }
+    const [, field, negation, op, unknown, doubleQuoted, singleQuoted, bare] = match;
+    const operator = `${negation}${op}` as NumericOperator | StringOperator;
+    if (negation && ['<', '<=', '>', '>='].includes(op)) {
+      throw new YtdlpSyntaxError(`Invalid filter operator "${operator}"`, this.input, start);
+    }
+
+    const quoted = doubleQuoted ?? singleQuoted;
+    const value =
+      quoted !== undefined
+        ? quoted.replace(/\\(.)/g, '$1')
+        : /^\d+(?:\.\d+)?$/.test(bare)
+          ? Number(bare)
+          : bare;
+    const filter: FormatFilter = { field, operator, value };
+    if (unknown) {
+      filter.allowUnknown = true;
+    }
+    const error = checkFilter(filter);
+    if (error) {
+      throw new YtdlpSyntaxError(error, this.input, start);
+    }
+    return filter;
+  }
+
+  /**
+   * Skips spaces and returns the next character.
+   * @returns The next character, or undefined at the end of the input.
+   */
+  private peek() {
+    this.skipSpaces();
+    return this.input[this.position];
+  }
+
+  /**
+   * Skips spaces at the current position.
+   */
+  private skipSpaces() {
+    while (this.input[this.position] === ' ') {
+      this.position++;
+    }
+  }
+
+  /**
+   * Throws a syntax error at the current position.
+   * @param message What went wrong.
+   */
+  private fail(message: string): never {
+    throw new YtdlpSyntaxError(message, this.input, this.position);
+  }
+}
@@ -0,0 +1,186 @@
+import { YtdlpSyntaxError } from './errors.js';
+import {
+  FORMAT_SORT_FIELDS,
+  type FormatSortField,
+  type FormatSortItem,
+  type FormatSortOptions
+} from './types.js';
+
+// Fields sorted by a preference order of names rather than by a number.
+const ORDERED_FIELDS: FormatSortField[] = [
+  'proto',
+  'vcodec',
+  'acodec',
+  'codec',
+  'vext',
+  'aext',
+  'ext',
+  'hdr'
+];
+// Fields that take a video and an audio preference, e.g. "ext:mp4:m4a".
+const PAIRED_FIELDS: FormatSortField[] = ['codec', 'ext'];
+const BOOLEAN_FIELDS: FormatSortField[] = ['hasvid', 'hasaud'];
+// Fields compared as text, e.g. "id:137".
+const TEXT_FIELDS: FormatSortField[] = ['id'];
+// Fields that take a size with a unit, e.g. "filesize~1G".
+const SIZE_FIELDS: FormatSortField[] = ['filesize', 'fs_approx', 'size'];
+
+const NUMBER = /^\d+(?:\.\d+)?$/;
+const SIZE = /^\d+(?:\.\d+)?(?:[kmgtpezy]i?b?)?$/i;
+const NAME = /^[\w.+-]+$/;
+
+/**
+ * An immutable yt-dlp format sort order, see "Sorting Formats" in the yt-dlp README.
+ * Build one field by field, or parse an existing string, and pass it to formatSort().
+ *
+ * @example
+ * FormatSort.by('res', { prefer: 720 }).by('ext', { prefer: ['mp4', 'm4a'] }).by('size', { reverse: true })
+ *   .toString(); // "res:720,ext:mp4:m4a,+size"
+ */
+export class FormatSort {
+  private readonly items: FormatSortItem[];
+
+  private constructor(items: FormatSortItem[]) {
+    this.items = items;
+  }
+
+  /**
+   * Starts a sort order with a field.
+   * @param field The field to sort by.
+   * @param options Reverse the order, or set a preferred or closest value.
+   * @returns A new FormatSort.
+   */
+  static by(field: FormatSortField, options?: FormatSortOptions) {
+    return new FormatSort([]).by(field, options);
+  }
+
+  /**
+   * Parses and validates a --format-sort string.
+   * @param input The sort order, e.g. "res:720,+size,ext:mp4:m4a".
+   * @returns A new FormatSort.
+   * @throws YtdlpSyntaxError pointing at the first invalid field or value.
+   */
+  static parse(input: string) {
+    const items: FormatSortItem[] = [];
+    let position = 0;
+    for (const part of input.split(',')) {
+      const start = position + (part.length - part.trimStart().length);
+      position += part.length + 1;
+
+      const match = /^(\+)?([a-z_]+)(?:([:~])(.*))?$/.exec(part.trim());
+      if (!match) {
+        const message = part.trim() ? `Invalid sort field "${part.trim()}"` : 'Empty sort field';
+        throw new YtdlpSyntaxError(message, input, start);
+      }
+      const [, reverse, field, separator, value] = match;
+      const item = { field } as FormatSortItem;
+      if (reverse) {
+        item.reverse = true;
+      }
+      if (separator === ':') {
+        item.prefer = value;
+      } else if (separator === '~') {
+        item.closest = value;
+      }
+
+      const error = checkItem(item);
+      if (error) {
+        const valueError = separator && FORMAT_SORT_FIELDS.includes(field as FormatSortField);
+        throw new YtdlpSyntaxError(
+          error,
+          input,
+          valueError ? start + (reverse ? 1 : 0) + field.length + 1 : start
+        );
+      }
+      items.push(item);
+    }
+    return new FormatSort(items);
+  }
+
+  /**
+   * Adds a field to sort by, after the fields already added.
+   * @param field The field to sort by.
+   * @param options Reverse the order, or set a preferred or closest value.
+   * @returns A new FormatSort.
+   */
+  by(field: FormatSortField, options?: FormatSortOptions) {
+    const item: FormatSortItem = { field, ...options };
+    const error = checkItem(item);
+    if (error) {
+      throw new Error(error);
+    }
+    return new FormatSort([...this.items, item]);
+  }
+
+  /**
+   * Gets the fields of the sort order.
+   * @returns A copy of the fields, in order.
+   */
+  getItems() {
+    return this.items.map((item) => ({ ...item }));
+  }
+
+  /**
+   * Serializes the sort order to --format-sort syntax.
+   * @returns The sort order string.
+   */
+  toString() {
+    return this.items
+      .map(({ field, reverse, prefer, closest }) => {
+        let text = `${reverse ? '+' : ''}${field}`;
+        if (prefer !== undefined) {
+          text += `:${Array.isArray(prefer) ? prefer.join(':') : prefer}`;
+        } else if (closest !== undefined) {
+          text += `~${closest}`;
+        }
+        return text;
+      })
+      .join(',');
+  }
+}
+
+/**
+ * Checks a sort field and its value.
+ * @param item The field to check.
+ * @returns An error message, or undefined if the field is valid.
+ */
+function checkItem({ field, prefer, closest }: FormatSortItem) {
+  if (!FORMAT_SORT_FIELDS.includes(field)) {
+    return `Unknown sort field "${field}"`;
+  }
+  if (prefer !== undefined && closest !== undefined) {
+    return 'Only one of prefer and closest can be provided';
+  }
+  if (prefer === undefined && closest === undefined) {
+    return undefined;
+  }
+  if (BOOLEAN_FIELDS.includes(field)) {
+    return `Sort field "${field}" does not take a value`;
+  }
+
+  if (ORDERED_FIELDS.includes(field)) {
+    if (closest !== undefined) {
+      return `Sort field "${field}" cannot use "~"`;
+    }
+    const values = Array.isArray(prefer) ? prefer : String(prefer).split(':');
+    if (values.length > (PAIRED_FIELDS.includes(field) ? 2 : 1)) {
+      return `Too many values for sort field "${field}"`;
+    }
+    const bad = values.find((value) => !NAME.test(value));
+    return bad === undefined ? undefined : `Invalid value "${bad}" for sort field "${field}"`;
+  }
+
+  const value = String(prefer ?? closest);
+  if (TEXT_FIELDS.includes(field)) {
+    if (closest !== undefined) {
+      return `Sort field "${field}" cannot use "~"`;
+    }
+    return !Array.isArray(prefer) && NAME.test(value)
+      ? undefined
+      : `Invalid value "${value}" for sort field "${field}"`;
+  }
+  if (Array.isArray(prefer) || !(SIZE_FIELDS.includes(field) ? SIZE : NUMBER).test(value)) {
+    return `Sort field "${field}" needs a number, not "${value}"`;
+  }
+  return undefined;
+}
@@ -0,0 +1,111 @@
+import { getOptionArity, resolveOptionName } from './commandParser.js';
+import { type HelpCoverageIssue, type HelpOption, REPEATABLE_OPTIONS } from './types.js';
+
+const SECTION = /^ {2}(\S.*):$/;
+const OPTION = /^ {4}(-\S.*?)(?: {2,}(\S.*))?$/;
+const CONTINUATION = /^ {5,}(\S.*)$/;
+const SPEC = /^(?:(-[^-\s]), )?(--[\w-]+)(?: (.+))?$/;
+const ALIASES = /\(Alias: ([^)]+)\)/;
+const REPEATABLE = /(?:can be used|use this option) multiple times/i;
+
+/**
+ * Joins the wrapped lines of a description. Python's textwrap breaks lines after hyphens,
+ * so a line ending in a hyphenated word continues without a space.
+ * @param lines The lines.
+ * @returns The description.
+ */
+function joinLines(lines: string[]) {
+  return lines.reduce(
+    (text, line) => (!text ? line : /\w-$/.test(text) ? text + line : `${text} ${line}`),
+    ''
+  );
+}
+
+/**
+ * Parses the output of "yt-dlp --help" into the documented options. Lines that document no
+ * long option, such as the preset aliases, are skipped.
+ * @param text The help output.
+ * @returns The options, in the order they are documented.
+ */
+export function parseHelp(text: string) {
+  const options: HelpOption[] = [];
+  let section = '';
+  let current: { spec: RegExpExecArray; lines: string[] } | undefined;
+  let skipping = false;
+
+  const flush = () => {
+    if (current) {
+      const [, short, name, metavar] = current.spec;
+      const description = joinLines(current.lines);
+      options.push({
+        name,
+        ...(short && { short }),
+        ...(metavar && { metavar }),
+        section,
+        description,
+        aliases: ALIASES.exec(description)?.[1].split(/,\s*/) ?? [],
+        repeatable: REPEATABLE.test(description)
+      });
+    }
+    current = undefined;
+    skipping = false;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = SECTION.exec(line);
+    const option = OPTION.exec(line);
+    const continuation = CONTINUATION.exec(line);
+    if (heading) {
+      flush();
+      section = heading[1];
+    } else if (option) {
+      flush();
+      const spec = SPEC.exec(option[1]);
+      if (spec) {
+        current = { spec, lines: option[2] ? [option[2]] : [] };
+      } else {
+        skipping = true;
+      }
+    } else if (continuation && (current || skipping)) {
+      current?.lines.push(continuation[1]);
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  return options;
+}
+
+/**
+ * Checks documented options against the builder: every option needs a method that takes as
+ * many values as the help shows, its short option and aliases must be parsed, and options
+ * documented as repeatable must be repeatable.
+ * @param options The options, from parseHelp().
+ * @returns The issues, in the order the options are documented.
+ */
+export function findHelpCoverageIssues(options: HelpOption[]) {
+  const issues: HelpCoverageIssue[] = [];
+  for (const { name, short, metavar, aliases, repeatable } of options) {
+    if (resolveOptionName(name) !== name) {
+      issues.push({ option: name, message: `${name} has no builder method` });
+      continue;
+    }
+    for (const alias of short ? [short, ...aliases] : aliases) {
+      if (resolveOptionName(alias) !== name) {
+        issues.push({ option: alias, message: `${alias} is not parsed as ${name}` });
+      }
+    }
+    const arity = metavar ? metavar.split(' ').length : 0;
+    if (getOptionArity(name) !== arity) {
+      issues.push({
+        option: name,
+        message: `${name} takes ${getOptionArity(name)} value(s), but the help shows ${arity}`
+      });
+    }
+    if (repeatable && !(REPEATABLE_OPTIONS as readonly string[]).includes(name)) {
+      issues.push({ option: name, message: `${name} can be used multiple times` });
+    }
+  }
+  return issues;
+}
@@ -1,2 +1,25 @@
 export * from './ytdlpCommandBuilder.js';
 export * from './types.js';
+export * from './shellQuote.js';
+export * from './commandParser.js';
+export * from './progress.js';
+export * from './ytdlpProcess.js';
+export * from './infoJson.js';
+export * from './errors.js';
+export * from './formatSelector.js';
+export * from './formatSort.js';
+export * from './matchFilter.js';
+export * from './outputTemplate.js';
+export * from './outputTemplateRenderer.js';
+export * from './optionConflicts.js';
+export * from './optionRules.js';
+export * from './configFile.js';
+export * from './presets.js';
+export * from './downloadSections.js';
+export * from './extractorArgs.js';
+export * from './processorArgs.js';
+export * from './redaction.js';
+export * from './secrets.js';
+export * from './helpParser.js';
+export * from './optionVersions.js';
+export * from './compatOptions.js';
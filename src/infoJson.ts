@@ -0,0 +1,363 @@
+import type { InfoJson, PlaylistInfo, UrlInfo, VideoInfo } from './types.js';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'string[]';
+
+const VIDEO_FIELDS: Record<string, FieldType> = {
+  title: 'string',
+  fulltitle: 'string',
+  display_id: 'string',
+  ext: 'string',
+  url: 'string',
+  webpage_url: 'string',
+  original_url: 'string',
+  extractor: 'string',
+  extractor_key: 'string',
+  description: 'string',
+  uploader: 'string',
+  uploader_id: 'string',
+  channel: 'string',
+  channel_id: 'string',
+  timestamp: 'number',
+  upload_date: 'string',
+  release_date: 'string',
+  duration: 'number',
+  view_count: 'number',
+  like_count: 'number',
+  comment_count: 'number',
+  age_limit: 'number',
+  is_live: 'boolean',
+  was_live: 'boolean',
+  live_status: 'string',
+  availability: 'string',
+  categories: 'string[]',
+  tags: 'string[]',
+  thumbnail: 'string',
+  playlist_index: 'number',
+  n_entries: 'number',
+  format_id: 'string',
+  width: 'number',
+  height: 'number',
+  fps: 'number',
+  filename: 'string',
+  _filename: 'string',
+  epoch: 'number'
+};
+
+const PLAYLIST_FIELDS: Record<string, FieldType> = {
+  title: 'string',
+  description: 'string',
+  uploader: 'string',
+  channel: 'string',
+  webpage_url: 'string',
+  extractor: 'string',
+  extractor_key: 'string',
+  playlist_count: 'number',
+  epoch: 'number'
+};
+
+const FORMAT_FIELDS: Record<string, FieldType> = {
+  url: 'string',
+  ext: 'string',
+  format: 'string',
+  format_note: 'string',
+  protocol: 'string',
+  width: 'number',
+  height: 'number',
+  fps: 'number',
+  vcodec: 'string',
+  acodec: 'string',
+  tbr: 'number',
+  vbr: 'number',
+  abr: 'number',
+  asr: 'number',
+  audio_channels: 'number',
+  filesize: 'number',
+  filesize_approx: 'number'
+};
+
+const REQUESTED_DOWNLOAD_FIELDS: Record<string, FieldType> = {
+  ...FORMAT_FIELDS,
+  format_id: 'string',
+  filepath: 'string',
+  _filename: 'string'
+};
+
+/**
+ * Parses and validates yt-dlp's info JSON, as printed by dumpJson() or dumpSingleJson()
+ * or written to disk by writeInfoJson() (and read back by loadInfoJson()).
+ * @param json The JSON text, or an already parsed value.
+ * @returns The info dict, narrowed by its _type to a video, playlist or URL entry.
+ */
+export function parseInfoJson(json: unknown): InfoJson {
+  let value = json;
+  if (typeof json === 'string') {
+    try {
+      value = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Invalid info JSON: ${(error as Error).message}`);
+    }
+  }
+  return checkInfo(value, '');
+}
+
+/**
+ * Parses the output of dumpJson(), which prints one info dict per line (one per video
+ * for playlists).
+ * @param text The output to parse. Blank lines are ignored.
+ * @returns The info dicts, in the order they were printed.
+ */
+export function parseInfoJsonLines(text: string) {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line) => parseInfoJson(line));
+}
+
+/**
+ * Checks whether an info dict describes a single video.
+ * @param info The info dict to check.
+ * @returns True if the info dict is a VideoInfo.
+ */
+export function isVideoInfo(info: InfoJson | null): info is VideoInfo {
+  return !!info && (info._type === undefined || info._type === 'video');
+}
+
+/**
+ * Checks whether an info dict describes a playlist.
+ * @param info The info dict to check.
+ * @returns True if the info dict is a PlaylistInfo.
+ */
+export function isPlaylistInfo(info: InfoJson | null): info is PlaylistInfo {
+  return !!info && (info._type === 'playlist' || info._type === 'multi_video');
+}
+
+/**
+ * Checks whether an info dict is an entry yt-dlp has not extracted yet.
+ * @param info The info dict to check.
+ * @returns True if the info dict is a UrlInfo.
+ */
+export function isUrlInfo(info: InfoJson | null): info is UrlInfo {
+  return !!info && (info._type === 'url' || info._type === 'url_transparent');
+}
+
+/**
+ * Throws the error for a value that does not have the expected shape.
+ * @param path Where the value is in the info dict, e.g. "formats[0].height".
+ * @param expected What the value should have been.
+ */
+function fail(path: string, expected: string): never {
+  throw new Error(`Invalid info JSON: ${path || 'value'} must be ${expected}`);
+}
+
+/**
+ * Joins a key onto a path.
+ * @param path The path of the parent.
+ * @param key The key or array index.
+ * @returns The path of the child.
+ */
+function child(path: string, key: string | number) {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Checks that a value is a plain object.
+ * @param value The value to check.
+ * @param path Where the value is in the info dict.
+ * @returns The object.
+ */
+function checkObject(value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    fail(path, 'an object');
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Checks that a value is an array.
+ * @param value The value to check.
+ * @param path Where the value is in the info dict.
+ * @returns The array.
+ */
+function checkArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    fail(path, 'an array');
+  }
+  return value;
+}
+
+/**
+ * Checks the type of every known field that is present. Null is allowed, since yt-dlp
+ * writes null for fields an extractor could not determine.
+ * @param info The object whose fields to check.
+ * @param path The path of the object.
+ * @param fields The expected type of each field.
+ */
+function checkFields(
+  info: Record<string, unknown>,
+  path: string,
+  fields: Record<string, FieldType>
+) {
+  for (const [key, type] of Object.entries(fields)) {
+    const value = info[key];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (type === 'string[]') {
+      if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+        fail(child(path, key), 'an array of strings');
+      }
+    } else if (typeof value !== type) {
+      fail(child(path, key), `a ${type}`);
+    }
+  }
+}
+
+/**
+ * Checks that a required field is a string.
+ * @param info The object holding the field.
+ * @param key The field to check.
+ * @param path The path of the object.
+ */
+function checkString(info: Record<string, unknown>, key: string, path: string) {
+  if (typeof info[key] !== 'string') {
+    fail(child(path, key), 'a string');
+  }
+}
+
+/**
+ * Checks an info dict of any _type.
+ * @param value The value to check.
+ * @param path Where the value is, e.g. "entries[3]" for a playlist entry.
+ * @returns The narrowed info dict.
+ */
+function checkInfo(value: unknown, path: string): InfoJson {
+  const info = checkObject(value, path);
+  switch (info._type) {
+    case undefined:
+    case 'video':
+      return checkVideo(info, path);
+    case 'playlist':
+    case 'multi_video':
+      return checkPlaylist(info, path);
+    case 'url':
+    case 'url_transparent':
+      checkString(info, 'url', path);
+      return info as UrlInfo;
+    default:
+      return fail(
+        child(path, '_type'),
+        'one of video, playlist, multi_video, url, url_transparent'
+      );
+  }
+}
+
+/**
+ * Checks a video info dict, including its formats, downloads, thumbnails, subtitles
+ * and chapters.
+ * @param info The info dict to check.
+ * @param path The path of the info dict.
+ * @returns The narrowed info dict.
+ */
+function checkVideo(info: Record<string, unknown>, path: string) {
+  checkString(info, 'id', path);
+  checkFields(info, path, VIDEO_FIELDS);
+
+  for (const key of ['formats', 'requested_formats']) {
+    if (info[key] !== undefined) {
+      checkFormats(info[key], child(path, key));
+    }
+  }
+  if (info.requested_downloads !== undefined) {
+    checkArray(info.requested_downloads, child(path, 'requested_downloads')).forEach((item, i) => {
+      const itemPath = child(child(path, 'requested_downloads'), i);
+      const download = checkObject(item, itemPath);
+      checkFields(download, itemPath, REQUESTED_DOWNLOAD_FIELDS);
+      if (download.requested_formats !== undefined) {
+        checkFormats(download.requested_formats, child(itemPath, 'requested_formats'));
+      }
+    });
+  }
+  if (info.thumbnails !== undefined) {
+    checkThumbnails(info.thumbnails, child(path, 'thumbnails'));
+  }
+  for (const key of ['subtitles', 'automatic_captions']) {
+    if (info[key] !== undefined && info[key] !== null) {
+      checkSubtitles(info[key], child(path, key));
+    }
+  }
+  if (info.chapters !== undefined && info.chapters !== null) {
+    checkArray(info.chapters, child(path, 'chapters')).forEach((item, i) => {
+      const itemPath = child(child(path, 'chapters'), i);
+      const chapter = checkObject(item, itemPath);
+      for (const key of ['start_time', 'end_time']) {
+        if (typeof chapter[key] !== 'number') {
+          fail(child(itemPath, key), 'a number');
+        }
+      }
+    });
+  }
+  return info as VideoInfo;
+}
+
+/**
+ * Checks a playlist info dict and, recursively, its entries.
+ * @param info The info dict to check.
+ * @param path The path of the info dict.
+ * @returns The narrowed info dict.
+ */
+function checkPlaylist(info: Record<string, unknown>, path: string) {
+  checkString(info, 'id', path);
+  checkFields(info, path, PLAYLIST_FIELDS);
+  if (info.entries !== undefined) {
+    checkArray(info.entries, child(path, 'entries')).forEach((entry, i) => {
+      if (entry !== null) {
+        checkInfo(entry, child(child(path, 'entries'), i));
+      }
+    });
+  }
+  if (info.thumbnails !== undefined) {
+    checkThumbnails(info.thumbnails, child(path, 'thumbnails'));
+  }
+  return info as PlaylistInfo;
+}
+
+/**
+ * Checks a list of formats.
+ * @param value The value to check.
+ * @param path Where the list is in the info dict.
+ */
+function checkFormats(value: unknown, path: string) {
+  checkArray(value, path).forEach((item, i) => {
+    const format = checkObject(item, child(path, i));
+    checkString(format, 'format_id', child(path, i));
+    checkFields(format, child(path, i), FORMAT_FIELDS);
+  });
+}
+
+/**
+ * Checks a list of thumbnails.
+ * @param value The value to check.
+ * @param path Where the list is in the info dict.
+ */
+function checkThumbnails(value: unknown, path: string) {
+  checkArray(value, path).forEach((item, i) => {
+    checkString(checkObject(item, child(path, i)), 'url', child(path, i));
+  });
+}
+
+/**
+ * Checks subtitles or automatic captions, which are keyed by language.
+ * @param value The value to check.
+ * @param path Where the subtitles are in the info dict.
+ */
+function checkSubtitles(value: unknown, path: string) {
+  for (const [language, tracks] of Object.entries(checkObject(value, path))) {
+    checkArray(tracks, child(path, language)).forEach((item, i) => {
+      const itemPath = child(child(path, language), i);
+      checkFields(checkObject(item, itemPath), itemPath, { ext: 'string', url: 'string' });
+    });
+  }
+}
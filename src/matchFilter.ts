@@ -0,0 +1,363 @@
+import { YtdlpSyntaxError } from './errors.js';
+import type {
+  FormatFilterOptions,
+  MatchFilterCondition,
+  NegatedNumericOperator,
+  NumericMatchField,
+  NumericOperator,
+  StringMatchField,
+  StringOperator
+} from './types.js';
+
+// Longest first, so "<=" is not read as "<".
+const OPERATORS = ['<=', '<', '>=', '>', '=', '*=', '^=', '$=', '~='];
+const NUMERIC_ONLY = ['<', '<=', '>', '>='];
+const NUMBER = /^\d+(?:\.\d+)?(?:[kmgtpezy]i?b?)?$/i;
+const FIELD = /^[a-z_]+$/;
+
+/**
+ * An immutable yt-dlp match filter: conditions that must all hold ("&"). Pass several to
+ * matchFilters() to download a video when any of them matches.
+ *
+ * @example
+ * MatchFilter.missing('is_live')
+ *   .where('like_count', '>', 100, { allowUnknown: true })
+ *   .where('description', '~=', '(?i)cats & dogs')
+ *   .toString(); // "!is_live & like_count>?100 & description~=(?i)cats \& dogs"
+ */
+export class MatchFilter {
+  private readonly conditions: MatchFilterCondition[];
+
+  private constructor(conditions: MatchFilterCondition[]) {
+    this.conditions = conditions;
+  }
+
+  /**
+   * Starts a filter with a comparison, e.g. where('duration', '>', 60) for "duration>60".
+   * @param field The output template field to compare.
+   * @param operator The comparison operator.
+   * @param value The value to compare against.
+   * @param options Also match when the field is unknown ("?").
+   * @returns A new MatchFilter.
+   */
+  static where(
+    field: NumericMatchField,
+    operator: NumericOperator | NegatedNumericOperator,
+    value: number | string,
+    options?: FormatFilterOptions
+  ): MatchFilter;
+  static where(
+    field: StringMatchField,
+    operator: StringOperator,
+    value: string,
+    options?: FormatFilterOptions
+  ): MatchFilter;
+  static where(
+    field: string,
+    operator: NumericOperator | NegatedNumericOperator | StringOperator,
+    value: number | string,
+    options?: FormatFilterOptions
+  ): MatchFilter;
+  static where(
+    field: string,
+    operator: NumericOperator | NegatedNumericOperator | StringOperator,
+    value: number | string,
+    options?: FormatFilterOptions
+  ) {
+    return new MatchFilter([]).where(field, operator, value, options);
+  }
+
+  /**
+   * Starts a filter that matches when a field is present, or true ("field").
+   * @param field The output template field.
+   * @returns A new MatchFilter.
+   */
+  static has(field: NumericMatchField | StringMatchField | string) {
+    return new MatchFilter([]).has(field);
+  }
+
+  /**
+   * Starts a filter that matches when a field is missing, or false ("!field").
+   * @param field The output template field.
+   * @returns A new MatchFilter.
+   */
+  static missing(field: NumericMatchField | StringMatchField | string) {
+    return new MatchFilter([]).missing(field);
+  }
+
+  /**
+   * Parses and validates a --match-filters string.
+   * @param input The filter, e.g. "duration > 60 & like_count > 100".
+   * @returns A new MatchFilter.
+   * @throws YtdlpSyntaxError pointing at the first invalid token.
+   */
+  static parse(input: string) {
+    const conditions: MatchFilterCondition[] = [];
+    let start = 0;
+    for (let i = 0; i <= input.length; i++) {
+      if (i === input.length || (input[i] === '&' && input[i - 1] !== '\\')) {
+        conditions.push(parseCondition(input, start, i));
+        start = i + 1;
+      }
+    }
+    return new MatchFilter(conditions);
+  }
+
+  /**
+   * Adds a comparison that must also hold.
+   * @param field The output template field to compare.
+   * @param operator The comparison operator.
+   * @param value The value to compare against.
+   * @param options Also match when the field is unknown ("?").
+   * @returns A new MatchFilter.
+   */
+  where(
+    field: NumericMatchField,
+    operator: NumericOperator | NegatedNumericOperator,
+    value: number | string,
+    options?: FormatFilterOptions
+  ): MatchFilter;
+  where(
+    field: StringMatchField,
+    operator: StringOperator,
+    value: string,
+    options?: FormatFilterOptions
+  ): MatchFilter;
+  where(
+    field: string,
+    operator: NumericOperator | NegatedNumericOperator | StringOperator,
+    value: number | string,
+    options?: FormatFilterOptions
+  ): MatchFilter;
+  where(
+    field: string,
+    operator: NumericOperator | NegatedNumericOperator | StringOperator,
+    value: number | string,
+    options?: FormatFilterOptions
+  ) {
+    const condition: MatchFilterCondition = { field, operator, value };
+    if (options?.allowUnknown) {
+      condition.allowUnknown = true;
+    }
+    const error = checkField(field) ?? checkComparison(operator, value);
+    if (error) {
+      throw new Error(error);
+    }
+    return new MatchFilter([...this.conditions, condition]);
+  }
+
+  /**
+   * Adds a condition that a field is present, or true ("field").
+   * @param field The output template field.
+   * @returns A new MatchFilter.
+   */
+  has(field: NumericMatchField | StringMatchField | string) {
+    return this.presence(field, true);
+  }
+
+  /**
+   * Adds a condition that a field is missing, or false ("!field").
+   * @param field The output template field.
+   * @returns A new MatchFilter.
+   */
+  missing(field: NumericMatchField | StringMatchField | string) {
+    return this.presence(field, false);
+  }
+
+  /**
+   * Gets the conditions of the filter.
+   * @returns A copy of the conditions, in order.
+   */
+  getConditions() {
+    return this.conditions.map((condition) => ({ ...condition }));
+  }
+
+  /**
+   * Serializes the filter to --match-filters syntax.
+   * @returns The filter string.
+   */
+  toString() {
+    return this.conditions
+      .map((condition) => {
+        if ('present' in condition) {
+          return `${condition.present ? '' : '!'}${condition.field}`;
+        }
+        const { field, operator, value, allowUnknown } = condition;
+        return `${field}${operator}${allowUnknown ? '?' : ''}${serializeValue(value)}`;
+      })
+      .join(' & ');
+  }
+
+  /**
+   * Adds a presence condition.
+   * @param field The output template field.
+   * @param present Whether the field must be present.
+   * @returns A new MatchFilter.
+   */
+  private presence(field: string, present: boolean) {
+    const error = checkField(field);
+    if (error) {
+      throw new Error(error);
+    }
+    return new MatchFilter([...this.conditions, { field, present }]);
+  }
+}
+
+/**
+ * Checks a field name. yt-dlp only accepts lowercase letters and underscores.
+ * @param field The field to check.
+ * @returns An error message, or undefined if the field is valid.
+ */
+function checkField(field: string) {
+  if (!field) {
+    return 'Filter field must be provided';
+  }
+  return FIELD.test(field) ? undefined : `Invalid filter field "${field}"`;
+}
+
+/**
+ * Checks that a value can be compared with an operator.
+ * @param operator The comparison operator.
+ * @param value The value to compare against.
+ * @returns An error message, or undefined if the comparison is valid.
+ */
+function checkComparison(operator: string, value: string | number) {
+  const negated = operator.startsWith('!');
+  const op = negated ? operator.slice(1) : operator;
+  if (!OPERATORS.includes(op)) {
+    return `Unknown filter operator "${operator}"`;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value < 0) {
+      return 'Filter value must be a non-negative number';
+    }
+    if (!['=', '<', '<=', '>', '>='].includes(op)) {
+      return `Operator "${operator}" compares strings, not numbers`;
+    }
+  } else if (NUMERIC_ONLY.includes(op) && !NUMBER.test(value)) {
+    return `Operator "${operator}" needs a number, not "${value}"`;
+  }
+  return undefined;
+}
+
+/**
+ * Serializes a value. Strings are quoted when yt-dlp would otherwise trim them or read
+ * them as plain numbers, and "&" is always escaped since it separates conditions.
+ * @param value The value to serialize.
+ * @returns The serialized value.
+ */
+function serializeValue(value: string | number) {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  const escaped = value.replace(/&/g, '\\&');
+  if (value && value.trim() === value && !/^['"]/.test(value) && !/^\d+(?:\.\d+)?$/.test(value)) {
+    return escaped;
+  }
+  return `'${escaped.replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Parses one condition of a filter.
+ * @param input The whole filter string.
+ * @param start Where the condition starts.
+ * @param end Where the condition ends (at the "&" or the end of the input).
+ * @returns The condition.
+ */
+function parseCondition(input: string, start: number, end: number): MatchFilterCondition {
+  let position = start;
+  const skipSpaces = () => {
+    while (position < end && /\s/.test(input[position])) {
+      position++;
+    }
+  };
+  const fail: (message: string) => never = (message) => {
+    throw new YtdlpSyntaxError(message, input, position);
+  };
+
+  skipSpaces();
+  if (position === end) {
+    fail('Empty filter condition');
+  }
+
+  const unary = input[position] === '!';
+  if (unary) {
+    position++;
+    skipSpaces();
+  }
+  const fieldStart = position;
+  while (position < end && /\w/.test(input[position])) {
+    position++;
+  }
+  const field = input.slice(fieldStart, position);
+  if (!field) {
+    fail(`Expected a field name, found "${input[position]}"`);
+  }
+  if (!FIELD.test(field)) {
+    position = fieldStart;
+    fail(`Invalid filter field "${field}"`);
+  }
+  skipSpaces();
+  if (position === end) {
+    return { field, present: !unary };
+  }
+  if (unary) {
+    fail(`Unexpected "${input[position]}" after "!${field}"`);
+  }
+
+  const operatorStart = position;
+  let negation = '';
+  if (input[position] === '!') {
+    negation = '!';
+    position++;
+    skipSpaces();
+  }
+  const op = OPERATORS.find((candidate) => input.startsWith(candidate, position));
+  if (!op) {
+    const token = /^[^\s\w'"]+/.exec(input.slice(position, end))?.[0] ?? input[position];
+    return fail(`Unknown filter operator "${negation}${token}"`);
+  }
+  position += op.length;
+  skipSpaces();
+  let allowUnknown = false;
+  if (input[position] === '?') {
+    allowUnknown = true;
+    position++;
+    skipSpaces();
+  }
+
+  const valueStart = position;
+  const raw = input.slice(valueStart, end).trimEnd().replace(/\\&/g, '&');
+  if (!raw) {
+    fail('Expected a value');
+  }
+  const stray = /^[<>=!~*^$]+/.exec(raw);
+  if (stray) {
+    position = operatorStart;
+    fail(`Unknown filter operator "${negation}${op}${stray[0]}"`);
+  }
+  let value: string | number = raw;
+  const quote = raw[0];
+  if (quote === '"' || quote === "'") {
+    if (raw.length < 3 || raw[raw.length - 1] !== quote) {
+      fail('Unterminated string');
+    }
+    value = raw.slice(1, -1).replace(new RegExp(`\\\\${quote}`, 'g'), quote);
+  } else if (/^\d+(?:\.\d+)?$/.test(raw)) {
+    value = Number(raw);
+  } else if (NUMERIC_ONLY.includes(op)) {
+    if (!NUMBER.test(raw)) {
+      fail(`Operator "${op}" needs a number, not "${raw}"`);
+    }
+  }
+
+  const condition: MatchFilterCondition = {
+    field,
+    operator: `${negation}${op}` as NumericOperator | NegatedNumericOperator | StringOperator,
+    value
+  };
+  if (allowUnknown) {
+    condition.allowUnknown = true;
+  }
+  return condition;
+}
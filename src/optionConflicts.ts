@@ -0,0 +1,105 @@
+import { findOptions } from './commandParser.js';
+import type { OptionConflictIssue } from './types.js';
+
+/**
+ * Options that cancel each other out: yt-dlp lets the last one win, so using more than one
+ * option of a group is almost always a mistake.
+ */
+export const OPTION_CONFLICTS: readonly (readonly string[])[] = [
+  // Positive and negative flags.
+  ['--update', '--no-update'],
+  ['--update-to', '--no-update'],
+  ['--config-locations', '--no-config-locations'],
+  ['--plugin-dirs', '--no-plugin-dirs'],
+  ['--js-runtimes', '--no-js-runtimes'],
+  ['--remote-components', '--no-remote-components'],
+  ['--flat-playlist', '--no-flat-playlist'],
+  ['--live-from-start', '--no-live-from-start'],
+  ['--wait-for-video', '--no-wait-for-video'],
+  ['--mark-watched', '--no-mark-watched'],
+  ['--match-filters', '--no-match-filters'],
+  ['--break-match-filters', '--no-break-match-filters'],
+  ['--download-archive', '--no-download-archive'],
+  ['--break-on-existing', '--no-break-on-existing'],
+  ['--break-per-input', '--no-break-per-input'],
+  ['--keep-fragments', '--no-keep-fragments'],
+  ['--resize-buffer', '--no-resize-buffer'],
+  ['--lazy-playlist', '--no-lazy-playlist'],
+  ['--hls-use-mpegts', '--no-hls-use-mpegts'],
+  ['--batch-file', '--no-batch-file'],
+  ['--restrict-filenames', '--no-restrict-filenames'],
+  ['--windows-filenames', '--no-windows-filenames'],
+  ['--continue', '--no-continue'],
+  ['--part', '--no-part'],
+  ['--mtime', '--no-mtime'],
+  ['--write-description', '--no-write-description'],
+  ['--write-info-json', '--no-write-info-json'],
+  ['--write-playlist-metafiles', '--no-write-playlist-metafiles'],
+  ['--clean-info-json', '--no-clean-info-json'],
+  ['--write-comments', '--no-write-comments'],
+  ['--cookies', '--no-cookies'],
+  ['--cookies-from-browser', '--no-cookies-from-browser'],
+  ['--cache-dir', '--no-cache-dir'],
+  ['--write-thumbnail', '--no-write-thumbnail'],
+  ['--quiet', '--no-quiet'],
+  ['--simulate', '--no-simulate'],
+  ['--ignore-no-formats-error', '--no-ignore-no-formats-error'],
+  ['--progress', '--no-progress'],
+  ['--format-sort-force', '--no-format-sort-force'],
+  ['--video-multistreams', '--no-video-multistreams'],
+  ['--audio-multistreams', '--no-audio-multistreams'],
+  ['--prefer-free-formats', '--no-prefer-free-formats'],
+  ['--write-subs', '--no-write-subs'],
+  ['--write-auto-subs', '--no-write-auto-subs'],
+  ['--keep-video', '--no-keep-video'],
+  ['--post-overwrites', '--no-post-overwrites'],
+  ['--embed-subs', '--no-embed-subs'],
+  ['--embed-thumbnail', '--no-embed-thumbnail'],
+  ['--embed-metadata', '--no-embed-metadata'],
+  ['--embed-chapters', '--no-embed-chapters'],
+  ['--embed-info-json', '--no-embed-info-json'],
+  ['--exec', '--no-exec'],
+  ['--split-chapters', '--no-split-chapters'],
+  ['--remove-chapters', '--no-remove-chapters'],
+  ['--force-keyframes-at-cuts', '--no-force-keyframes-at-cuts'],
+  ['--hls-split-discontinuity', '--no-hls-split-discontinuity'],
+  ['--sponsorblock-mark', '--no-sponsorblock'],
+  ['--sponsorblock-remove', '--no-sponsorblock'],
+  // Options that set the same thing to different values.
+  ['--ignore-errors', '--abort-on-error', '--no-abort-on-error'],
+  ['--no-overwrites', '--force-overwrites', '--no-force-overwrites'],
+  ['--check-formats', '--check-all-formats', '--no-check-formats'],
+  ['--skip-unavailable-fragments', '--abort-on-unavailable-fragments'],
+  ['--allow-dynamic-mpd', '--ignore-dynamic-mpd'],
+  ['--yes-playlist', '--no-playlist'],
+  ['--force-ipv4', '--force-ipv6'],
+  ['--quiet', '--verbose']
+];
+
+/**
+ * Describes a conflict.
+ * @param option The option that was added last.
+ * @param others The options it conflicts with.
+ * @returns The message.
+ */
+export function conflictMessage(option: string, others: string[]) {
+  return `${option} conflicts with ${others.join(', ')}`;
+}
+
+/**
+ * Finds every conflict in an argument list.
+ * @param args The arguments, without the program.
+ * @returns One issue per conflicting group, with the options in the order they were added.
+ */
+export function findConflicts(args: string[]) {
+  const used = [...new Set(findOptions(args).map(({ option }) => option))];
+  const issues: OptionConflictIssue[] = [];
+  for (const group of OPTION_CONFLICTS) {
+    const options = used.filter((option) => group.includes(option));
+    if (options.length > 1) {
+      const last = options[options.length - 1];
+      issues.push({ options, message: conflictMessage(last, options.slice(0, -1)) });
+    }
+  }
+  return issues;
+}
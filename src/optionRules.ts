@@ -0,0 +1,124 @@
+import { findOptions } from './commandParser.js';
+import { findConflicts } from './optionConflicts.js';
+import type { OptionDiagnostic, OptionRule } from './types.js';
+
+/**
+ * Options that depend on, or do not mix with, other options.
+ */
+export const OPTION_RULES: readonly OptionRule[] = [
+  {
+    option: '--audio-format',
+    requires: ['--extract-audio'],
+    severity: 'warning',
+    message: '--audio-format has no effect without --extract-audio'
+  },
+  {
+    option: '--audio-quality',
+    requires: ['--extract-audio'],
+    severity: 'warning',
+    message: '--audio-quality has no effect without --extract-audio'
+  },
+  // --embed-subs writes the subtitles it embeds, so it counts as writing them.
+  {
+    option: '--sub-langs',
+    requires: ['--write-subs', '--write-auto-subs', '--embed-subs'],
+    severity: 'warning',
+    message: '--sub-langs has no effect without --write-subs, --write-auto-subs or --embed-subs'
+  },
+  {
+    option: '--sub-format',
+    requires: ['--write-subs', '--write-auto-subs', '--embed-subs'],
+    severity: 'warning',
+    message: '--sub-format has no effect without --write-subs, --write-auto-subs or --embed-subs'
+  },
+  {
+    option: '--convert-subs',
+    requires: ['--write-subs', '--write-auto-subs', '--embed-subs'],
+    ignoreValues: ['none'],
+    severity: 'warning',
+    message: '--convert-subs has no effect without --write-subs, --write-auto-subs or --embed-subs'
+  },
+  {
+    option: '--embed-subs',
+    requires: ['--write-subs', '--write-auto-subs'],
+    severity: 'info',
+    message:
+      '--embed-subs without --write-subs or --write-auto-subs embeds only manual subtitles and deletes them afterwards'
+  },
+  {
+    option: '--client-certificate-key',
+    requires: ['--client-certificate'],
+    severity: 'error',
+    message: '--client-certificate-key requires --client-certificate'
+  },
+  {
+    option: '--client-certificate-password',
+    requires: ['--client-certificate'],
+    severity: 'error',
+    message: '--client-certificate-password requires --client-certificate'
+  },
+  {
+    option: '--ap-username',
+    requires: ['--ap-mso'],
+    severity: 'warning',
+    message: '--ap-username has no effect without --ap-mso'
+  },
+  {
+    option: '--ap-password',
+    requires: ['--ap-username'],
+    severity: 'warning',
+    message: '--ap-password has no effect without --ap-username'
+  },
+  {
+    option: '--max-sleep-interval',
+    requires: ['--sleep-interval'],
+    severity: 'error',
+    message: '--max-sleep-interval requires --sleep-interval'
+  },
+  {
+    option: '--print-to-file',
+    excludes: ['--quiet'],
+    severity: 'info',
+    message: '--print-to-file writes to a file, --quiet does not affect it'
+  }
+];
+
+/**
+ * Checks an argument list against the conflict table and the option rules.
+ * @param args The arguments, without the program.
+ * @returns Conflicts as warnings, followed by the rule diagnostics in table order.
+ */
+export function lintOptions(args: string[]) {
+  const spans = findOptions(args);
+  const diagnostics: OptionDiagnostic[] = findConflicts(args).map(({ options, message }) => ({
+    severity: 'warning',
+    options,
+    message
+  }));
+  const used = new Set(spans.map(({ option }) => option));
+
+  for (const rule of OPTION_RULES) {
+    const applies = spans.some(
+      ({ option, index }) => option === rule.option && !rule.ignoreValues?.includes(args[index + 1])
+    );
+    if (!applies) {
+      continue;
+    }
+    if (rule.requires && !rule.requires.some((option) => used.has(option))) {
+      diagnostics.push({
+        severity: rule.severity,
+        options: [rule.option, ...rule.requires],
+        message: rule.message
+      });
+    }
+    const excluded = rule.excludes?.filter((option) => used.has(option)) ?? [];
+    if (excluded.length > 0) {
+      diagnostics.push({
+        severity: rule.severity,
+        options: [rule.option, ...excluded],
+        message: rule.message
+      });
+    }
+  }
+  return diagnostics;
+}
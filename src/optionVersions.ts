@@ -0,0 +1,138 @@
+import { parseHelp } from './helpParser.js';
+import type { HelpDump, OptionVersionRange } from './types.js';
+
+const VERSION = /^\d{4}\.\d{1,2}\.\d{1,2}(?:\.\d+)?$/;
+
+/**
+ * The yt-dlp versions options were added or removed in. It only covers the impersonation,
+ * plugin directory, preset alias, JS runtime and remote component options, plus
+ * --download-sections and --netrc-cmd. Options that are not listed, such as --progress-delta
+ * or --alias, are assumed to be available in every version. Extend it with
+ * setOptionVersions(), e.g. from deriveOptionVersions() and real --help dumps.
+ */
+const optionVersions: Record<string, OptionVersionRange> = {
+  '--download-sections': { since: '2022.06.22' },
+  '--netrc-cmd': { since: '2023.07.06' },
+  '--impersonate': { since: '2024.03.10' },
+  '--list-impersonate-targets': { since: '2024.03.10' },
+  '--plugin-dirs': { since: '2025.02.19' },
+  '--no-plugin-dirs': { since: '2025.02.19' },
+  '--preset-alias': { since: '2025.04.30' },
+  '--js-runtimes': { since: '2025.11.12' },
+  '--no-js-runtimes': { since: '2025.11.12' },
+  '--remote-components': { since: '2025.11.12' },
+  '--no-remote-components': { since: '2025.11.12' }
+};
+
+/**
+ * Checks that a version looks like a yt-dlp version, e.g. "2025.10.22" or a nightly
+ * "2025.10.22.232800".
+ * @param version The version.
+ */
+export function checkVersion(version: string) {
+  if (typeof version !== 'string' || !VERSION.test(version)) {
+    throw new Error(`Invalid yt-dlp version "${version}", expected YYYY.MM.DD`);
+  }
+}
+
+/**
+ * Compares two yt-dlp versions.
+ * @param a A version.
+ * @param b Another version.
+ * @returns A negative number if a is older, a positive number if a is newer, or 0.
+ */
+export function compareVersions(a: string, b: string) {
+  checkVersion(a);
+  checkVersion(b);
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Gets the versions an option is available in.
+ * @param option The long option, e.g. "--js-runtimes".
+ * @returns The versions, or undefined if the option is available in every version.
+ */
+export function getOptionVersions(option: string): OptionVersionRange | undefined {
+  const range = optionVersions[option];
+  return range && { ...range };
+}
+
+/**
+ * Lists the options the version table covers.
+ * @returns The long options, in table order.
+ */
+export function getVersionedOptions() {
+  return Object.keys(optionVersions);
+}
+
+/**
+ * Adds or replaces the versions of options. Pass undefined to forget an option.
+ * @param versions The versions, by long option.
+ */
+export function setOptionVersions(versions: Record<string, OptionVersionRange | undefined>) {
+  for (const [option, range] of Object.entries(versions)) {
+    if (range === undefined) {
+      delete optionVersions[option];
+      continue;
+    }
+    if (range.since !== undefined) {
+      checkVersion(range.since);
+    }
+    if (range.removedIn !== undefined) {
+      checkVersion(range.removedIn);
+    }
+    optionVersions[option] = { ...range };
+  }
+}
+
+/**
+ * Checks whether a yt-dlp version supports an option.
+ * @param option The long option.
+ * @param version The yt-dlp version.
+ * @returns Why the option is not supported, or undefined if it is.
+ */
+export function findUnsupportedOption(option: string, version: string) {
+  const { since, removedIn } = optionVersions[option] ?? {};
+  if (since && compareVersions(version, since) < 0) {
+    return `${option} is not supported by yt-dlp ${version} (added in ${since})`;
+  }
+  if (removedIn && compareVersions(version, removedIn) >= 0) {
+    return `${option} is not supported by yt-dlp ${version} (removed in ${removedIn})`;
+  }
+  return undefined;
+}
+
+/**
+ * Works out when options were added and removed from the --help output of successive
+ * yt-dlp versions. Options in the oldest dump get no "since", and options in the newest
+ * dump get no "removedIn".
+ * @param dumps The --help output of each version, in any order.
+ * @returns The versions of every option that was added or removed, for setOptionVersions().
+ */
+export function deriveOptionVersions(dumps: HelpDump[]) {
+  const sorted = [...dumps].sort((a, b) => compareVersions(a.version, b.version));
+  const documented = sorted.map(({ help }) => new Set(parseHelp(help).map(({ name }) => name)));
+  const options = [...new Set(documented.flatMap((names) => [...names]))];
+  const versions: Record<string, OptionVersionRange> = {};
+  for (const option of options) {
+    const first = documented.findIndex((names) => names.has(option));
+    const last =
+      documented.length - 1 - [...documented].reverse().findIndex((names) => names.has(option));
+    const range: OptionVersionRange = {
+      ...(first > 0 && { since: sorted[first].version }),
+      ...(last < sorted.length - 1 && { removedIn: sorted[last + 1].version })
+    };
+    if (range.since || range.removedIn) {
+      versions[option] = range;
+    }
+  }
+  return versions;
+}
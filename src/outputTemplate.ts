@@ -0,0 +1,419 @@
+import { YtdlpSyntaxError } from './errors.js';
+import {
+  OUTPUT_TEMPLATE_CONVERSIONS,
+  type OutputTemplateConversion,
+  type OutputTemplateField,
+  type OutputTemplateFieldOptions,
+  type OutputTemplateKey,
+  type OutputTemplateMath,
+  type OutputTemplatePart,
+  type OutputTemplatePlaceholder
+} from './types.js';
+
+// One step of a traversal path: a slice ("3:7", ":"), a key or a (negative) index.
+const SEGMENT = String.raw`(?:-?\d*:-?\d*(?::-?\d*)?|\w+|-?\d+)`;
+const SEGMENT_PATH = String.raw`${SEGMENT}(?:\.${SEGMENT})*`;
+const PATH = String.raw`\w*(?:\.(?:${SEGMENT}|\{${SEGMENT_PATH}(?:,${SEGMENT_PATH})*\}))*`;
+const FIELD_PATH = new RegExp(`^${PATH}$`);
+const FIELD_PATH_AT = new RegExp(PATH, 'y');
+const NUMBER_AT = /-?\d+(?:\.\d+)?(?![\w.])/y;
+const FORMAT_SPEC_AT = /([#0\-+ ]*)(\d*)(?:\.(\d+))?/y;
+const FLAGS = /^[#0\-+ ]*$/;
+
+/**
+ * An immutable yt-dlp output template, see "OUTPUT TEMPLATE" in the yt-dlp README. Build
+ * one from text and typed fields, or parse an existing string, and pass it to output(),
+ * print() or printToFile().
+ *
+ * @example
+ * OutputTemplate.field('uploader', { default: 'Unknown' })
+ *   .text(' - ')
+ *   .field('upload_date', { dateFormat: '%Y-%m-%d' })
+ *   .text('.')
+ *   .field('ext')
+ *   .toString(); // "%(uploader|Unknown)s - %(upload_date>%Y-%m-%d)s.%(ext)s"
+ */
+export class OutputTemplate {
+  private readonly parts: OutputTemplatePart[];
+
+  private constructor(parts: OutputTemplatePart[]) {
+    this.parts = parts;
+  }
+
+  /**
+   * Starts a template with literal text.
+   * @param text The text; "%" is escaped.
+   * @returns A new OutputTemplate.
+   */
+  static text(text: string) {
+    return new OutputTemplate([]).text(text);
+  }
+
+  /**
+   * Starts a template with a field.
+   * @param name The field, optionally followed by a traversal path (e.g., "tags.0").
+   * @param options Conversion, default, replacement, date format, arithmetic and alternatives.
+   * @returns A new OutputTemplate.
+   */
+  static field(
+    name: OutputTemplateField | `${OutputTemplateField}.${string}`,
+    options?: OutputTemplateFieldOptions
+  ) {
+    return new OutputTemplate([]).field(name, options);
+  }
+
+  /**
+   * Parses and validates an output template.
+   * @param input The template, e.g. "%(title)s [%(id)s].%(ext)s".
+   * @returns A new OutputTemplate.
+   * @throws YtdlpSyntaxError pointing at the first malformed placeholder.
+   */
+  static parse(input: string) {
+    const parts: OutputTemplatePart[] = [];
+    let text = '';
+    let position = 0;
+    while (position < input.length) {
+      const next = input.indexOf('%', position);
+      if (next === -1) {
+        text += input.slice(position);
+        break;
+      }
+      text += input.slice(position, next);
+      // yt-dlp keeps a "%" that does not start a placeholder as it is.
+      if (input[next + 1] !== '(') {
+        text += '%';
+        position = next + (input[next + 1] === '%' ? 2 : 1);
+        continue;
+      }
+      if (text) {
+        parts.push({ type: 'text', text });
+        text = '';
+      }
+      const [placeholder, end] = parsePlaceholder(input, next);
+      parts.push({ type: 'field', ...placeholder });
+      position = end;
+    }
+    if (text) {
+      parts.push({ type: 'text', text });
+    }
+    return new OutputTemplate(parts);
+  }
+
+  /**
+   * Adds literal text.
+   * @param text The text; "%" is escaped.
+   * @returns A new OutputTemplate.
+   */
+  text(text: string) {
+    if (!text) {
+      return this;
+    }
+    const last = this.parts[this.parts.length - 1];
+    if (last?.type === 'text') {
+      return new OutputTemplate([
+        ...this.parts.slice(0, -1),
+        { type: 'text', text: last.text + text }
+      ]);
+    }
+    return new OutputTemplate([...this.parts, { type: 'text', text }]);
+  }
+
+  /**
+   * Adds a field.
+   * @param name The field, optionally followed by a traversal path (e.g., "tags.0").
+   * @param options Conversion, default, replacement, date format, arithmetic and alternatives.
+   * @returns A new OutputTemplate.
+   */
+  field(
+    name: OutputTemplateField | `${OutputTemplateField}.${string}`,
+    options: OutputTemplateFieldOptions = {}
+  ) {
+    const { alternatives, conversion = 's', ...rest } = options;
+    const placeholder: OutputTemplatePlaceholder = { field: name, ...rest, conversion };
+    if (alternatives) {
+      placeholder.alternatives = alternatives.map((key) =>
+        typeof key === 'string' ? { field: key } : { ...key }
+      );
+    }
+    const error = checkPlaceholder(placeholder);
+    if (error) {
+      throw new Error(error);
+    }
+    return new OutputTemplate([...this.parts, { type: 'field', ...placeholder }]);
+  }
+
+  /**
+   * Gets the parts of the template.
+   * @returns A copy of the text and field parts, in order.
+   */
+  getParts(): OutputTemplatePart[] {
+    return this.parts.map((part) => {
+      if (part.type === 'text') {
+        return { ...part };
+      }
+      const copy = { ...part, ...cloneKey(part) };
+      if (part.alternatives) {
+        copy.alternatives = part.alternatives.map(cloneKey);
+      }
+      return copy;
+    });
+  }
+
+  /**
+   * Gets the fields used by the template, including alternatives.
+   * @returns The field paths, in order of first use.
+   */
+  getFields() {
+    const fields = this.parts.flatMap((part) =>
+      part.type === 'text' ? [] : [part, ...(part.alternatives ?? [])].map((key) => key.field)
+    );
+    return [...new Set(fields)];
+  }
+
+  /**
+   * Serializes the template to yt-dlp syntax.
+   * @returns The template string.
+   */
+  toString() {
+    return this.parts
+      .map((part) => {
+        if (part.type === 'text') {
+          return part.text.replace(/%/g, '%%');
+        }
+        const alternatives = (part.alternatives ?? []).map((key) => `,${serializeKey(key)}`);
+        return [
+          '%(',
+          serializeKey(part),
+          ...alternatives,
+          part.replacement === undefined ? '' : `&${part.replacement}`,
+          part.default === undefined ? '' : `|${part.default}`,
+          ')',
+          part.flags ?? '',
+          part.width ?? '',
+          part.precision === undefined ? '' : `.${part.precision}`,
+          part.conversion
+        ].join('');
+      })
+      .join('');
+  }
+}
+
+/**
+ * Copies a key so its math array is not shared.
+ * @param key The key to copy.
+ * @returns The copy.
+ */
+function cloneKey(key: OutputTemplateKey): OutputTemplateKey {
+  const copy: OutputTemplateKey = { field: key.field };
+  if (key.negate) {
+    copy.negate = true;
+  }
+  if (key.math) {
+    copy.math = key.math.map((step) => ({ ...step }));
+  }
+  if (key.dateFormat !== undefined) {
+    copy.dateFormat = key.dateFormat;
+  }
+  return copy;
+}
+
+/**
+ * Serializes the field, arithmetic and date format of a key.
+ * @param key The key to serialize.
+ * @returns The key as written inside "%(...)".
+ */
+function serializeKey({ field, negate, math, dateFormat }: OutputTemplateKey) {
+  const steps = (math ?? []).map(({ operator, operand }) => `${operator}${operand}`).join('');
+  return `${negate ? '-' : ''}${field}${steps}${dateFormat === undefined ? '' : `>${dateFormat}`}`;
+}
+
+/**
+ * Checks a key built in code.
+ * @param key The key to check.
+ * @returns An error message, or undefined if the key is valid.
+ */
+function checkKey({ field, math, dateFormat }: OutputTemplateKey) {
+  if (!FIELD_PATH.test(field)) {
+    return `Invalid output template field "${field}"`;
+  }
+  for (const { operator, operand } of math ?? []) {
+    if (!['+', '-', '*'].includes(operator)) {
+      return `Unknown output template operator "${operator}"`;
+    }
+    const valid =
+      typeof operand === 'number'
+        ? Number.isFinite(operand)
+        : !!operand && FIELD_PATH.test(operand);
+    if (!valid) {
+      return `Invalid operand "${operand}" for "${operator}"`;
+    }
+  }
+  if (dateFormat !== undefined && (!dateFormat || /[)&|]|(?<!\\),/.test(dateFormat))) {
+    return `Invalid date format "${dateFormat}"`;
+  }
+  return undefined;
+}
+
+/**
+ * Checks a placeholder built in code. Text that yt-dlp would read as the end of the
+ * placeholder or of a section ("," ")" "&" "|") is rejected rather than escaped.
+ * @param placeholder The placeholder to check.
+ * @returns An error message, or undefined if the placeholder is valid.
+ */
+function checkPlaceholder(placeholder: OutputTemplatePlaceholder) {
+  const { alternatives, replacement, flags, width, precision, conversion } = placeholder;
+  if (!placeholder.field) {
+    return 'Output template field must be provided';
+  }
+  for (const key of [placeholder, ...(alternatives ?? [])]) {
+    const error = key.field ? checkKey(key) : 'Alternative field must be provided';
+    if (error) {
+      return error;
+    }
+  }
+  if (replacement !== undefined && /[)|]/.test(replacement)) {
+    return `Replacement "${replacement}" cannot contain ")" or "|"`;
+  }
+  if (placeholder.default?.includes(')')) {
+    return `Default "${placeholder.default}" cannot contain ")"`;
+  }
+  if (flags !== undefined && !FLAGS.test(flags)) {
+    return `Invalid conversion flags "${flags}"`;
+  }
+  for (const [name, value] of [
+    ['Width', width],
+    ['Precision', precision]
+  ] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      return `${name} must be a non-negative integer`;
+    }
+  }
+  if (!OUTPUT_TEMPLATE_CONVERSIONS.includes(conversion)) {
+    return `Unknown conversion type "${conversion}"`;
+  }
+  return undefined;
+}
+
+/**
+ * Parses one "%(...)" placeholder.
+ * @param input The whole template.
+ * @param start The position of the "%".
+ * @returns The placeholder and the position just after it.
+ */
+function parsePlaceholder(input: string, start: number): [OutputTemplatePlaceholder, number] {
+  const close = input.indexOf(')', start + 2);
+  if (close === -1) {
+    throw new YtdlpSyntaxError('Unclosed "(" in output template', input, start + 1);
+  }
+  let position = start + 2;
+  const fail: (message: string) => never = (message) => {
+    throw new YtdlpSyntaxError(message, input, position);
+  };
+
+  const readPath = () => {
+    FIELD_PATH_AT.lastIndex = position;
+    const path = FIELD_PATH_AT.exec(input)?.[0] ?? '';
+    position += path.length;
+    return path;
+  };
+
+  const readKey = () => {
+    const key: OutputTemplateKey = { field: '' };
+    if (input[position] === '-') {
+      key.negate = true;
+      position++;
+    }
+    key.field = readPath();
+    while (position < close && '+-*'.includes(input[position])) {
+      const operator = input[position] as OutputTemplateMath['operator'];
+      position++;
+      NUMBER_AT.lastIndex = position;
+      const number = NUMBER_AT.exec(input)?.[0];
+      let operand: number | string;
+      if (number) {
+        operand = Number(number);
+        position += number.length;
+      } else {
+        operand = readPath();
+        if (!operand) {
+          fail(`Expected a field or number after "${operator}"`);
+        }
+      }
+      key.math = [...(key.math ?? []), { operator, operand }];
+    }
+    if (input[position] === '>') {
+      position++;
+      const formatStart = position;
+      while (
+        position < close &&
+        !'&|'.includes(input[position]) &&
+        !(input[position] === ',' && input[position - 1] !== '\\')
+      ) {
+        position++;
+      }
+      if (position === formatStart) {
+        fail('Expected a date format after ">"');
+      }
+      key.dateFormat = input.slice(formatStart, position);
+    }
+    return key;
+  };
+
+  const placeholder: OutputTemplatePlaceholder = { ...readKey(), conversion: 's' };
+  while (input[position] === ',') {
+    position++;
+    const alternative = readKey();
+    if (!alternative.field) {
+      fail(`Expected a field, found "${input[position]}"`);
+    }
+    placeholder.alternatives = [...(placeholder.alternatives ?? []), alternative];
+  }
+  if (input[position] === '&') {
+    const bar = input.indexOf('|', position);
+    const end = bar === -1 || bar > close ? close : bar;
+    placeholder.replacement = input.slice(position + 1, end);
+    position = end;
+  }
+  if (input[position] === '|') {
+    placeholder.default = input.slice(position + 1, close);
+    position = close;
+  }
+  if (position !== close) {
+    fail(`Unexpected "${input[position]}" in output template field`);
+  }
+
+  position = close + 1;
+  FORMAT_SPEC_AT.lastIndex = position;
+  const [spec, flags, width, precision] = FORMAT_SPEC_AT.exec(input) ?? [''];
+  position += spec.length;
+  // Python's length modifiers are accepted and ignored, as in "%(id)ld".
+  if ('hlL'.includes(input[position]) && isConversion(input[position + 1])) {
+    position++;
+  }
+  if (position >= input.length) {
+    fail('Missing conversion type');
+  }
+  if (!isConversion(input[position])) {
+    fail(`Unknown conversion type "${input[position]}"`);
+  }
+  if (flags) {
+    placeholder.flags = flags;
+  }
+  if (width) {
+    placeholder.width = Number(width);
+  }
+  if (precision) {
+    placeholder.precision = Number(precision);
+  }
+  placeholder.conversion = input[position] as OutputTemplateConversion;
+  return [placeholder, position + 1];
+}
+
+/**
+ * Checks whether a character is a conversion type.
+ * @param char The character.
+ * @returns True if yt-dlp accepts it as a conversion type.
+ */
+function isConversion(char: string | undefined): char is OutputTemplateConversion {
+  return !!char && OUTPUT_TEMPLATE_CONVERSIONS.includes(char as OutputTemplateConversion);
+}
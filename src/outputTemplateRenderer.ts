@@ -0,0 +1,1075 @@
+import path from 'path';
+import { OutputTemplate } from './outputTemplate.js';
+import type {
+  FilenamePreviewOptions,
+  InfoJson,
+  OutputTemplateKey,
+  OutputTemplatePlaceholder,
+  OutputTemplateRenderOptions,
+  PathType
+} from './types.js';
+
+type Info = InfoJson | Record<string, unknown>;
+type FormatSpec = Pick<OutputTemplatePlaceholder, 'flags' | 'width' | 'precision' | 'conversion'>;
+
+/** The templates yt-dlp uses when output() is not called for a type. */
+export const DEFAULT_OUTPUT_TEMPLATES = {
+  default: '%(title)s [%(id)s].%(ext)s',
+  chapter: '%(title)s - %(section_number)03d %(section_title)s [%(id)s].%(ext)s'
+} as const;
+
+// Extensions yt-dlp forces on the filename for some kinds of file.
+const FORCED_EXTENSIONS: Partial<Record<PathType, string>> = {
+  description: 'description',
+  annotation: 'annotations.xml',
+  infojson: 'info.json',
+  pl_description: 'description',
+  pl_infojson: 'info.json'
+};
+
+const ACCENTS = 'ÂÃÄÀÁÅÆÇÈÉÊËÌÍÎÏÐÑÒÓÔÕÖŐØŒÙÚÛÜŰÝÞßàáâãäåæçèéêëìíîïðñòóôõöőøœùúûüűýþÿ';
+const ACCENT_REPLACEMENTS = [
+  ...'AAAAAA',
+  'AE',
+  ...'CEEEEIIIIDNOOOOOOO',
+  'OE',
+  ...'UUUUUY',
+  'TH',
+  'ss',
+  ...'aaaaaa',
+  'ae',
+  ...'ceeeeiiiionooooooo',
+  'oe',
+  ...'uuuuuy',
+  'th',
+  'y'
+];
+const ACCENT_CHARS = new Map([...ACCENTS].map((char, i) => [char, ACCENT_REPLACEMENTS[i]]));
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December'
+];
+
+/**
+ * A number that Python holds as a float, such as the result of arithmetic, so it prints
+ * as "11.0" rather than "11".
+ */
+class PyFloat {
+  constructor(readonly value: number) {}
+}
+
+/**
+ * Evaluates an output template against an info dict the way yt-dlp does, without running
+ * it. Leave sanitize off to preview --print output.
+ * @param template The template string or OutputTemplate.
+ * @param info The info dict, e.g. from dumpJson() output.
+ * @param options The NA placeholder, filename sanitization and autonumber.
+ * @returns The rendered text.
+ * @throws YtdlpSyntaxError if a template string has a malformed placeholder.
+ */
+export function renderOutputTemplate(
+  template: string | OutputTemplate,
+  info: Info,
+  options: OutputTemplateRenderOptions = {}
+) {
+  const parsed = typeof template === 'string' ? OutputTemplate.parse(template) : template;
+  const prepared = prepareInfo(info, options);
+  return parsed
+    .getParts()
+    .map((part) => (part.type === 'text' ? part.text : renderField(part, prepared, options)))
+    .join('');
+}
+
+/**
+ * Previews the path yt-dlp would write a file to: renders the template with sanitized
+ * fields, then applies the forced extension, trimFilenames(), paths() and
+ * windowsFilenames() in the same order as yt-dlp.
+ * @param template The template string or OutputTemplate, or undefined for yt-dlp's default.
+ * @param info The info dict, e.g. from dumpJson() output.
+ * @param options The options set on the command and the kind of file.
+ * @returns The file path.
+ * @throws YtdlpSyntaxError if a template string has a malformed placeholder.
+ */
+export function previewFilename(
+  template: string | OutputTemplate | undefined,
+  info: Info,
+  options: FilenamePreviewOptions = {}
+) {
+  const {
+    type,
+    paths = {},
+    windowsFilenames,
+    trimFilenames,
+    platform = process.platform,
+    ...renderOptions
+  } = options;
+  const source =
+    template ??
+    (type === 'chapter' ? DEFAULT_OUTPUT_TEMPLATES.chapter : DEFAULT_OUTPUT_TEMPLATES.default);
+  let filename = renderOutputTemplate(source, info, { ...renderOptions, sanitize: true });
+
+  const forced = type && FORCED_EXTENSIONS[type];
+  if (forced) {
+    const ext = path.posix.extname(filename);
+    const expected = typeof info.ext === 'string' ? info.ext : undefined;
+    const name =
+      !expected || ext.slice(1) === expected
+        ? filename.slice(0, -ext.length || undefined)
+        : filename;
+    filename = `${name}.${forced}`;
+  }
+  if (trimFilenames) {
+    // Like Python's rsplit('.', 2): up to two extensions are kept, e.g. "en.vtt".
+    const parts = filename.split('.');
+    const ext = parts.length > 1 ? parts.splice(-Math.min(parts.length - 1, 2)) : [];
+    filename = [[...parts.join('.')].slice(0, trimFilenames).join(''), ...ext]
+      .filter(Boolean)
+      .join('.');
+  }
+
+  const home = paths.home?.trim() ?? '';
+  const directory = type ? (paths[type]?.trim() ?? '') : '';
+  return sanitizePath(joinPath(platform, home, directory, filename), !!windowsFilenames, platform);
+}
+
+/**
+ * Adds the fields yt-dlp computes just before rendering a template.
+ * @param info The info dict.
+ * @param options The render options.
+ * @returns A copy of the info dict with the computed fields.
+ */
+function prepareInfo(info: Info, options: OutputTemplateRenderOptions) {
+  const prepared: Record<string, unknown> = { ...info };
+  const duration = toFloat(info.duration);
+  prepared.duration_string =
+    duration === undefined ? undefined : formatSeconds(duration, options.sanitize ? '-' : ':');
+  prepared.autonumber = options.autonumber ?? 1;
+  prepared.video_autonumber = options.autonumber ?? 1;
+  if (prepared.resolution === undefined || prepared.resolution === null) {
+    prepared.resolution = formatResolution(info);
+  }
+  return prepared;
+}
+
+/**
+ * Formats a duration as yt-dlp's duration_string does, e.g. "1:02:03" or "3:32".
+ * @param seconds The duration in seconds.
+ * @param delimiter The delimiter between the parts.
+ * @returns The formatted duration.
+ */
+function formatSeconds(seconds: number, delimiter: string) {
+  const total = Math.trunc(seconds);
+  const hours = Math.trunc(total / 3600);
+  const minutes = Math.trunc((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  if (hours) {
+    return `${hours}${delimiter}${pad(minutes)}${delimiter}${pad(secs)}`;
+  }
+  return minutes ? `${minutes}${delimiter}${pad(secs)}` : String(secs);
+}
+
+/**
+ * Describes the resolution of a video, as yt-dlp does when the resolution field is missing.
+ * @param info The info dict.
+ * @returns The resolution (e.g., "1920x1080", "720p", "audio only"), or undefined.
+ */
+function formatResolution(info: Info) {
+  if (info.vcodec === 'none' && info.acodec !== 'none') {
+    return 'audio only';
+  }
+  const { width, height } = info;
+  if (width && height) {
+    return `${Math.trunc(Number(width))}x${Math.trunc(Number(height))}`;
+  }
+  if (height) {
+    return `${height}p`;
+  }
+  return width ? `${Math.trunc(Number(width))}x?` : undefined;
+}
+
+/**
+ * Renders one placeholder.
+ * @param part The placeholder.
+ * @param info The prepared info dict.
+ * @param options The render options.
+ * @returns The rendered text.
+ */
+function renderField(
+  part: OutputTemplatePlaceholder,
+  info: Record<string, unknown>,
+  options: OutputTemplateRenderOptions
+) {
+  const na = options.naPlaceholder ?? 'NA';
+  const sanitize = !!options.sanitize;
+  let value: unknown;
+  let lastField = '';
+  for (const key of [part, ...(part.alternatives ?? [])]) {
+    value = getValue(key, info, sanitize);
+    lastField = key.field;
+    if (!isNone(value)) {
+      break;
+    }
+  }
+
+  let defaultText: string = part.default ?? na;
+  if (!isNone(value) && part.replacement !== undefined) {
+    try {
+      value = formatReplacement(part.replacement, value);
+    } catch {
+      value = undefined;
+      defaultText = na;
+    }
+  }
+
+  const flags = part.flags ?? '';
+  let spec: FormatSpec = part;
+  const padding = fieldPadding(lastField, info);
+  if (padding && isPlainString(part) && typeof value === 'number' && Number.isInteger(value)) {
+    spec = { flags: '0', width: padding, conversion: 'd' };
+  }
+  const stringSpec: FormatSpec = { ...spec, conversion: 's' };
+  const plain: FormatSpec = { conversion: 's' };
+
+  switch (isNone(value) ? 'none' : spec.conversion) {
+    case 'none':
+      [value, spec] = [defaultText, plain];
+      break;
+    case 'l': {
+      const items = typeof value === 'string' ? [value] : iterate(value);
+      [value, spec] = [items.map(pyStr).join(flags.includes('#') ? '\n' : ', '), stringSpec];
+      break;
+    }
+    case 'j':
+      value = pyJson(value, flags.includes('#') ? 4 : undefined, !flags.includes('+'));
+      spec = stringSpec;
+      break;
+    case 'h':
+      [value, spec] = [escapeHtml(pyStr(value)), stringSpec];
+      break;
+    case 'q': {
+      const items = flags.includes('#') && typeof value !== 'string' ? iterate(value) : [value];
+      [value, spec] = [items.map((item) => shellQuote(pyStr(item))).join(' '), stringSpec];
+      break;
+    }
+    case 'B':
+      [value, spec] = [formatBytes(pyStr(value), stringSpec), plain];
+      break;
+    case 'U': {
+      const form = `NF${flags.includes('+') ? 'K' : ''}${flags.includes('#') ? 'D' : 'C'}` as const;
+      [value, spec] = [pyStr(value).normalize(form), stringSpec];
+      break;
+    }
+    case 'D':
+      [value, spec] = [formatDecimalSuffix(value, spec), plain];
+      break;
+    case 'S':
+      [value, spec] = [sanitizeFilename(pyStr(value), flags.includes('#')), stringSpec];
+      break;
+    case 'c':
+      if (value) {
+        value = [...pyStr(value)][0];
+      }
+      spec = stringSpec;
+      break;
+    case 'r':
+    case 'a':
+      [value, spec] = [pyRepr(value, spec.conversion === 'a'), stringSpec];
+      break;
+    case 's':
+      break;
+    default: {
+      const number = toFloat(value);
+      if (number === undefined) {
+        [value, spec] = [defaultText, plain];
+      } else {
+        value = number;
+      }
+    }
+  }
+
+  if (spec.conversion === 's') {
+    const text = sanitize
+      ? sanitizeFilename(pyStr(value), !!options.restrictFilenames)
+      : pyStr(value);
+    return formatString(text, spec);
+  }
+  return formatNumber(value as number, spec);
+}
+
+/**
+ * Evaluates a key: traversal, negation, arithmetic and date formatting.
+ * @param key The key.
+ * @param info The prepared info dict.
+ * @param sanitize Whether the template is for a filename.
+ * @returns The value, or undefined if it is missing.
+ */
+function getValue(key: OutputTemplateKey, info: Record<string, unknown>, sanitize: boolean) {
+  let value = traverse(info, key.field);
+  if (key.negate) {
+    const number = toFloat(value);
+    value = number === undefined ? undefined : new PyFloat(-number);
+  }
+  if (key.math) {
+    let number = toFloat(value);
+    for (const { operator, operand } of key.math) {
+      const offset = typeof operand === 'number' ? operand : toFloat(traverse(info, operand));
+      if (number === undefined || offset === undefined) {
+        return undefined;
+      }
+      number =
+        operator === '+' ? number + offset : operator === '-' ? number - offset : number * offset;
+    }
+    value = number === undefined ? undefined : new PyFloat(number);
+  }
+  if (key.dateFormat !== undefined) {
+    value = strftime(value, key.dateFormat.replace(/\\,/g, ','));
+  }
+  // yt-dlp treats empty strings as missing in filenames.
+  return sanitize && value === '' ? undefined : value;
+}
+
+/**
+ * Follows a traversal path such as "formats.:.format_id" or ".{id,title}".
+ * @param info The value to start from.
+ * @param field The path.
+ * @returns The value, a list when the path branches, or undefined if it is missing.
+ */
+function traverse(info: unknown, field: string): unknown {
+  const segments: string[] = [''];
+  let depth = 0;
+  for (const char of field) {
+    depth += char === '{' ? 1 : char === '}' ? -1 : 0;
+    if (char === '.' && !depth) {
+      segments.push('');
+    } else {
+      segments[segments.length - 1] += char;
+    }
+  }
+  if (!segments[0]) {
+    segments.shift();
+  }
+  if (segments.length && !segments[segments.length - 1]) {
+    segments.pop();
+  }
+
+  let values = [info];
+  let branching = false;
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const value of values) {
+      if (segment.startsWith('{')) {
+        const picked: Record<string, unknown> = {};
+        for (const name of segment.slice(1, -1).split(',')) {
+          const child = traverse(value, name);
+          if (!isNone(child)) {
+            picked[name] = child;
+          }
+        }
+        next.push(picked);
+      } else if (segment.includes(':')) {
+        const [start, stop, step] = segment
+          .split(':')
+          .map((part) => (part === '' ? undefined : Number(part)));
+        if (Array.isArray(value)) {
+          next.push(...pySlice(value, start, stop, step));
+          branching = true;
+        } else if (typeof value === 'string' || typeof value === 'number') {
+          next.push(pySlice([...String(value)], start, stop, step).join(''));
+        }
+      } else {
+        next.push(getChild(value, segment));
+      }
+    }
+    values = next.filter((value) => !isNone(value));
+  }
+  if (!branching) {
+    return values[0];
+  }
+  return values.length ? values : undefined;
+}
+
+/**
+ * Gets a key of an object, or an index of a list or string (negative from the end).
+ * @param value The container.
+ * @param key The key or index.
+ * @returns The child, or undefined if it is missing.
+ */
+function getChild(value: unknown, key: string) {
+  const index = /^-?\d+$/.test(key) ? Number(key) : undefined;
+  if (Array.isArray(value) || typeof value === 'string' || typeof value === 'number') {
+    const items = Array.isArray(value) ? value : [...String(value)];
+    if (index === undefined || index >= items.length || index < -items.length) {
+      return undefined;
+    }
+    return items[index < 0 ? index + items.length : index];
+  }
+  if (value && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key)) {
+    return (value as Record<string, unknown>)[key];
+  }
+  return undefined;
+}
+
+/**
+ * Slices a list with Python's semantics.
+ * @param items The list.
+ * @param start The first index.
+ * @param stop The index to stop before.
+ * @param step The step, negative to go backwards.
+ * @returns The slice.
+ */
+function pySlice<T>(items: T[], start?: number, stop?: number, step = 1) {
+  const { length } = items;
+  const clamp = (index: number | undefined, fallback: number, lower: number, upper: number) => {
+    if (index === undefined) {
+      return fallback;
+    }
+    return Math.min(Math.max(index < 0 ? index + length : index, lower), upper);
+  };
+  const result: T[] = [];
+  if (step > 0) {
+    const to = clamp(stop, length, 0, length);
+    for (let i = clamp(start, 0, 0, length); i < to; i += step) {
+      result.push(items[i]);
+    }
+  } else if (step < 0) {
+    const to = clamp(stop, -1, -1, length - 1);
+    for (let i = clamp(start, length - 1, -1, length - 1); i > to; i += step) {
+      result.push(items[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Gets the zero padding yt-dlp applies to some numeric fields rendered with plain "s".
+ * @param field The field.
+ * @param info The prepared info dict.
+ * @returns The width, or undefined for other fields.
+ */
+function fieldPadding(field: string, info: Record<string, unknown>) {
+  const digits = (value: unknown) => String(Math.trunc(toFloat(value) ?? 0)).length;
+  switch (field) {
+    case 'playlist_index':
+      return digits(info.playlist_count ?? info.n_entries);
+    case 'playlist_autonumber':
+      return digits(info.n_entries);
+    case 'autonumber':
+      return 5;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks whether a placeholder uses a bare "s", with no flags, width or precision.
+ * @param spec The format of the placeholder.
+ * @returns True for a bare "s".
+ */
+function isPlainString({ flags, width, precision, conversion }: FormatSpec) {
+  return conversion === 's' && !flags && width === undefined && precision === undefined;
+}
+
+/**
+ * Checks whether a value counts as missing (Python's None).
+ * @param value The value.
+ * @returns True for null and undefined.
+ */
+function isNone(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+/**
+ * Lists the items of a value as Python iterates it (the keys of an object).
+ * @param value The value.
+ * @returns The items.
+ */
+function iterate(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return value && typeof value === 'object' && !(value instanceof PyFloat)
+    ? Object.keys(value)
+    : [value];
+}
+
+/**
+ * Converts a value to a number as Python's float() does.
+ * @param value The value.
+ * @returns The number, or undefined if it cannot be converted.
+ */
+function toFloat(value: unknown) {
+  if (value instanceof PyFloat) {
+    return value.value;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'boolean') {
+    return Number(value);
+  }
+  if (typeof value === 'string') {
+    const text = value.trim().toLowerCase().replace(/_/g, '');
+    if (/^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/.test(text)) {
+      return Number(text);
+    }
+    if (/^[+-]?(?:inf|infinity|nan)$/.test(text)) {
+      return text.includes('nan') ? NaN : text.startsWith('-') ? -Infinity : Infinity;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Formats a float as Python's repr() does.
+ * @param value The number.
+ * @returns The text, e.g. "11.0", "0.5", "inf".
+ */
+function floatRepr(value: number) {
+  if (Number.isNaN(value)) {
+    return 'nan';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? 'inf' : '-inf';
+  }
+  if (Number.isInteger(value) && Math.abs(value) < 1e16) {
+    return `${value}.0`;
+  }
+  return String(value).replace(/e([+-])(\d)$/, 'e$10$2');
+}
+
+/**
+ * Converts a value to text as Python's str() does.
+ * @param value The value.
+ * @returns The text.
+ */
+function pyStr(value: unknown): string {
+  if (isNone(value)) {
+    return 'None';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  }
+  if (value instanceof PyFloat) {
+    return floatRepr(value.value);
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? String(value) : floatRepr(value);
+  }
+  return typeof value === 'string' ? value : pyRepr(value, false);
+}
+
+/**
+ * Converts a value to text as Python's repr() or ascii() does.
+ * @param value The value.
+ * @param ascii Escape non-ASCII characters, as ascii() does.
+ * @returns The text.
+ */
+function pyRepr(value: unknown, ascii: boolean): string {
+  if (typeof value === 'string') {
+    const quote = value.includes("'") && !value.includes('"') ? '"' : "'";
+    let text = '';
+    for (const char of value) {
+      const code = char.codePointAt(0) ?? 0;
+      const hex = (digits: number) => code.toString(16).padStart(digits, '0');
+      if (char === '\\' || char === quote) {
+        text += `\\${char}`;
+      } else if (char === '\n' || char === '\r' || char === '\t') {
+        text += char === '\n' ? '\\n' : char === '\r' ? '\\r' : '\\t';
+      } else if (code < 32 || code === 127 || (ascii && code > 127 && code <= 0xff)) {
+        text += `\\x${hex(2)}`;
+      } else if (ascii && code > 0xff) {
+        text += code > 0xffff ? `\\U${hex(8)}` : `\\u${hex(4)}`;
+      } else {
+        text += char;
+      }
+    }
+    return `${quote}${text}${quote}`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => pyRepr(item, ascii)).join(', ')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof PyFloat)) {
+    const entries = Object.entries(value).map(
+      ([key, item]) => `${pyRepr(key, ascii)}: ${pyRepr(item, ascii)}`
+    );
+    return `{${entries.join(', ')}}`;
+  }
+  return pyStr(value);
+}
+
+/**
+ * Serializes a value as Python's json.dumps() does.
+ * @param value The value.
+ * @param indent The indent, or undefined for a single line.
+ * @param ensureAscii Escape non-ASCII characters.
+ * @param depth The current nesting depth.
+ * @returns The JSON text.
+ */
+function pyJson(
+  value: unknown,
+  indent: number | undefined,
+  ensureAscii: boolean,
+  depth = 0
+): string {
+  if (isNone(value)) {
+    return 'null';
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  if (value instanceof PyFloat || typeof value === 'number') {
+    const number = toFloat(value) as number;
+    if (!Number.isFinite(number)) {
+      return Number.isNaN(number) ? 'NaN' : number > 0 ? 'Infinity' : '-Infinity';
+    }
+    return typeof value === 'number' && Number.isInteger(number)
+      ? String(number)
+      : floatRepr(number);
+  }
+  if (typeof value === 'string') {
+    const json = JSON.stringify(value);
+    return ensureAscii
+      ? json.replace(
+          /[^\x20-\x7e]/g,
+          (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+        )
+      : json;
+  }
+  const array = Array.isArray(value);
+  const items = array
+    ? value.map((item) => pyJson(item, indent, ensureAscii, depth + 1))
+    : Object.entries(value as object).map(
+        ([key, item]) =>
+          `${pyJson(key, indent, ensureAscii)}: ${pyJson(item, indent, ensureAscii, depth + 1)}`
+      );
+  const [open, close] = array ? ['[', ']'] : ['{', '}'];
+  if (!items.length) {
+    return `${open}${close}`;
+  }
+  if (indent === undefined) {
+    return `${open}${items.join(', ')}${close}`;
+  }
+  const inner = `\n${' '.repeat(indent * (depth + 1))}`;
+  return `${open}${inner}${items.join(`,${inner}`)}\n${' '.repeat(indent * depth)}${close}`;
+}
+
+/**
+ * Escapes text for HTML.
+ * @param text The text.
+ * @returns The escaped text.
+ */
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Quotes an argument as Python's shlex.quote() does.
+ * @param text The argument.
+ * @returns The quoted argument.
+ */
+function shellQuote(text: string) {
+  if (!text) {
+    return "''";
+  }
+  return /[^\w@%+=:,./-]/.test(text) ? `'${text.replace(/'/g, `'"'"'`)}'` : text;
+}
+
+/**
+ * Fills "{}" in a replacement with the value, as Python's str.format() does.
+ * @param replacement The replacement text.
+ * @param value The value.
+ * @returns The text.
+ * @throws Error if the replacement has an unmatched brace or an unsupported format spec.
+ */
+function formatReplacement(replacement: string, value: unknown) {
+  const text = replacement.replace(
+    /\{\{|\}\}|\{0?(?:!([rsa]))?(?::([^{}]*))?\}/g,
+    (match, conversion?: string, spec?: string) => {
+      if (match === '{{' || match === '}}') {
+        return match[0];
+      }
+      if (conversion === 'r' || conversion === 'a') {
+        return applyFormatSpec(pyRepr(value, conversion === 'a'), spec);
+      }
+      return applyFormatSpec(conversion ? pyStr(value) : value, spec);
+    }
+  );
+  const stray = replacement.replace(/\{\{|\}\}|\{0?(?:![rsa])?(?::[^{}]*)?\}/g, '');
+  if (/[{}]/.test(stray)) {
+    throw new Error(`Invalid replacement "${replacement}"`);
+  }
+  return text;
+}
+
+/**
+ * Applies a str.format() spec such as ">20" or "05.1f".
+ * @param value The value.
+ * @param spec The spec.
+ * @returns The formatted text.
+ */
+function applyFormatSpec(value: unknown, spec: string | undefined) {
+  const match = /^(?:(.)?([<>^=]))?([+\- ])?(#)?(0)?(\d+)?(?:\.(\d+))?([deEfFgGosxX%])?$/s.exec(
+    spec ?? ''
+  );
+  if (!match) {
+    throw new Error(`Unsupported format spec "${spec}"`);
+  }
+  const [, fill = ' ', align, sign = '', alternate = '', zero = '', width, precision, type] = match;
+  const numeric = typeof value === 'number' || value instanceof PyFloat;
+  let text: string;
+  if (type && type !== 's') {
+    const number = toFloat(value);
+    if (number === undefined) {
+      throw new Error(`Cannot format "${pyStr(value)}" as a number`);
+    }
+    const conversion = type === '%' ? 'f' : type === 'd' ? 'd' : type;
+    text = formatNumber(type === '%' ? number * 100 : number, {
+      flags: `${sign}${alternate}`,
+      precision: precision === undefined ? undefined : Number(precision),
+      conversion: conversion as FormatSpec['conversion']
+    });
+    text += type === '%' ? '%' : '';
+  } else {
+    text = pyStr(value);
+    if (precision !== undefined) {
+      text = [...text].slice(0, Number(precision)).join('');
+    }
+  }
+  const size = Number(width ?? 0) - [...text].length;
+  if (size <= 0) {
+    return text;
+  }
+  const padChar = zero && !align ? '0' : fill;
+  switch (align ?? (numeric || (type && type !== 's') ? '>' : '<')) {
+    case '<':
+      return text + padChar.repeat(size);
+    case '^':
+      return padChar.repeat(Math.floor(size / 2)) + text + padChar.repeat(Math.ceil(size / 2));
+    default:
+      return padChar.repeat(size) + text;
+  }
+}
+
+/**
+ * Formats text as Python's "%s" does, with width and precision counted in characters.
+ * @param text The text.
+ * @param spec The format.
+ * @returns The formatted text.
+ */
+function formatString(text: string, { flags = '', width, precision }: FormatSpec) {
+  let chars = [...text];
+  if (precision !== undefined) {
+    chars = chars.slice(0, precision);
+  }
+  const padding = ' '.repeat(Math.max((width ?? 0) - chars.length, 0));
+  return flags.includes('-') ? chars.join('') + padding : padding + chars.join('');
+}
+
+/**
+ * Formats text as yt-dlp's "B" conversion does, with width and precision counted in
+ * UTF-8 bytes. A character cut in half is dropped.
+ * @param text The text.
+ * @param spec The format.
+ * @returns The formatted text.
+ */
+function formatBytes(text: string, { flags = '', width, precision }: FormatSpec) {
+  const bytes = Buffer.from(text, 'utf8');
+  let end = precision === undefined ? bytes.length : Math.min(precision, bytes.length);
+  const padding = ' '.repeat(Math.max((width ?? 0) - end, 0));
+  while (end > 0 && end < bytes.length && (bytes[end] & 0xc0) === 0x80) {
+    end--;
+  }
+  const body = bytes.subarray(0, end).toString('utf8');
+  return flags.includes('-') ? body + padding : padding + body;
+}
+
+/**
+ * Formats a number with a decimal suffix as yt-dlp's "D" conversion does, e.g. "1.5M";
+ * with "#" the factor is 1024 ("1.5Mi").
+ * @param value The value.
+ * @param spec The format.
+ * @returns The formatted text, or undefined if the value is not a non-negative number.
+ */
+function formatDecimalSuffix(value: unknown, { flags = '', width, precision }: FormatSpec) {
+  const number = toFloat(value);
+  if (number === undefined || number < 0) {
+    return undefined;
+  }
+  const factor = flags.includes('#') ? 1024 : 1000;
+  const exponent = number === 0 ? 0 : Math.min(Math.trunc(Math.log(number) / Math.log(factor)), 8);
+  let suffix = ['', ...'kMGTPEZY'][Math.max(exponent, 0)];
+  if (factor === 1024) {
+    suffix = suffix === 'k' ? 'Ki' : suffix && `${suffix}i`;
+  }
+  const converted = number / factor ** exponent;
+  const numberFlags = flags.replace(/#/g, '');
+  const custom = numberFlags || width !== undefined || precision !== undefined;
+  return (
+    formatNumber(converted, {
+      flags: numberFlags,
+      width,
+      precision,
+      conversion: custom ? 'f' : 'd'
+    }) + suffix
+  );
+}
+
+/**
+ * Formats a number as Python's %-formatting does.
+ * @param value The number.
+ * @param spec The format, with a numeric conversion type.
+ * @returns The formatted number.
+ */
+function formatNumber(value: number, { flags = '', width, precision, conversion }: FormatSpec) {
+  const integer = 'diuoxX'.includes(conversion);
+  const number = integer ? Math.trunc(value) : value;
+  const negative = number < 0 || Object.is(number, -0);
+  const abs = Math.abs(number);
+  let prefix = '';
+  let body: string;
+  if (!Number.isFinite(abs)) {
+    body = Number.isNaN(abs) ? 'nan' : 'inf';
+  } else if (integer) {
+    const radix = conversion === 'o' ? 8 : 'xX'.includes(conversion) ? 16 : 10;
+    body = BigInt(abs).toString(radix);
+    if (flags.includes('#') && radix !== 10) {
+      prefix = radix === 8 ? '0o' : '0x';
+    }
+    if (precision !== undefined) {
+      body = body.padStart(precision, '0');
+    }
+  } else if ('eE'.includes(conversion)) {
+    body = exponential(abs, precision ?? 6);
+  } else if ('gG'.includes(conversion)) {
+    const significant = precision === 0 ? 1 : (precision ?? 6);
+    const exponent = abs === 0 ? 0 : Number(abs.toExponential(significant - 1).split('e')[1]);
+    body =
+      exponent >= -4 && exponent < significant
+        ? abs.toFixed(significant - 1 - exponent)
+        : exponential(abs, significant - 1);
+    if (!flags.includes('#')) {
+      body = body.replace(/(\.\d*?)0+(?=e|$)/, '$1').replace(/\.(?=e|$)/, '');
+    }
+  } else {
+    body = abs.toFixed(precision ?? 6);
+  }
+  if (flags.includes('#') && precision === 0 && 'eEfF'.includes(conversion)) {
+    body = body.replace(/^(\d+)/, '$1.');
+  }
+
+  const sign =
+    negative && (!integer || number !== 0)
+      ? '-'
+      : flags.includes('+')
+        ? '+'
+        : flags.includes(' ')
+          ? ' '
+          : '';
+  let text = `${sign}${prefix}${body}`;
+  const size = (width ?? 0) - text.length;
+  if (size > 0) {
+    if (flags.includes('-')) {
+      text += ' '.repeat(size);
+    } else if (flags.includes('0') && Number.isFinite(abs)) {
+      text = `${sign}${prefix}${'0'.repeat(size)}${body}`;
+    } else {
+      text = ' '.repeat(size) + text;
+    }
+  }
+  return 'XEFG'.includes(conversion) ? text.toUpperCase() : text;
+}
+
+/**
+ * Formats a number in exponent notation as Python does ("1.5e+06").
+ * @param value The non-negative number.
+ * @param digits The digits after the point.
+ * @returns The formatted number.
+ */
+function exponential(value: number, digits: number) {
+  return value.toExponential(digits).replace(/e([+-])(\d)$/, 'e$10$2');
+}
+
+/**
+ * Formats a timestamp or a YYYYMMDD date as yt-dlp's date formatting does.
+ * @param value A Unix timestamp, or a date string like "20240131".
+ * @param format The strftime format.
+ * @returns The formatted date, or undefined if the value is not a date.
+ */
+function strftime(value: unknown, format: string) {
+  let date: Date;
+  let aware = true;
+  if (typeof value === 'number' || value instanceof PyFloat) {
+    date = new Date((toFloat(value) as number) * 1000);
+  } else if (typeof value === 'string') {
+    const match = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+    if (!match) {
+      return undefined;
+    }
+    const [, year, month, day] = match.map(Number);
+    date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return undefined;
+    }
+    aware = false;
+  } else {
+    return undefined;
+  }
+  const year = date.getUTCFullYear();
+  if (Number.isNaN(date.getTime()) || year < 1 || year > 9999) {
+    return undefined;
+  }
+
+  const pad = (number: number, size = 2) => String(number).padStart(size, '0');
+  const hours = date.getUTCHours();
+  const startOfYear = Date.UTC(year, 0, 1);
+  const directives: Record<string, () => string> = {
+    a: () => DAYS[date.getUTCDay()].slice(0, 3),
+    A: () => DAYS[date.getUTCDay()],
+    b: () => MONTHS[date.getUTCMonth()].slice(0, 3),
+    B: () => MONTHS[date.getUTCMonth()],
+    c: () =>
+      `${directives.a()} ${directives.b()} ${String(date.getUTCDate()).padStart(2)} ${directives.X()} ${year}`,
+    d: () => pad(date.getUTCDate()),
+    e: () => String(date.getUTCDate()).padStart(2),
+    f: () => pad(date.getUTCMilliseconds() * 1000, 6),
+    H: () => pad(hours),
+    I: () => pad(hours % 12 || 12),
+    j: () => pad(Math.floor((date.getTime() - startOfYear) / 86400000) + 1, 3),
+    m: () => pad(date.getUTCMonth() + 1),
+    M: () => pad(date.getUTCMinutes()),
+    p: () => (hours < 12 ? 'AM' : 'PM'),
+    s: () => String(Math.floor(date.getTime() / 1000)),
+    S: () => pad(date.getUTCSeconds()),
+    w: () => String(date.getUTCDay()),
+    x: () => `${directives.m()}/${directives.d()}/${directives.y()}`,
+    X: () => `${directives.H()}:${directives.M()}:${directives.S()}`,
+    y: () => pad(year % 100),
+    Y: () => String(year),
+    z: () => (aware ? '+0000' : ''),
+    Z: () => (aware ? 'UTC' : ''),
+    '%': () => '%'
+  };
+  return format.replace(/%(.)/gs, (match, directive: string) =>
+    directive in directives ? directives[directive]() : match
+  );
+}
+
+/**
+ * Sanitizes a field value for use in a filename, as yt-dlp's sanitize_filename() does.
+ * Without restrict, characters that are not allowed in filenames become full-width
+ * look-alikes; with it, the result is plain ASCII without spaces.
+ * @param text The value.
+ * @param restrict Sanitize as restrictFilenames() does.
+ * @returns The sanitized value.
+ */
+function sanitizeFilename(text: string, restrict: boolean) {
+  if (text === '') {
+    return '';
+  }
+  const replace = (char: string) => {
+    const code = char.codePointAt(0) ?? 0;
+    if (restrict && ACCENT_CHARS.has(char)) {
+      return ACCENT_CHARS.get(char);
+    }
+    if (!restrict && char === '\n') {
+      return '\0 ';
+    }
+    if (!restrict && '"*:<>?|/\\'.includes(char)) {
+      return char === '/' ? '⧸' : char === '\\' ? '⧹' : String.fromCharCode(code + 0xfee0);
+    }
+    if (char === '?' || code < 32 || code === 127) {
+      return '';
+    }
+    if (char === '"') {
+      return restrict ? '' : "'";
+    }
+    if (char === ':') {
+      return restrict ? '\0_\0-' : '\0 \0-';
+    }
+    if ('\\/|*<>'.includes(char)) {
+      return '\0_';
+    }
+    if (restrict && ("!&'()[]{}$;`^,#".includes(char) || /\s/u.test(char) || code > 127)) {
+      return /[\p{C}\p{M}]/u.test(char) ? '' : '\0_';
+    }
+    return char;
+  };
+
+  const normalized = (restrict ? text.normalize('NFKC') : text).replace(/\d+(?::\d+)+/g, (time) =>
+    time.replace(/:/g, '_')
+  );
+  // Substitutes are marked with "\0" so repeated ones collapse and those at either end go.
+  const result = [...normalized]
+    .map(replace)
+    .join('')
+    .replace(/(\0.)(?:\1)+/gs, '$1')
+    .replace(/^\0.(?:\0.|[ _-])*|(?:\0.|[ _-])*\0.$/gs, '');
+  return result.replace(/\0/g, '') || '_';
+}
+
+/**
+ * Joins paths as Python's os.path.join() does: an absolute part starts over, and the
+ * parts are not normalized.
+ * @param platform The platform whose separator is used.
+ * @param parts The parts.
+ * @returns The joined path.
+ */
+function joinPath(platform: NodeJS.Platform, ...parts: string[]) {
+  const { isAbsolute, sep } = platform === 'win32' ? path.win32 : path.posix;
+  return parts.reduce((joined, part) => {
+    if (isAbsolute(part)) {
+      return part;
+    }
+    return !joined || joined.endsWith(sep) || joined.endsWith('/')
+      ? joined + part
+      : joined + sep + part;
+  }, '');
+}
+
+/**
+ * Replaces characters Windows does not allow in paths with "#", as yt-dlp does on Windows
+ * or with windowsFilenames(). Other paths are returned unchanged.
+ * @param file The path.
+ * @param force Sanitize even when the platform is not Windows.
+ * @param platform The platform whose path rules apply.
+ * @returns The sanitized path.
+ */
+function sanitizePath(file: string, force: boolean, platform: NodeJS.Platform) {
+  const windows = platform === 'win32';
+  if (!windows && !force) {
+    return file;
+  }
+  const lib = windows ? path.win32 : path.posix;
+  const drive = windows ? (/^(?:[a-z]:|[\\/]{2}[^\\/]+[\\/][^\\/]+)/i.exec(file)?.[0] ?? '') : '';
+  const parts = lib.normalize(file.slice(drive.length)).split(lib.sep);
+  if (drive) {
+    parts.shift();
+  }
+  const sanitized = parts.map((part) =>
+    part === '.' || part === '..' ? part : part.replace(/[/<>:"|\\?*]|[\s.]$/g, '#')
+  );
+  if (drive) {
+    sanitized.unshift(drive + lib.sep);
+  } else if (force && file.startsWith(lib.sep)) {
+    sanitized.unshift(lib.sep);
+  }
+  return lib.normalize(lib.join(...sanitized));
+}
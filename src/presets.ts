@@ -0,0 +1,131 @@
+import type { YtdlpCommandBuilder } from './ytdlpCommandBuilder.js';
+
+/**
+ * The parameters of every registered preset, void for presets without parameters. Add your
+ * own presets with declaration merging to type their names and parameters:
+ *
+ * declare module 'yt-dlp-command-builder' {
+ *   interface PresetParams {
+ *     'podcast-mp3': { quality: number };
+ *   }
+ * }
+ */
+export interface PresetParams {
+  mp3: void;
+  aac: void;
+  mp4: void;
+  mkv: void;
+  sleep: void;
+}
+
+export type PresetName = keyof PresetParams;
+
+/** The arguments a preset takes after its name: none, or its parameters. */
+export type PresetArgs<N extends PresetName> = PresetParams[N] extends void
+  ? []
+  : [params: PresetParams[N]];
+
+export type PresetDefinition<P = void> = {
+  /** What the preset does, shown by listPresets(). */
+  description?: string;
+  /** Applies the preset with builder calls. It may apply other presets with builder.preset(). */
+  apply: (builder: YtdlpCommandBuilder, params: P) => unknown;
+};
+
+export type PresetInfo = {
+  name: string;
+  description?: string;
+};
+
+const presets = new Map<string, PresetDefinition<unknown>>();
+const applying: string[] = [];
+
+/**
+ * Registers a named preset.
+ * @param name The preset name.
+ * @param definition What the preset does and how to apply it.
+ */
+export function registerPreset<N extends PresetName>(
+  name: N,
+  definition: PresetDefinition<PresetParams[N]>
+): void;
+export function registerPreset<P = void>(name: string, definition: PresetDefinition<P>): void;
+export function registerPreset(name: string, definition: PresetDefinition<never>) {
+  if (!name || !name.trim()) {
+    throw new Error('Preset name must be provided');
+  }
+  if (typeof definition?.apply !== 'function') {
+    throw new Error(`Preset "${name}" must have an apply function`);
+  }
+  if (presets.has(name)) {
+    throw new Error(`Preset "${name}" is already registered`);
+  }
+  presets.set(name, definition as PresetDefinition<unknown>);
+}
+
+/**
+ * Removes a registered preset, e.g. to register a different one under its name.
+ * @param name The preset name.
+ * @returns Whether the preset was registered.
+ */
+export function unregisterPreset(name: string) {
+  return presets.delete(name);
+}
+
+/**
+ * Lists the registered presets.
+ * @returns The name and description of every preset, in the order they were registered.
+ */
+export function listPresets() {
+  return [...presets].map(([name, { description }]): PresetInfo => ({ name, description }));
+}
+
+/**
+ * Applies a registered preset to a builder. Use builder.preset() instead.
+ * @param builder The builder to apply the preset to.
+ * @param name The preset name.
+ * @param params The preset parameters.
+ */
+export function applyPreset(builder: YtdlpCommandBuilder, name: string, params: unknown) {
+  const preset = presets.get(name);
+  if (!preset) {
+    throw new Error(`Unknown preset "${name}"`);
+  }
+  if (applying.includes(name)) {
+    throw new Error(`Preset "${name}" applies itself (${[...applying, name].join(' > ')})`);
+  }
+  applying.push(name);
+  try {
+    preset.apply(builder, params);
+  } finally {
+    applying.pop();
+  }
+}
+
+// yt-dlp's preset aliases (--preset-alias), expanded into builder calls.
+registerPreset('mp3', {
+  description: 'Extract the audio as MP3',
+  apply: (builder) => builder.format('ba[acodec^=mp3]/ba/b').extractAudio().audioFormat('mp3')
+});
+registerPreset('aac', {
+  description: 'Extract the audio as AAC',
+  apply: (builder) =>
+    builder.format('ba[acodec^=aac]/ba[acodec^=mp4a.40.]/ba/b').extractAudio().audioFormat('aac')
+});
+registerPreset('mp4', {
+  description: 'Merge or remux into MP4, preferring H.264 video and AAC audio',
+  apply: (builder) =>
+    builder
+      .mergeOutputFormat('mp4')
+      .remuxVideo('mp4')
+      .formatSort('vcodec:h264,lang,quality,res,fps,hdr:12,acodec:aac')
+});
+registerPreset('mkv', {
+  description: 'Merge or remux into MKV',
+  apply: (builder) => builder.mergeOutputFormat('mkv').remuxVideo('mkv')
+});
+registerPreset('sleep', {
+  description: 'Sleep between requests, downloads and subtitles to avoid rate limits',
+  apply: (builder) =>
+    builder.sleepSubtitles(5).sleepRequests(0.75).sleepInterval(10).maxSleepInterval(20)
+});
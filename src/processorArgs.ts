@@ -0,0 +1,82 @@
+import { quoteShellArg } from './shellQuote.js';
+import {
+  DOWNLOADER_NAMES,
+  type DownloaderArgs,
+  type FfmpegArgsPosition,
+  POSTPROCESSOR_EXECUTABLES,
+  POSTPROCESSOR_NAMES,
+  type PostProcessorArgs
+} from './types.js';
+
+/**
+ * Formats an ffmpeg position as the "_i"/"_o" suffix of a NAME.
+ * @param position The position.
+ * @returns The suffix.
+ */
+function formatPosition(position: FfmpegArgsPosition) {
+  if (position === 'input' || position === 'output') {
+    return `_${position[0]}`;
+  }
+  const [type, index] = Object.entries(position)[0] ?? [];
+  if ((type !== 'input' && type !== 'output') || !Number.isInteger(index) || index < 1) {
+    throw new Error(
+      'Position must be "input", "output", { input: N } or { output: N } with N >= 1'
+    );
+  }
+  return `_${type[0]}${index}`;
+}
+
+/**
+ * Joins arguments the way yt-dlp splits them, with Python's shlex.split().
+ * @param args The arguments.
+ * @returns The joined arguments.
+ */
+function joinArgs(args: string[]) {
+  if (!Array.isArray(args) || args.length === 0) {
+    throw new Error('At least one argument must be provided');
+  }
+  return args.map((arg) => quoteShellArg(arg, 'posix')).join(' ');
+}
+
+/**
+ * Formats structured postprocessor arguments as "NAME:ARGS", with NAME being "PP", "EXE"
+ * or "PP+EXE", and "_i"/"_o" appended for ffmpeg positions.
+ * @param options The postprocessor, executable, position and arguments.
+ * @returns The NAME and ARGS parts.
+ */
+export function formatPostprocessorArgs(options: PostProcessorArgs): [string, string] {
+  const { postprocessor, executable, position, args } = options;
+  if (!postprocessor && !executable) {
+    throw new Error('A postprocessor or executable must be provided');
+  }
+  if (postprocessor && !POSTPROCESSOR_NAMES.includes(postprocessor)) {
+    throw new Error(`Unknown postprocessor "${postprocessor}"`);
+  }
+  if (executable && !POSTPROCESSOR_EXECUTABLES.includes(executable)) {
+    throw new Error(`Unknown postprocessor executable "${executable}"`);
+  }
+  if (position !== undefined && executable !== 'FFmpeg' && executable !== 'FFprobe') {
+    throw new Error('Positions are only supported for the FFmpeg and FFprobe executables');
+  }
+  const name = [postprocessor, executable].filter(Boolean).join('+');
+  const suffix = position === undefined ? '' : formatPosition(position);
+  return [`${name}${suffix}`, joinArgs(args)];
+}
+
+/**
+ * Formats structured downloader arguments as "NAME:ARGS", with "_i"/"_o" appended to
+ * "ffmpeg" for positions.
+ * @param options The downloader, position and arguments.
+ * @returns The NAME and ARGS parts.
+ */
+export function formatDownloaderArgs(options: DownloaderArgs): [string, string] {
+  const { downloader, position, args } = options;
+  if (!DOWNLOADER_NAMES.includes(downloader)) {
+    throw new Error(`Unknown downloader "${downloader}"`);
+  }
+  if (position !== undefined && downloader !== 'ffmpeg') {
+    throw new Error('Positions are only supported for the ffmpeg downloader');
+  }
+  const suffix = position === undefined ? '' : formatPosition(position);
+  return [`${downloader}${suffix}`, joinArgs(args)];
+}
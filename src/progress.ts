@@ -0,0 +1,234 @@
+import type { DownloadProgress, PostprocessProgress, Progress } from './types.js';
+
+const DOWNLOAD_PREFIX = '[progress:download] ';
+const POSTPROCESS_PREFIX = '[progress:postprocess] ';
+
+const DOWNLOAD_FIELDS = [
+  'status',
+  'downloaded_bytes',
+  'total_bytes',
+  'total_bytes_estimate',
+  'speed',
+  'eta',
+  'elapsed',
+  'fragment_index',
+  'fragment_count',
+  'filename'
+];
+
+/** Progress template printing each download progress update as a line of JSON. */
+export const DOWNLOAD_PROGRESS_TEMPLATE = `${DOWNLOAD_PREFIX}%(progress.{${DOWNLOAD_FIELDS.join(',')}})j`;
+
+/** Progress template printing each post-processing progress update as a line of JSON. */
+export const POSTPROCESS_PROGRESS_TEMPLATE = `${POSTPROCESS_PREFIX}%(progress.{status,postprocessor})j`;
+
+const UNITS = ['', 'K', 'M', 'G', 'T', 'P', 'E', 'Z', 'Y'];
+
+/**
+ * Converts a size as printed by yt-dlp (e.g. "10.00MiB", "512B", "1.5GB") to bytes.
+ * @param size The size to convert.
+ * @returns The size in bytes, or undefined if it is unknown or malformed.
+ */
+function parseSize(size: string) {
+  const match = /^(\d+(?:\.\d+)?)([KMGTPEZY]?)(i?)B$/.exec(size);
+  if (!match) {
+    return undefined;
+  }
+  const base = match[3] ? 1024 : 1000;
+  return Math.round(parseFloat(match[1]) * base ** UNITS.indexOf(match[2]));
+}
+
+/**
+ * Converts a duration as printed by yt-dlp (e.g. "05", "01:05" or "1:01:05") to seconds.
+ * @param duration The duration to convert.
+ * @returns The duration in seconds, or undefined if it is unknown or malformed.
+ */
+function parseDuration(duration: string) {
+  if (!/^\d+(?::\d+){0,2}$/.test(duration)) {
+    return undefined;
+  }
+  return duration.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+}
+
+/**
+ * Parses a "[download]" progress line from yt-dlp's default (non-template) output.
+ * @param line A single line of yt-dlp output.
+ * @returns The progress, or undefined if the line is not a progress line.
+ */
+export function parseProgressLine(line: string): DownloadProgress | undefined {
+  const text = line.trim();
+  if (!text.startsWith('[download]')) {
+    return undefined;
+  }
+  const rest = text.slice('[download]'.length).trim();
+
+  const alreadyDownloaded = /^(.+) has already been downloaded$/.exec(rest);
+  if (alreadyDownloaded) {
+    return { type: 'download', status: 'finished', percent: 100, filename: alreadyDownloaded[1] };
+  }
+
+  const percent = /^(\d+(?:\.\d+)?)% of\s+(~)?\s*(\S+)/.exec(rest);
+  const unknownTotal = /^(\S+) at\s+/.exec(rest);
+  if (!percent && !unknownTotal) {
+    return undefined;
+  }
+
+  const progress: DownloadProgress = { type: 'download', status: 'downloading' };
+  if (percent) {
+    progress.percent = parseFloat(percent[1]);
+    progress.totalBytes = parseSize(percent[3]);
+    if (percent[2] && progress.totalBytes !== undefined) {
+      progress.totalBytesEstimate = true;
+    }
+    if (progress.totalBytes !== undefined) {
+      progress.downloadedBytes = Math.round((progress.totalBytes * progress.percent) / 100);
+    }
+  } else if (unknownTotal) {
+    progress.downloadedBytes = parseSize(unknownTotal[1]);
+    if (progress.downloadedBytes === undefined) {
+      return undefined;
+    }
+  }
+
+  const speed = /\bat\s+(\S+)\/s\b/.exec(rest);
+  if (speed) {
+    progress.speed = parseSize(speed[1]);
+  }
+  const eta = /\bETA\s+(\S+)/.exec(rest);
+  if (eta) {
+    progress.eta = parseDuration(eta[1]);
+  }
+  const elapsed = /\bin\s+(\d+(?::\d+){0,2})\b/.exec(rest);
+  if (elapsed) {
+    progress.status = 'finished';
+    progress.elapsed = parseDuration(elapsed[1]);
+  }
+  const fragment = /\(frag (\d+)\/(\d+)\)/.exec(rest);
+  if (fragment) {
+    progress.fragmentIndex = parseInt(fragment[1], 10);
+    progress.fragmentCount = parseInt(fragment[2], 10);
+  }
+
+  return withoutUndefined(progress);
+}
+
+/**
+ * Parses a line printed with DOWNLOAD_PROGRESS_TEMPLATE or POSTPROCESS_PROGRESS_TEMPLATE
+ * (see jsonProgress()), falling back to the default "[download]" progress output.
+ * @param line A single line of yt-dlp output.
+ * @returns The progress, or undefined if the line is not a progress line.
+ */
+export function parseProgress(line: string): Progress | undefined {
+  const text = line.trim();
+  if (text.startsWith(DOWNLOAD_PREFIX.trim())) {
+    const json = parseJsonObject(text.slice(DOWNLOAD_PREFIX.length));
+    return json && toDownloadProgress(json);
+  }
+  if (text.startsWith(POSTPROCESS_PREFIX.trim())) {
+    const json = parseJsonObject(text.slice(POSTPROCESS_PREFIX.length));
+    return json && toPostprocessProgress(json);
+  }
+  return parseProgressLine(text);
+}
+
+/**
+ * Parses every progress line in captured yt-dlp output, e.g. a saved log.
+ * @param log The output to parse. Lines may end with "\n" or "\r".
+ * @returns The progress updates, in the order they were printed.
+ */
+export function parseProgressLog(log: string) {
+  const progress: Progress[] = [];
+  for (const line of log.split(/\r\n|\r|\n/)) {
+    const parsed = parseProgress(line);
+    if (parsed) {
+      progress.push(parsed);
+    }
+  }
+  return progress;
+}
+
+/**
+ * Parses a JSON object, as printed by a progress template.
+ * @param json The JSON text.
+ * @returns The object, or undefined if the text is not a JSON object.
+ */
+function parseJsonObject(json: string): Record<string, unknown> | undefined {
+  try {
+    const value: unknown = JSON.parse(json);
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Converts yt-dlp's download progress fields to a DownloadProgress.
+ * @param json The fields printed by DOWNLOAD_PROGRESS_TEMPLATE.
+ * @returns The progress, or undefined if the status is missing or unknown.
+ */
+function toDownloadProgress(json: Record<string, unknown>): DownloadProgress | undefined {
+  const status = json.status;
+  if (status !== 'downloading' && status !== 'finished' && status !== 'error') {
+    return undefined;
+  }
+
+  const number = (key: string) => {
+    const value = json[key];
+    return typeof value === 'number' ? value : undefined;
+  };
+  const total = number('total_bytes') ?? number('total_bytes_estimate');
+  const downloaded = number('downloaded_bytes');
+  const progress: DownloadProgress = {
+    type: 'download',
+    status,
+    downloadedBytes: downloaded,
+    totalBytes: total,
+    totalBytesEstimate:
+      number('total_bytes') === undefined && total !== undefined ? true : undefined,
+    speed: number('speed'),
+    eta: number('eta'),
+    elapsed: number('elapsed'),
+    fragmentIndex: number('fragment_index'),
+    fragmentCount: number('fragment_count'),
+    filename: typeof json.filename === 'string' ? json.filename : undefined
+  };
+  if (downloaded !== undefined && total) {
+    progress.percent = Math.min(100, (downloaded / total) * 100);
+  } else if (status === 'finished') {
+    progress.percent = 100;
+  }
+  return withoutUndefined(progress);
+}
+
+/**
+ * Converts yt-dlp's post-processing progress fields to a PostprocessProgress.
+ * @param json The fields printed by POSTPROCESS_PROGRESS_TEMPLATE.
+ * @returns The progress, or undefined if the status is missing or unknown.
+ */
+function toPostprocessProgress(json: Record<string, unknown>): PostprocessProgress | undefined {
+  const status = json.status;
+  if (status !== 'started' && status !== 'processing' && status !== 'finished') {
+    return undefined;
+  }
+  return withoutUndefined<PostprocessProgress>({
+    type: 'postprocess',
+    status,
+    postprocessor: typeof json.postprocessor === 'string' ? json.postprocessor : undefined
+  });
+}
+
+/**
+ * Removes the keys of an object whose value is undefined.
+ * @param value The object to clean up, which is modified in place.
+ * @returns The same object.
+ */
+function withoutUndefined<T extends object>(value: T) {
+  for (const key of Object.keys(value) as (keyof T)[]) {
+    if (value[key] === undefined) {
+      delete value[key];
+    }
+  }
+  return value;
+}
@@ -0,0 +1,146 @@
+import type { SensitiveOptions } from './types.js';
+
+/** What secret values are replaced with. */
+export const REDACTED = '***';
+
+/** Options whose value is a secret, short aliases included for passthrough arguments. */
+export const SECRET_OPTIONS: readonly string[] = [
+  '--password',
+  '-p',
+  '--twofactor',
+  '-2',
+  '--video-password',
+  '--ap-password',
+  '--client-certificate-password'
+];
+
+/** Options whose value is a URL that may hold credentials. */
+const URL_OPTIONS: readonly string[] = ['--proxy', '--geo-verification-proxy'];
+
+/** Headers that are always redacted, on top of the ones marked sensitive. */
+export const SENSITIVE_HEADERS: readonly string[] = [
+  'Authorization',
+  'Proxy-Authorization',
+  'Cookie'
+];
+
+const URL_CREDENTIALS = /^([a-z][a-z\d+.-]*:\/\/)([^/?#@]*)@/i;
+
+/**
+ * Redacts the credentials of a URL: the password, or the whole user info if it has none,
+ * which is usually a token.
+ * @param url The URL.
+ * @returns The URL with its credentials redacted.
+ */
+export function redactUrl(url: string) {
+  return url.replace(URL_CREDENTIALS, (_match, scheme: string, userInfo: string) => {
+    const colon = userInfo.indexOf(':');
+    return `${scheme}${colon === -1 ? REDACTED : `${userInfo.slice(0, colon)}:${REDACTED}`}@`;
+  });
+}
+
+/**
+ * Redacts a "FIELD:VALUE" header if the field is sensitive.
+ * @param header The header.
+ * @param sensitive The headers marked sensitive.
+ * @returns The header, with its value redacted if needed.
+ */
+function redactHeader(header: string, sensitive: string[]) {
+  const colon = header.indexOf(':');
+  const field = header.slice(0, colon).trim().toLowerCase();
+  const isSensitive = [...SENSITIVE_HEADERS, ...sensitive].some(
+    (name) => name.toLowerCase() === field
+  );
+  return colon !== -1 && isSensitive ? `${header.slice(0, colon)}:${REDACTED}` : header;
+}
+
+/**
+ * Redacts the sensitive arguments of an "IE_KEY:ARGS" value.
+ * @param value The extractor arguments.
+ * @param sensitive The arguments marked sensitive, as "IE_KEY:KEY" or "KEY" for any extractor.
+ * @returns The value, with sensitive arguments redacted.
+ */
+function redactExtractorArgs(value: string, sensitive: string[]) {
+  const colon = value.indexOf(':');
+  if (colon === -1 || sensitive.length === 0) {
+    return value;
+  }
+  const ieKey = value.slice(0, colon).toLowerCase();
+  const names = sensitive.map((name) => name.toLowerCase());
+  const args = value
+    .slice(colon + 1)
+    .split(';')
+    .map((arg) => {
+      const equals = arg.indexOf('=');
+      const key = arg.slice(0, equals).trim().toLowerCase();
+      return equals !== -1 && (names.includes(key) || names.includes(`${ieKey}:${key}`))
+        ? `${arg.slice(0, equals)}=${REDACTED}`
+        : arg;
+    });
+  return `${value.slice(0, colon)}:${args.join(';')}`;
+}
+
+/**
+ * Redacts one value of an option.
+ * @param option The option.
+ * @param value The value.
+ * @param sensitive The headers and extractor arguments marked sensitive.
+ * @returns The value, redacted if it holds a secret.
+ */
+function redactValue(option: string, value: string, sensitive: Required<SensitiveOptions>) {
+  if (SECRET_OPTIONS.includes(option)) {
+    return REDACTED;
+  }
+  if (URL_OPTIONS.includes(option)) {
+    return redactUrl(value);
+  }
+  if (option === '--add-headers') {
+    return redactHeader(value, sensitive.headers);
+  }
+  if (option === '--extractor-args') {
+    return redactExtractorArgs(value, sensitive.extractorArgs);
+  }
+  return value;
+}
+
+/**
+ * Redacts the secrets of an option and its values, going by what the option means rather
+ * than what the values look like. "--option=value" arguments are redacted too.
+ * @param option The option.
+ * @param values The values.
+ * @param sensitive The headers and extractor arguments marked sensitive.
+ * @returns The option and its values, redacted.
+ */
+export function redactOption(
+  option: string,
+  values: string[],
+  sensitive: Required<SensitiveOptions>
+) {
+  const equals = option.startsWith('--') ? option.indexOf('=') : -1;
+  const redacted =
+    equals === -1
+      ? option
+      : `${option.slice(0, equals)}=${redactValue(option.slice(0, equals), option.slice(equals + 1), sensitive)}`;
+  return [redacted, ...values.map((value) => redactValue(option, value, sensitive))];
+}
+
+/**
+ * Redacts the secrets of arguments that were not added option by option, e.g. passthrough
+ * arguments: the argument after an option is taken as its value, as yt-dlp does.
+ * "-pVALUE" and "--option=value" arguments are redacted too.
+ * @param args The arguments.
+ * @param sensitive The headers and extractor arguments marked sensitive.
+ * @returns The arguments, redacted.
+ */
+export function redactArgs(args: string[], sensitive: Required<SensitiveOptions>) {
+  return args.map((arg, i) => {
+    const previous = args[i - 1];
+    if (previous?.startsWith('-') && !previous.includes('=')) {
+      return redactValue(previous, arg, sensitive);
+    }
+    const short = SECRET_OPTIONS.find(
+      (option) => !option.startsWith('--') && arg.startsWith(option) && arg !== option
+    );
+    return short ? `${short}${REDACTED}` : redactOption(arg, [], sensitive)[0];
+  });
+}
@@ -0,0 +1,92 @@
+import { readFileSync } from 'fs';
+import { REDACTED } from './redaction.js';
+import type { SecretProvider } from './types.js';
+
+/** What the builder holds in place of a secret until it is read. */
+export const SECRET_PLACEHOLDER = REDACTED;
+
+/**
+ * Checks whether a value is a secret provider rather than a literal value.
+ * @param value The value.
+ * @returns Whether the value is a valid secret provider.
+ */
+export function isSecretProvider(value: unknown): value is SecretProvider {
+  if (typeof value === 'function') {
+    return true;
+  }
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const { env, file } = value as { env?: unknown; file?: unknown };
+  return (
+    (typeof env === 'string' && !!env.trim() && file === undefined) ||
+    (typeof file === 'string' && !!file.trim() && env === undefined)
+  );
+}
+
+/**
+ * Checks a secret that was read.
+ * @param secret The secret.
+ * @param option The option it is for, for error messages.
+ * @returns The secret.
+ */
+function checkSecret(secret: unknown, option: string) {
+  if (typeof secret !== 'string' || !secret) {
+    throw new Error(`The secret for ${option} is empty`);
+  }
+  return secret;
+}
+
+/**
+ * Reads a secret from an environment variable or a file, or calls its callback.
+ * @param provider The secret provider.
+ * @param option The option it is for, for error messages.
+ * @returns The secret, or a promise for it from an async callback.
+ */
+function readSecret(provider: SecretProvider, option: string): string | Promise<string> {
+  if (typeof provider === 'function') {
+    return provider();
+  }
+  if ('env' in provider) {
+    const secret = process.env[provider.env];
+    if (secret === undefined) {
+      throw new Error(`Environment variable ${provider.env} is not set (for ${option})`);
+    }
+    return secret;
+  }
+  let content: string;
+  try {
+    content = readFileSync(provider.file, 'utf-8');
+  } catch (error) {
+    throw new Error(`Cannot read ${option} from "${provider.file}": ${(error as Error).message}`);
+  }
+  return content.replace(/\r?\n$/, '');
+}
+
+/**
+ * Reads a secret synchronously.
+ * @param provider The secret provider.
+ * @param option The option it is for, for error messages.
+ * @returns The secret.
+ */
+export function resolveSecret(provider: SecretProvider, option: string) {
+  const secret = readSecret(provider, option);
+  if (typeof secret === 'object' && typeof secret?.then === 'function') {
+    // The callback has already run; don't report its rejection as unhandled.
+    secret.then(undefined, () => undefined);
+    throw new Error(
+      `The secret for ${option} is read asynchronously; use buildArgvAsync() or run() instead`
+    );
+  }
+  return checkSecret(secret, option);
+}
+
+/**
+ * Reads a secret, waiting for async callbacks.
+ * @param provider The secret provider.
+ * @param option The option it is for, for error messages.
+ * @returns A promise for the secret.
+ */
+export async function resolveSecretAsync(provider: SecretProvider, option: string) {
+  return checkSecret(await readSecret(provider, option), option);
+}
@@ -0,0 +1,511 @@
+import type { ShellDialect } from './types.js';
+
+const POSIX_SAFE = /^[A-Za-z0-9_@%+=:,./-]+$/;
+const POWERSHELL_SAFE = /^[A-Za-z0-9_+=:./\\-]+$/;
+const CMD_SAFE = /^[A-Za-z0-9_@+=:,./\\-]+$/;
+
+const CONTROL_CHARS = /[\x01-\x1f\x7f]/;
+const CMD_META_CHARS = /[()%!^"<>&|]/g;
+const POWERSHELL_SINGLE_QUOTES = /['‘’‚‛]/g;
+
+/**
+ * Quotes a value for a POSIX shell using single quotes.
+ * @param arg The value to quote.
+ * @returns The quoted value.
+ */
+function quotePosix(arg: string) {
+  if (arg === '') {
+    return "''";
+  }
+  if (POSIX_SAFE.test(arg)) {
+    return arg;
+  }
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quotes a value for bash. Values containing control characters are written as
+ * ANSI-C ($'...') strings so the command stays on a single line.
+ * @param arg The value to quote.
+ * @returns The quoted value.
+ */
+function quoteBash(arg: string) {
+  if (!CONTROL_CHARS.test(arg)) {
+    return quotePosix(arg);
+  }
+
+  const escaped = arg.replace(/[\\'\x01-\x1f\x7f]/g, (char) => {
+    switch (char) {
+      case '\\':
+        return '\\\\';
+      case "'":
+        return "\\'";
+      case '\n':
+        return '\\n';
+      case '\r':
+        return '\\r';
+      case '\t':
+        return '\\t';
+      default:
+        return `\\x${char.charCodeAt(0).toString(16).padStart(2, '0')}`;
+    }
+  });
+
+  return `$'${escaped}'`;
+}
+
+/**
+ * Quotes a value for PowerShell using a verbatim (single-quoted) string.
+ * @param arg The value to quote.
+ * @returns The quoted value.
+ */
+function quotePowershell(arg: string) {
+  if (arg !== '' && POWERSHELL_SAFE.test(arg)) {
+    return arg;
+  }
+  return `'${arg.replace(POWERSHELL_SINGLE_QUOTES, '$&$&')}'`;
+}
+
+/**
+ * Quotes a value for cmd.exe. The value is first quoted following the
+ * CommandLineToArgvW rules, then every cmd.exe metacharacter is escaped with "^".
+ * @param arg The value to quote.
+ * @returns The quoted value.
+ */
+function quoteCmd(arg: string) {
+  if (/[\r\n]/.test(arg)) {
+    throw new Error('cmd.exe arguments cannot contain line breaks');
+  }
+  if (arg !== '' && CMD_SAFE.test(arg)) {
+    return arg;
+  }
+
+  const quoted = `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\+)$/, '$1$1')}"`;
+  return quoted.replace(CMD_META_CHARS, '^$&');
+}
+
+/**
+ * Quotes a single argument so the given shell passes it to the program unchanged.
+ * @param arg The argument to quote.
+ * @param shell The shell dialect to quote for. Defaults to 'posix'.
+ * @returns The quoted argument.
+ */
+export function quoteShellArg(arg: string, shell: ShellDialect = 'posix') {
+  if (arg.includes('\0')) {
+    throw new Error('Arguments cannot contain null bytes');
+  }
+
+  switch (shell) {
+    case 'posix':
+      return quotePosix(arg);
+    case 'bash':
+      return quoteBash(arg);
+    case 'powershell':
+      return quotePowershell(arg);
+    case 'cmd':
+      return quoteCmd(arg);
+    default:
+      throw new Error(`Unsupported shell dialect: ${shell}`);
+  }
+}
+
+/**
+ * Quotes the program to invoke. PowerShell needs the call operator "&" in front of a
+ * quoted program, and cmd.exe does not accept "^" escapes in the program name.
+ * @param command The program name or path.
+ * @param shell The shell dialect to quote for. Defaults to 'posix'.
+ * @returns The quoted program.
+ */
+export function quoteShellCommand(command: string, shell: ShellDialect = 'posix') {
+  if (shell === 'powershell') {
+    const quoted = quotePowershell(command);
+    return quoted === command ? command : `& ${quoted}`;
+  }
+
+  if (shell === 'cmd') {
+    if (CMD_SAFE.test(command)) {
+      return command;
+    }
+    if (/["\r\n]/.test(command)) {
+      throw new Error('cmd.exe program paths cannot contain quotes or line breaks');
+    }
+    return `"${command}"`;
+  }
+
+  return quoteShellArg(command, shell);
+}
+
+/**
+ * Joins a program and its arguments into a single command string for the given shell.
+ * @param argv The program followed by its arguments.
+ * @param shell The shell dialect to quote for. Defaults to 'posix'.
+ * @returns The quoted command string.
+ */
+export function joinShellCommand(argv: string[], shell: ShellDialect = 'posix') {
+  const [command, ...args] = argv;
+  if (command === undefined) {
+    return '';
+  }
+  return [quoteShellCommand(command, shell), ...args.map((arg) => quoteShellArg(arg, shell))].join(
+    ' '
+  );
+}
+
+const POSIX_OPERATORS = new Set([';', '&', '|', '<', '>', '(', ')', '`']);
+const ANSI_C_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  a: '\x07',
+  b: '\b',
+  e: '\x1b',
+  f: '\f',
+  v: '\v',
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+  '?': '?'
+};
+
+/**
+ * Splits a POSIX sh / bash command line into words. Quotes, backslash escapes,
+ * ANSI-C ($'...') strings, line continuations and comments are supported; operators,
+ * substitutions and parameter expansions are rejected since they cannot be resolved
+ * without running a shell.
+ * @param command The command line.
+ * @returns The words of the command.
+ */
+function splitPosix(command: string) {
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let i = 0;
+
+  const rejectExpansion = (index: number) => {
+    const next = command[index + 1];
+    if (next !== undefined && /[A-Za-z0-9_{(@*#?$!-]/.test(next)) {
+      throw new Error(`Shell expansions are not supported (at position ${index})`);
+    }
+  };
+
+  while (i < command.length) {
+    const char = command[i];
+
+    if (char === ' ' || char === '\t' || char === '\n') {
+      if (inWord) {
+        words.push(word);
+        word = '';
+        inWord = false;
+      }
+      i++;
+    } else if (char === '#' && !inWord) {
+      while (i < command.length && command[i] !== '\n') {
+        i++;
+      }
+    } else if (char === '\\') {
+      if (command[i + 1] === '\n') {
+        i += 2;
+        continue;
+      }
+      if (i + 1 < command.length) {
+        word += command[i + 1];
+      }
+      inWord = true;
+      i += 2;
+    } else if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated single quote (at position ${i})`);
+      }
+      word += command.slice(i + 1, end);
+      inWord = true;
+      i = end + 1;
+    } else if (char === '$' && command[i + 1] === "'") {
+      i += 2;
+      while (command[i] !== "'") {
+        if (i >= command.length) {
+          throw new Error("Unterminated $'...' string");
+        }
+        if (command[i] === '\\') {
+          const escape = command[i + 1];
+          const hex = /^x([0-9A-Fa-f]{1,2})/.exec(command.slice(i + 1));
+          if (hex) {
+            word += String.fromCharCode(parseInt(hex[1], 16));
+            i += 1 + hex[0].length;
+          } else if (escape in ANSI_C_ESCAPES) {
+            word += ANSI_C_ESCAPES[escape];
+            i += 2;
+          } else {
+            word += `\\${escape ?? ''}`;
+            i += 2;
+          }
+        } else {
+          word += command[i];
+          i++;
+        }
+      }
+      inWord = true;
+      i++;
+    } else if (char === '"') {
+      i++;
+      while (command[i] !== '"') {
+        if (i >= command.length) {
+          throw new Error('Unterminated double quote');
+        }
+        const current = command[i];
+        if (current === '\\' && /[$`"\\\n]/.test(command[i + 1] ?? '')) {
+          if (command[i + 1] !== '\n') {
+            word += command[i + 1];
+          }
+          i += 2;
+        } else {
+          if (current === '`') {
+            throw new Error(`Command substitution is not supported (at position ${i})`);
+          }
+          if (current === '$') {
+            rejectExpansion(i);
+          }
+          word += current;
+          i++;
+        }
+      }
+      inWord = true;
+      i++;
+    } else if (POSIX_OPERATORS.has(char)) {
+      throw new Error(`Unsupported shell operator "${char}" (at position ${i})`);
+    } else {
+      if (char === '$') {
+        rejectExpansion(i);
+      }
+      if (char === '~' && !inWord) {
+        throw new Error(`Tilde expansion is not supported (at position ${i})`);
+      }
+      word += char;
+      inWord = true;
+      i++;
+    }
+  }
+
+  if (inWord) {
+    words.push(word);
+  }
+  return words;
+}
+
+/**
+ * Splits a PowerShell command line into words. Verbatim ('...') and expandable ("...")
+ * strings and backtick escapes are supported; a leading call operator "&" is skipped.
+ * @param input The command line.
+ * @returns The words of the command.
+ */
+function splitPowershell(input: string) {
+  const command = input.replace(/^\s*&\s+/, '');
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let i = 0;
+
+  const isSingleQuote = (char: string | undefined) => char !== undefined && /['‘’‚‛]/.test(char);
+  const isDoubleQuote = (char: string | undefined) => char !== undefined && /["“”„]/.test(char);
+  const rejectVariable = (index: number) => {
+    if (/[A-Za-z_{(?$^]/.test(command[index + 1] ?? '')) {
+      throw new Error(
+        `PowerShell variables and subexpressions are not supported (at position ${index})`
+      );
+    }
+  };
+
+  while (i < command.length) {
+    const char = command[i];
+
+    if (/\s/.test(char)) {
+      if (inWord) {
+        words.push(word);
+        word = '';
+        inWord = false;
+      }
+      i++;
+    } else if (char === '`') {
+      if (i + 1 < command.length) {
+        word += command[i + 1];
+      }
+      inWord = true;
+      i += 2;
+    } else if (isSingleQuote(char)) {
+      i++;
+      for (;;) {
+        if (i >= command.length) {
+          throw new Error('Unterminated single quote');
+        }
+        if (isSingleQuote(command[i])) {
+          if (isSingleQuote(command[i + 1])) {
+            word += command[i];
+            i += 2;
+            continue;
+          }
+          break;
+        }
+        word += command[i];
+        i++;
+      }
+      inWord = true;
+      i++;
+    } else if (isDoubleQuote(char)) {
+      i++;
+      for (;;) {
+        if (i >= command.length) {
+          throw new Error('Unterminated double quote');
+        }
+        const current = command[i];
+        if (isDoubleQuote(current)) {
+          if (isDoubleQuote(command[i + 1])) {
+            word += current;
+            i += 2;
+            continue;
+          }
+          break;
+        }
+        if (current === '`') {
+          word += command[i + 1] ?? '';
+          i += 2;
+          continue;
+        }
+        if (current === '$') {
+          rejectVariable(i);
+        }
+        word += current;
+        i++;
+      }
+      inWord = true;
+      i++;
+    } else if (/[;&|<>(){}]/.test(char)) {
+      throw new Error(`Unsupported PowerShell operator "${char}" (at position ${i})`);
+    } else {
+      if (char === '$') {
+        rejectVariable(i);
+      }
+      word += char;
+      inWord = true;
+      i++;
+    }
+  }
+
+  if (inWord) {
+    words.push(word);
+  }
+  return words;
+}
+
+/**
+ * Splits a cmd.exe command line into words. The cmd.exe layer ("^" escapes and quote
+ * state) is resolved first, then the result is split following the CommandLineToArgvW
+ * rules used by the Microsoft C runtime.
+ * @param command The command line.
+ * @returns The words of the command.
+ */
+function splitCmd(command: string) {
+  let line = '';
+  let quoted = false;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (char === '\r' || char === '\n') {
+      throw new Error('cmd.exe command lines cannot contain line breaks');
+    }
+    if (char === '%') {
+      throw new Error(`Environment variable expansion is not supported (at position ${i})`);
+    }
+    if (char === '"') {
+      quoted = !quoted;
+      line += char;
+    } else if (!quoted && char === '^') {
+      i++;
+      if (i < command.length) {
+        line += command[i];
+      }
+    } else if (!quoted && /[&|<>]/.test(char)) {
+      throw new Error(`Unsupported cmd.exe operator "${char}" (at position ${i})`);
+    } else {
+      line += char;
+    }
+  }
+
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if ((char === ' ' || char === '\t') && !inQuotes) {
+      if (inWord) {
+        words.push(word);
+        word = '';
+        inWord = false;
+      }
+      continue;
+    }
+
+    inWord = true;
+
+    if (char === '\\') {
+      let backslashes = 0;
+      while (line[i] === '\\') {
+        backslashes++;
+        i++;
+      }
+      if (line[i] === '"') {
+        word += '\\'.repeat(Math.floor(backslashes / 2));
+        if (backslashes % 2 === 1) {
+          word += '"';
+        } else {
+          i--;
+        }
+      } else {
+        word += '\\'.repeat(backslashes);
+        i--;
+      }
+    } else if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        word += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else {
+      word += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated double quote');
+  }
+  if (inWord) {
+    words.push(word);
+  }
+  return words;
+}
+
+/**
+ * Splits a command line into words the way the given shell would, the inverse of
+ * joinShellCommand(). Constructs that need a running shell to resolve (variables,
+ * substitutions, pipes and redirections) are rejected with an error.
+ * @param command The command line.
+ * @param shell The shell dialect the command is written for. Defaults to 'posix'.
+ * @returns The program followed by its arguments.
+ */
+export function splitShellCommand(command: string, shell: ShellDialect = 'posix') {
+  switch (shell) {
+    case 'posix':
+    case 'bash':
+      return splitPosix(command);
+    case 'powershell':
+      return splitPowershell(command);
+    case 'cmd':
+      return splitCmd(command);
+    default:
+      throw new Error(`Unsupported shell dialect: ${shell}`);
+  }
+}
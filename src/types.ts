@@ -18,86 +18,136 @@ export type ReleaseChannel = 'stable' | 'nightly' | 'master';
 
 export type RemoteComponent = 'ejs:npm' | 'ejs:github';
 
-export type RetryType = 'http' | 'fragment' | 'file_access' | 'extractor';
+export const RETRY_TYPES = ['http', 'fragment', 'file_access', 'extractor'] as const;
 
-export type DownloaderName = 'native' | 'aria2c' | 'axel' | 'curl' | 'ffmpeg' | 'httpie' | 'wget';
+export type RetryType = (typeof RETRY_TYPES)[number];
 
-export type DownloaderProtocol = 'http' | 'ftp' | 'm3u8' | 'dash' | 'rstp' | 'rtmp' | 'mms';
+export const DOWNLOADER_NAMES = [
+  'native',
+  'aria2c',
+  'axel',
+  'curl',
+  'ffmpeg',
+  'httpie',
+  'wget'
+] as const;
 
-export type PathType =
-  | 'home'
-  | 'temp'
-  | 'subtitle'
-  | 'thumbnail'
-  | 'description'
-  | 'annotation'
-  | 'infojson'
-  | 'link'
-  | 'pl_thumbnail'
-  | 'pl_description'
-  | 'pl_infojson'
-  | 'chapter'
-  | 'pl_video';
-
-export type Keyring = 'basictext' | 'gnomekeyring' | 'kwallet' | 'kwallet5' | 'kwallet6';
-
-export type PrintWhen =
-  | 'video'
-  | 'pre_process'
-  | 'after_filter'
-  | 'before_dl'
-  | 'post_process'
-  | 'after_move'
-  | 'after_video'
-  | 'playlist'
-  | 'after_playlist';
+export type DownloaderName = (typeof DOWNLOADER_NAMES)[number];
+
+export const DOWNLOADER_PROTOCOLS = ['http', 'ftp', 'm3u8', 'dash', 'rstp', 'rtmp', 'mms'] as const;
+
+export type DownloaderProtocol = (typeof DOWNLOADER_PROTOCOLS)[number];
+
+export const PATH_TYPES = [
+  'home',
+  'temp',
+  'subtitle',
+  'thumbnail',
+  'description',
+  'annotation',
+  'infojson',
+  'link',
+  'pl_thumbnail',
+  'pl_description',
+  'pl_infojson',
+  'chapter',
+  'pl_video'
+] as const;
+
+export type PathType = (typeof PATH_TYPES)[number];
 
-export type ProgressTemplateType =
-  | 'download'
-  | 'download-title'
-  | 'postprocess'
-  | 'postprocess-title';
+export const KEYRINGS = ['basictext', 'gnomekeyring', 'kwallet', 'kwallet5', 'kwallet6'] as const;
+
+export type Keyring = (typeof KEYRINGS)[number];
+
+export const PRINT_WHEN = [
+  'video',
+  'pre_process',
+  'after_filter',
+  'before_dl',
+  'post_process',
+  'after_move',
+  'after_video',
+  'playlist',
+  'after_playlist'
+] as const;
+
+export type PrintWhen = (typeof PRINT_WHEN)[number];
+
+export const PROGRESS_TEMPLATE_TYPES = [
+  'download',
+  'download-title',
+  'postprocess',
+  'postprocess-title'
+] as const;
+
+export type ProgressTemplateType = (typeof PROGRESS_TEMPLATE_TYPES)[number];
 
 export type AudioFormat =
-  | 'best'
-  | 'aac'
-  | 'alac'
-  | 'flac'
-  | 'm4a'
-  | 'mp3'
-  | 'opus'
-  | 'vorbis'
-  | 'wav';
-
-export type PostProcessorName =
-  | 'Merger'
-  | 'ModifyChapters'
-  | 'SplitChapters'
-  | 'ExtractAudio'
-  | 'VideoRemuxer'
-  | 'VideoConvertor'
-  | 'Metadata'
-  | 'EmbedSubtitle'
-  | 'EmbedThumbnail'
-  | 'SubtitlesConvertor'
-  | 'ThumbnailsConvertor'
-  | 'FixupStretched'
-  | 'FixupM4a'
-  | 'FixupM3u8'
-  | 'FixupTimestamp'
-  | 'FixupDuration';
-
-export type PostProcessorExecutable = 'AtomicParsley' | 'FFmpeg' | 'FFprobe';
-
-export type PostProcessorWhen =
-  | 'pre_process'
-  | 'after_filter'
-  | 'video'
-  | 'before_dl'
-  | 'post_process'
-  | 'after_move'
-  | 'after_video'
-  | 'playlist';
+  'best' | 'aac' | 'alac' | 'flac' | 'm4a' | 'mp3' | 'opus' | 'vorbis' | 'wav';
+
+export const POSTPROCESSOR_NAMES = [
+  'Merger',
+  'ModifyChapters',
+  'SplitChapters',
+  'ExtractAudio',
+  'VideoRemuxer',
+  'VideoConvertor',
+  'Metadata',
+  'EmbedSubtitle',
+  'EmbedThumbnail',
+  'SubtitlesConvertor',
+  'ThumbnailsConvertor',
+  'FixupStretched',
+  'FixupM4a',
+  'FixupM3u8',
+  'FixupTimestamp',
+  'FixupDuration'
+] as const;
+
+export type PostProcessorName = (typeof POSTPROCESSOR_NAMES)[number];
+
+export const POSTPROCESSOR_EXECUTABLES = ['AtomicParsley', 'FFmpeg', 'FFprobe'] as const;
+
+export type PostProcessorExecutable = (typeof POSTPROCESSOR_EXECUTABLES)[number];
+
+/**
+ * Where ffmpeg arguments go: before the input or output files, or before the input or
+ * output file with the given number (starting at 1).
+ */
+export type FfmpegArgsPosition = 'input' | 'output' | { input: number } | { output: number };
+
+export type PostProcessorArgs = {
+  /** Give the arguments to this postprocessor only. */
+  postprocessor?: PostProcessorName;
+  /** Give the arguments to this executable only, within the postprocessor if one is given. */
+  executable?: PostProcessorExecutable;
+  /** Where the arguments go. FFmpeg and FFprobe only. */
+  position?: FfmpegArgsPosition;
+  /** The arguments, each quoted as needed. */
+  args: string[];
+};
+
+export type DownloaderArgs = {
+  downloader: DownloaderName;
+  /** Where the arguments go. ffmpeg only. */
+  position?: FfmpegArgsPosition;
+  /** The arguments, each quoted as needed. */
+  args: string[];
+};
+
+export const POSTPROCESSOR_WHEN = [
+  'pre_process',
+  'after_filter',
+  'video',
+  'before_dl',
+  'post_process',
+  'after_move',
+  'after_video',
+  'playlist'
+] as const;
+
+export type PostProcessorWhen = (typeof POSTPROCESSOR_WHEN)[number];
 
 export type SponsorBlockCategory =
   | 'sponsor'
@@ -114,4 +164,1329 @@ export type SponsorBlockCategory =
   | 'all'
   | 'default';
 
+export const SEARCH_PREFIXES = [
+  'ytsearch',
+  'ytsearchdate',
+  'ytmsearch',
+  'scsearch',
+  'gvsearch',
+  'yvsearch',
+  'bilisearch',
+  'nicosearch',
+  'nicosearchdate'
+] as const;
+
+export type SearchPrefix = (typeof SEARCH_PREFIXES)[number];
+
+export type SearchOptions = {
+  /** The site to search. Defaults to 'ytsearch' (YouTube). */
+  prefix?: SearchPrefix;
+  /** How many results to download, or 'all'. Defaults to 1. */
+  count?: number | 'all';
+};
+
+/**
+ * A timestamp in seconds, or as "[HH:]MM:SS[.ms]" or "1h2m3s". Negative timestamps count from
+ * the end of the video, and "inf" (or Infinity) is the end itself.
+ */
+export type SectionTimestamp = number | string;
+
+export type DownloadSection =
+  /** A time range. The start defaults to the beginning and the end to the end of the video. */
+  | { start?: SectionTimestamp; end?: SectionTimestamp }
+  /** Chapters whose title matches the regular expression. */
+  | { chapters: string | RegExp }
+  /** The range between the "start_time" and "end_time" extracted from the URL. */
+  | 'from-url';
+
+/** The compat options yt-dlp documents, for compatOptions(). */
+export const COMPAT_OPTIONS = [
+  'filename',
+  'filename-sanitization',
+  'format-sort',
+  'abort-on-error',
+  'format-spec',
+  'no-playlist-metafiles',
+  'multistreams',
+  'no-live-chat',
+  'playlist-index',
+  'list-formats',
+  'no-direct-merge',
+  'playlist-match-filter',
+  'no-attach-info-json',
+  'embed-thumbnail-atomicparsley',
+  'no-external-downloader-progress',
+  'embed-metadata',
+  'seperate-video-versions',
+  'no-clean-infojson',
+  'no-keep-subs',
+  'no-certifi',
+  'no-youtube-channel-redirect',
+  'no-youtube-unavailable-videos',
+  'no-youtube-prefer-utc-upload-date',
+  'prefer-legacy-http-handler',
+  'manifest-filesize-approx',
+  'allow-unsafe-ext',
+  'prefer-vp9-sort',
+  'mtime-by-default',
+  'allow-unsafe-exec-expansion'
+] as const;
+
+export type CompatOption = (typeof COMPAT_OPTIONS)[number];
+
+/** Names that stand for several compat options: every option, a fork's defaults, or a year's changes. */
+export const COMPAT_OPTION_GROUPS = [
+  'all',
+  'youtube-dl',
+  'youtube-dlc',
+  '2021',
+  '2022',
+  '2023',
+  '2024',
+  '2025'
+] as const;
+
+export type CompatOptionGroup = (typeof COMPAT_OPTION_GROUPS)[number];
+
+/** A compat option or group, prefixed with "-" to exclude it or "+" to include it. */
+export type CompatOptionValue =
+  CompatOption | CompatOptionGroup | `${'-' | '+'}${CompatOption | CompatOptionGroup}`;
+
 export type MergeOutputFormat = 'avi' | 'flv' | 'mkv' | 'mov' | 'mp4' | 'webm';
+
+/** A value of an extractor argument. true sets the argument without a value. */
+export type ExtractorArgValue = string | number | boolean | readonly (string | number)[];
+
+export type ExtractorArgs = Record<string, ExtractorArgValue | undefined>;
+
+export const YOUTUBE_PLAYER_CLIENTS = [
+  'default',
+  'all',
+  'web',
+  'web_safari',
+  'web_embedded',
+  'web_music',
+  'web_creator',
+  'mweb',
+  'ios',
+  'android',
+  'android_vr',
+  'tv',
+  'tv_simply',
+  'tv_embedded'
+] as const;
+
+export type YoutubePlayerClient = (typeof YOUTUBE_PLAYER_CLIENTS)[number];
+
+export type YoutubeExtractorArgs = {
+  /** Preferred translation language of the metadata, e.g. "en". */
+  lang?: string;
+  /** Skip some formats or subtitles. */
+  skip?: ('hls' | 'dash' | 'translated_subs')[];
+  /** Clients to extract video data from, in order. Prefix a client with "-" to exclude it. */
+  player_client?: (YoutubePlayerClient | `-${YoutubePlayerClient}`)[];
+  /** PO tokens, each "CLIENT.CONTEXT+PO_TOKEN", e.g. "web.gvs+TOKEN". */
+  po_token?: `${string}.${string}+${string}`[];
+  /** When to fetch PO tokens from a provider. */
+  fetch_pot?: 'never' | 'auto' | 'always';
+  player_skip?: ('webpage' | 'configs' | 'js' | 'initial_data')[];
+  webpage_skip?: ('player_response' | 'initial_data')[];
+  player_js_version?: string;
+  comment_sort?: 'top' | 'new';
+  /** Up to four limits: comments, parents, replies and replies per thread. */
+  max_comments?: (number | 'all')[];
+  /** Formats to include that are hidden by default. */
+  formats?: ('missing_pot' | 'incomplete' | 'duplicate' | 'dashy')[];
+  innertube_host?: string;
+  innertube_key?: string;
+  raise_incomplete_data?: true;
+  data_sync_id?: string;
+  visitor_data?: string;
+};
+
+export type YoutubeTabExtractorArgs = {
+  skip?: ('webpage' | 'authcheck')[];
+  approximate_date?: true;
+};
+
+export type GenericExtractorArgs = {
+  /** Pass the manifest query to the fragments, or the given query. */
+  fragment_query?: true | string;
+  /** Pass the manifest query to the variant playlists, or the given query. */
+  variant_query?: true | string;
+  /** The HLS AES-128 key, as a URL or hex, for manifests that do not give one. */
+  hls_key?: string;
+  /** Set the live status instead of detecting it. */
+  is_live?: boolean;
+  /** Impersonate a browser, or the given target. */
+  impersonate?: true | string;
+};
+
+export type TwitchExtractorArgs = {
+  client_id?: string;
+};
+
+export type VimeoExtractorArgs = {
+  client?: ('android' | 'ios' | 'web')[];
+  original_format_policy?: 'always' | 'never' | 'auto';
+};
+
+export type InstagramExtractorArgs = {
+  app_id?: string;
+};
+
+/** Typed arguments of common extractors, by extractor key. */
+export type ExtractorArgsMap = {
+  youtube: YoutubeExtractorArgs;
+  youtubetab: YoutubeTabExtractorArgs;
+  generic: GenericExtractorArgs;
+  twitch: TwitchExtractorArgs;
+  vimeo: VimeoExtractorArgs;
+  instagram: InstagramExtractorArgs;
+};
+
+export type ShellDialect = 'posix' | 'bash' | 'powershell' | 'cmd';
+
+export type BuildOptions = {
+  /** Shell the command string is quoted for. Defaults to 'posix'. */
+  shell?: ShellDialect;
+  /** Mask passwords, credentials in URLs and sensitive headers and extractor args, for logging. */
+  redact?: boolean;
+};
+
+export type SensitiveOptions = {
+  /** Header fields whose values are redacted, on top of Authorization, Proxy-Authorization and Cookie. */
+  headers?: string[];
+  /** Extractor args whose values are redacted, as "IE_KEY:KEY", or "KEY" for any extractor. */
+  extractorArgs?: string[];
+};
+
+export type UnknownOptionPolicy = 'error' | 'passthrough';
+
+/**
+ * What to do when an option conflicts with one already added: keep both (validate() still
+ * reports them), throw an Error, warn through onWarning, or keep the new option and remove
+ * the earlier one.
+ */
+export type ConflictPolicy = 'allow' | 'throw' | 'warn' | 'last-wins';
+
+/** What to do with options the target yt-dlp version does not support. */
+export type UnsupportedOptionPolicy = 'throw' | 'warn';
+
+export type BuilderOptions = {
+  /** What to do when an option conflicts with one already added. Defaults to 'allow'. */
+  conflicts?: ConflictPolicy;
+  /** Receives the warnings of the 'warn' policies. Defaults to console.warn. */
+  onWarning?: (message: string) => void;
+  /** Make every fluent call return a new instance, leaving the builder it was called on unchanged. */
+  immutable?: boolean;
+  /** The yt-dlp version the command is for, e.g. '2025.10.22'. Defaults to any version. */
+  targetVersion?: string;
+  /** What to do with options the target version does not support. Defaults to 'throw'. */
+  unsupportedOptions?: UnsupportedOptionPolicy;
+};
+
+/** The yt-dlp versions an option is available in. */
+export type OptionVersionRange = {
+  /** The first version with the option. */
+  since?: string;
+  /** The first version without the option. */
+  removedIn?: string;
+};
+
+/** The --help output of a yt-dlp version. */
+export type HelpDump = {
+  version: string;
+  help: string;
+};
+
+export type OptionSpan = {
+  /** The option, e.g. "--cookies". */
+  option: string;
+  /** Where the option starts in the argument list. */
+  index: number;
+  /** The number of arguments it spans, the option and its values. */
+  length: number;
+};
+
+export type OptionConflictIssue = {
+  /** The conflicting options, in the order they were added. */
+  options: string[];
+  message: string;
+};
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type OptionRule = {
+  /** The option the rule is about. */
+  option: string;
+  /** The rule reports the option when none of these options is used. */
+  requires?: string[];
+  /** The rule reports the option when any of these options is used. */
+  excludes?: string[];
+  /** Values of the option the rule does not apply to, e.g. "none". */
+  ignoreValues?: string[];
+  severity: DiagnosticSeverity;
+  message: string;
+};
+
+export type OptionDiagnostic = {
+  severity: DiagnosticSeverity;
+  /** The options involved, the reported option first. */
+  options: string[];
+  message: string;
+};
+
+/** An option as documented in yt-dlp's --help output. */
+export type HelpOption = {
+  /** The long option, e.g. "--format". */
+  name: string;
+  /** The short option, e.g. "-f". */
+  short?: string;
+  /** The value placeholders, e.g. "FORMAT" or "FIELDS REGEX REPLACE". */
+  metavar?: string;
+  /** The heading of the section the option is listed under, e.g. "Video Format Options". */
+  section: string;
+  description: string;
+  /** The long aliases given as "(Alias: ...)" in the description. */
+  aliases: string[];
+  /** Whether the description says the option can be used multiple times. */
+  repeatable: boolean;
+};
+
+export type HelpCoverageIssue = {
+  /** The documented option, alias or short option. */
+  option: string;
+  message: string;
+};
+
+/** Every long option the builder has a method for, as the builder writes it. */
+export const YTDLP_OPTIONS = [
+  '--help',
+  '--version',
+  '--update',
+  '--no-update',
+  '--update-to',
+  '--ignore-errors',
+  '--no-abort-on-error',
+  '--abort-on-error',
+  '--list-extractors',
+  '--extractor-descriptions',
+  '--use-extractors',
+  '--default-search',
+  '--ignore-config',
+  '--no-config-locations',
+  '--config-locations',
+  '--plugin-dirs',
+  '--no-plugin-dirs',
+  '--js-runtimes',
+  '--no-js-runtimes',
+  '--remote-components',
+  '--no-remote-components',
+  '--flat-playlist',
+  '--no-flat-playlist',
+  '--live-from-start',
+  '--no-live-from-start',
+  '--wait-for-video',
+  '--no-wait-for-video',
+  '--mark-watched',
+  '--no-mark-watched',
+  '--color',
+  '--compat-options',
+  '--alias',
+  '--preset-alias',
+  '--proxy',
+  '--socket-timeout',
+  '--source-address',
+  '--impersonate',
+  '--list-impersonate-targets',
+  '--force-ipv4',
+  '--force-ipv6',
+  '--enable-file-urls',
+  '--geo-verification-proxy',
+  '--xff',
+  '--playlist-items',
+  '--min-filesize',
+  '--max-filesize',
+  '--date',
+  '--datebefore',
+  '--dateafter',
+  '--match-filters',
+  '--no-match-filters',
+  '--break-match-filters',
+  '--no-break-match-filters',
+  '--no-playlist',
+  '--yes-playlist',
+  '--age-limit',
+  '--download-archive',
+  '--no-download-archive',
+  '--max-downloads',
+  '--break-on-existing',
+  '--no-break-on-existing',
+  '--break-per-input',
+  '--no-break-per-input',
+  '--skip-playlist-after-errors',
+  '--concurrent-fragments',
+  '--limit-rate',
+  '--throttled-rate',
+  '--retries',
+  '--file-access-retries',
+  '--fragment-retries',
+  '--retry-sleep',
+  '--skip-unavailable-fragments',
+  '--abort-on-unavailable-fragments',
+  '--keep-fragments',
+  '--no-keep-fragments',
+  '--buffer-size',
+  '--resize-buffer',
+  '--no-resize-buffer',
+  '--http-chunk-size',
+  '--playlist-random',
+  '--lazy-playlist',
+  '--no-lazy-playlist',
+  '--hls-use-mpegts',
+  '--no-hls-use-mpegts',
+  '--download-sections',
+  '--downloader',
+  '--downloader-args',
+  '--batch-file',
+  '--no-batch-file',
+  '--paths',
+  '--output',
+  '--output-na-placeholder',
+  '--restrict-filenames',
+  '--no-restrict-filenames',
+  '--windows-filenames',
+  '--no-windows-filenames',
+  '--trim-filenames',
+  '--no-overwrites',
+  '--force-overwrites',
+  '--no-force-overwrites',
+  '--continue',
+  '--no-continue',
+  '--part',
+  '--no-part',
+  '--mtime',
+  '--no-mtime',
+  '--write-description',
+  '--no-write-description',
+  '--write-info-json',
+  '--no-write-info-json',
+  '--write-playlist-metafiles',
+  '--no-write-playlist-metafiles',
+  '--clean-info-json',
+  '--no-clean-info-json',
+  '--write-comments',
+  '--no-write-comments',
+  '--load-info-json',
+  '--cookies',
+  '--no-cookies',
+  '--cookies-from-browser',
+  '--no-cookies-from-browser',
+  '--cache-dir',
+  '--no-cache-dir',
+  '--rm-cache-dir',
+  '--write-thumbnail',
+  '--no-write-thumbnail',
+  '--write-all-thumbnails',
+  '--list-thumbnails',
+  '--write-link',
+  '--write-url-link',
+  '--write-webloc-link',
+  '--write-desktop-link',
+  '--quiet',
+  '--no-quiet',
+  '--no-warnings',
+  '--simulate',
+  '--no-simulate',
+  '--ignore-no-formats-error',
+  '--no-ignore-no-formats-error',
+  '--skip-download',
+  '--print',
+  '--print-to-file',
+  '--dump-json',
+  '--dump-single-json',
+  '--force-write-archive',
+  '--newline',
+  '--no-progress',
+  '--progress',
+  '--console-title',
+  '--progress-template',
+  '--progress-delta',
+  '--verbose',
+  '--dump-pages',
+  '--write-pages',
+  '--print-traffic',
+  '--encoding',
+  '--legacy-server-connect',
+  '--no-check-certificates',
+  '--prefer-insecure',
+  '--add-headers',
+  '--bidi-workaround',
+  '--sleep-requests',
+  '--sleep-interval',
+  '--max-sleep-interval',
+  '--sleep-subtitles',
+  '--format',
+  '--format-sort',
+  '--format-sort-force',
+  '--no-format-sort-force',
+  '--video-multistreams',
+  '--no-video-multistreams',
+  '--audio-multistreams',
+  '--no-audio-multistreams',
+  '--prefer-free-formats',
+  '--no-prefer-free-formats',
+  '--check-formats',
+  '--check-all-formats',
+  '--no-check-formats',
+  '--list-formats',
+  '--merge-output-format',
+  '--write-subs',
+  '--no-write-subs',
+  '--write-auto-subs',
+  '--no-write-auto-subs',
+  '--list-subs',
+  '--sub-format',
+  '--sub-langs',
+  '--username',
+  '--password',
+  '--twofactor',
+  '--netrc',
+  '--netrc-location',
+  '--netrc-cmd',
+  '--video-password',
+  '--ap-mso',
+  '--ap-username',
+  '--ap-password',
+  '--ap-list-mso',
+  '--client-certificate',
+  '--client-certificate-key',
+  '--client-certificate-password',
+  '--extract-audio',
+  '--audio-format',
+  '--audio-quality',
+  '--remux-video',
+  '--recode-video',
+  '--postprocessor-args',
+  '--keep-video',
+  '--no-keep-video',
+  '--post-overwrites',
+  '--no-post-overwrites',
+  '--embed-subs',
+  '--no-embed-subs',
+  '--embed-thumbnail',
+  '--no-embed-thumbnail',
+  '--embed-metadata',
+  '--no-embed-metadata',
+  '--embed-chapters',
+  '--no-embed-chapters',
+  '--embed-info-json',
+  '--no-embed-info-json',
+  '--parse-metadata',
+  '--replace-in-metadata',
+  '--xattrs',
+  '--concat-playlist',
+  '--fixup',
+  '--ffmpeg-location',
+  '--exec',
+  '--no-exec',
+  '--convert-subs',
+  '--convert-thumbnails',
+  '--split-chapters',
+  '--no-split-chapters',
+  '--remove-chapters',
+  '--no-remove-chapters',
+  '--force-keyframes-at-cuts',
+  '--no-force-keyframes-at-cuts',
+  '--use-postprocessor',
+  '--sponsorblock-mark',
+  '--sponsorblock-remove',
+  '--sponsorblock-chapter-title',
+  '--no-sponsorblock',
+  '--sponsorblock-api',
+  '--extractor-retries',
+  '--allow-dynamic-mpd',
+  '--ignore-dynamic-mpd',
+  '--hls-split-discontinuity',
+  '--no-hls-split-discontinuity',
+  '--extractor-args'
+] as const;
+
+export type YtdlpOption = (typeof YTDLP_OPTIONS)[number];
+
+/** Options that can be used more than once, e.g. --add-headers. */
+export const REPEATABLE_OPTIONS = [
+  '--use-extractors',
+  '--config-locations',
+  '--plugin-dirs',
+  '--js-runtimes',
+  '--remote-components',
+  '--color',
+  '--compat-options',
+  '--alias',
+  '--preset-alias',
+  '--match-filters',
+  '--break-match-filters',
+  '--retry-sleep',
+  '--download-sections',
+  '--downloader',
+  '--downloader-args',
+  '--paths',
+  '--output',
+  '--print',
+  '--print-to-file',
+  '--progress-template',
+  '--add-headers',
+  '--postprocessor-args',
+  '--parse-metadata',
+  '--replace-in-metadata',
+  '--exec',
+  '--remove-chapters',
+  '--use-postprocessor',
+  '--sponsorblock-remove',
+  '--extractor-args'
+] as const satisfies readonly YtdlpOption[];
+
+export type RepeatableOption = (typeof REPEATABLE_OPTIONS)[number];
+
+type CamelCase<S extends string> = S extends `${infer Head}-${infer Tail}`
+  ? `${Head}${Capitalize<CamelCase<Tail>>}`
+  : S;
+
+/** An option name without the dashes, in camelCase, e.g. "addHeaders" for --add-headers. */
+export type YtdlpOptionKey<O extends YtdlpOption = YtdlpOption> = O extends `--${infer Name}`
+  ? CamelCase<Name>
+  : never;
+
+/** The value of one use of an option: true for flags, the values otherwise. */
+export type OptionValue = true | string | string[];
+
+/**
+ * The options of a command, one field per option. Repeatable options hold every use, in
+ * order; flags are true, options with one value hold a string and options with more hold
+ * an array.
+ */
+export type YtdlpOptions = {
+  [O in YtdlpOption as YtdlpOptionKey<O>]?: O extends RepeatableOption
+    ? OptionValue[]
+    : OptionValue;
+};
+
+/**
+ * Where a secret is read from when the command is built or run, so it is not kept in the
+ * builder: an environment variable, a file (without its trailing line break), or a callback.
+ */
+export type SecretProvider = { env: string } | { file: string } | (() => string | Promise<string>);
+
+/** One use of an option in a builder, in the order options were added. */
+export type OptionEntry = {
+  option: string;
+  values: string[];
+  /** Reads the value when the command is built; the value itself is a placeholder. */
+  secret?: SecretProvider;
+  /** The builder method that added the option, cleared when it is removed. */
+  method?: string;
+  /** Added verbatim with passthrough(); the option may be unknown. */
+  passthrough?: boolean;
+};
+
+export type YtdlpCommandJSON = {
+  ytdlpPath: string;
+  options: YtdlpOptions;
+  urls: string[];
+  /** Arguments added with passthrough(). */
+  passthrough: string[];
+  /** Headers and extractor args marked with sensitive(), if any. */
+  sensitive?: SensitiveOptions;
+};
+
+export type ConfigFileOptions = {
+  /** Comment for the top of the file, after the "# coding: utf-8" declaration. */
+  comment?: string;
+};
+
+export type ParseOptions = BuilderOptions & {
+  /** Shell the command string is written for. Ignored for argv arrays. Defaults to 'posix'. */
+  shell?: ShellDialect;
+  /** What to do with options that have no builder method. Defaults to 'error'. */
+  unknownOptions?: UnknownOptionPolicy;
+};
+
+export type UnknownOption = {
+  /** The option as it appeared in the command, e.g. "--frobnicate". */
+  option: string;
+  /** Index of the token among the arguments, not counting the program. */
+  index: number;
+};
+
+export type DownloadProgress = {
+  type: 'download';
+  status: 'downloading' | 'finished' | 'error';
+  /** Percentage of the download completed, from 0 to 100. */
+  percent?: number;
+  downloadedBytes?: number;
+  totalBytes?: number;
+  /** True when totalBytes is an estimate, e.g. for fragmented downloads. */
+  totalBytesEstimate?: boolean;
+  /** Download speed in bytes per second. */
+  speed?: number;
+  /** Estimated time remaining, in seconds. */
+  eta?: number;
+  /** Time the download took, in seconds. Only known once it has finished. */
+  elapsed?: number;
+  fragmentIndex?: number;
+  fragmentCount?: number;
+  filename?: string;
+};
+
+export type PostprocessProgress = {
+  type: 'postprocess';
+  status: 'started' | 'processing' | 'finished';
+  /** The post-processor reporting progress, e.g. "Merger". */
+  postprocessor?: string;
+};
+
+export type Progress = DownloadProgress | PostprocessProgress;
+
+export type DestinationEvent = {
+  /** The file yt-dlp is downloading to, or a post-processor is writing. */
+  path: string;
+  /** The post-processor writing the file, e.g. "ExtractAudio". Not set for downloads. */
+  postprocessor?: string;
+};
+
+export type MergeEvent = {
+  /** The file the formats are merged into. */
+  path: string;
+};
+
+export type PostprocessEvent = {
+  /** The post-processor that logged the line, e.g. "ExtractAudio". */
+  postprocessor: string;
+  message: string;
+};
+
+export type ExitEvent = {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+};
+
+export type RunOptions = {
+  /** Aborting the signal kills yt-dlp and rejects the run with an AbortError. */
+  signal?: AbortSignal;
+  /** Signal sent to yt-dlp when aborted or killed. Defaults to 'SIGTERM'. */
+  killSignal?: NodeJS.Signals;
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+};
+
+export type RunResult = ExitEvent & {
+  /** Everything yt-dlp wrote to stdout. */
+  stdout: string;
+  /** Everything yt-dlp wrote to stderr. */
+  stderr: string;
+};
+
+export type LiveStatus = 'not_live' | 'is_live' | 'is_upcoming' | 'was_live' | 'post_live';
+
+export type Availability =
+  'private' | 'premium_only' | 'subscriber_only' | 'needs_auth' | 'unlisted' | 'public';
+
+export type InfoJsonVersion = {
+  version: string;
+  current_git_head?: string | null;
+  release_git_head?: string | null;
+  repository?: string;
+};
+
+export type ThumbnailInfo = {
+  url: string;
+  id?: string;
+  preference?: number;
+  width?: number;
+  height?: number;
+  resolution?: string;
+  /** Set once the thumbnail has been written to disk. */
+  filepath?: string;
+  [key: string]: unknown;
+};
+
+export type SubtitleInfo = {
+  ext?: string;
+  url?: string;
+  /** The subtitle contents, when yt-dlp has them inline instead of a URL. */
+  data?: string;
+  name?: string;
+  protocol?: string;
+  /** Set once the subtitle has been written to disk. */
+  filepath?: string;
+  [key: string]: unknown;
+};
+
+export type ChapterInfo = {
+  start_time: number;
+  end_time: number;
+  title?: string;
+  [key: string]: unknown;
+};
+
+export type FragmentInfo = {
+  url?: string;
+  path?: string;
+  duration?: number;
+  [key: string]: unknown;
+};
+
+export type FormatInfo = {
+  format_id: string;
+  url?: string;
+  manifest_url?: string;
+  ext?: string;
+  format?: string;
+  format_note?: string;
+  protocol?: string;
+  container?: string;
+  width?: number | null;
+  height?: number | null;
+  resolution?: string | null;
+  aspect_ratio?: number | null;
+  fps?: number | null;
+  dynamic_range?: string | null;
+  /** "none" for audio-only formats. */
+  vcodec?: string | null;
+  /** "none" for video-only formats. */
+  acodec?: string | null;
+  video_ext?: string;
+  audio_ext?: string;
+  tbr?: number | null;
+  vbr?: number | null;
+  abr?: number | null;
+  asr?: number | null;
+  audio_channels?: number | null;
+  filesize?: number | null;
+  filesize_approx?: number | null;
+  language?: string | null;
+  language_preference?: number;
+  quality?: number | null;
+  preference?: number | null;
+  source_preference?: number;
+  has_drm?: boolean | 'maybe';
+  http_headers?: Record<string, string>;
+  fragments?: FragmentInfo[];
+  [key: string]: unknown;
+};
+
+export type RequestedDownload = Partial<FormatInfo> & {
+  /** Final path of the downloaded file. */
+  filepath?: string;
+  _filename?: string;
+  requested_formats?: FormatInfo[];
+  [key: string]: unknown;
+};
+
+export type VideoInfo = {
+  _type?: 'video';
+  id: string;
+  title?: string;
+  fulltitle?: string;
+  display_id?: string;
+  ext?: string;
+  url?: string;
+  webpage_url?: string;
+  original_url?: string;
+  webpage_url_basename?: string;
+  webpage_url_domain?: string;
+  extractor?: string;
+  extractor_key?: string;
+  description?: string | null;
+  uploader?: string | null;
+  uploader_id?: string | null;
+  uploader_url?: string | null;
+  channel?: string | null;
+  channel_id?: string | null;
+  channel_url?: string | null;
+  channel_follower_count?: number | null;
+  timestamp?: number | null;
+  upload_date?: string | null;
+  release_date?: string | null;
+  duration?: number | null;
+  duration_string?: string;
+  view_count?: number | null;
+  like_count?: number | null;
+  comment_count?: number | null;
+  age_limit?: number;
+  is_live?: boolean | null;
+  was_live?: boolean | null;
+  live_status?: LiveStatus | null;
+  availability?: Availability | null;
+  categories?: string[] | null;
+  tags?: string[] | null;
+  thumbnail?: string | null;
+  thumbnails?: ThumbnailInfo[];
+  formats?: FormatInfo[];
+  requested_formats?: FormatInfo[];
+  requested_downloads?: RequestedDownload[];
+  /** Subtitles keyed by language. */
+  subtitles?: Record<string, SubtitleInfo[]>;
+  /** Automatic captions keyed by language. */
+  automatic_captions?: Record<string, SubtitleInfo[]>;
+  chapters?: ChapterInfo[] | null;
+  playlist?: string | null;
+  playlist_id?: string | null;
+  playlist_title?: string | null;
+  playlist_index?: number | null;
+  n_entries?: number | null;
+  format_id?: string;
+  format?: string;
+  width?: number | null;
+  height?: number | null;
+  resolution?: string | null;
+  fps?: number | null;
+  vcodec?: string | null;
+  acodec?: string | null;
+  filesize_approx?: number | null;
+  filename?: string;
+  _filename?: string;
+  epoch?: number;
+  _version?: InfoJsonVersion;
+  [key: string]: unknown;
+};
+
+/** An entry yt-dlp has not extracted yet, e.g. with flatPlaylist(). */
+export type UrlInfo = {
+  _type: 'url' | 'url_transparent';
+  url: string;
+  ie_key?: string | null;
+  id?: string;
+  title?: string | null;
+  duration?: number | null;
+  [key: string]: unknown;
+};
+
+export type PlaylistInfo = {
+  _type: 'playlist' | 'multi_video';
+  id: string;
+  title?: string | null;
+  description?: string | null;
+  uploader?: string | null;
+  uploader_id?: string | null;
+  channel?: string | null;
+  channel_id?: string | null;
+  webpage_url?: string;
+  original_url?: string;
+  extractor?: string;
+  extractor_key?: string;
+  playlist_count?: number | null;
+  /** Null entries are videos yt-dlp could not extract, e.g. with ignoreErrors(). */
+  entries?: (InfoJson | null)[];
+  thumbnails?: ThumbnailInfo[];
+  epoch?: number;
+  _version?: InfoJsonVersion;
+  [key: string]: unknown;
+};
+
+export type InfoJson = VideoInfo | PlaylistInfo | UrlInfo;
+
+export type NumericFormatField =
+  | 'filesize'
+  | 'filesize_approx'
+  | 'width'
+  | 'height'
+  | 'aspect_ratio'
+  | 'tbr'
+  | 'abr'
+  | 'vbr'
+  | 'asr'
+  | 'fps'
+  | 'audio_channels';
+
+export type StringFormatField =
+  | 'url'
+  | 'ext'
+  | 'acodec'
+  | 'vcodec'
+  | 'container'
+  | 'protocol'
+  | 'language'
+  | 'dynamic_range'
+  | 'format_id'
+  | 'format_note';
+
+export type NumericOperator = '<' | '<=' | '>' | '>=' | '=' | '!=';
+
+/** Negated numeric comparisons, which match filters accept but format filters do not. */
+export type NegatedNumericOperator = '!<' | '!<=' | '!>' | '!>=';
+
+/** "^=" starts with, "$=" ends with, "*=" contains, "~=" matches a regex; "!" negates. */
+export type StringOperator = '=' | '^=' | '$=' | '*=' | '~=' | '!=' | '!^=' | '!$=' | '!*=' | '!~=';
+
+export type FormatFilter = {
+  field: string;
+  operator: NumericOperator | StringOperator;
+  /** A number, a size such as "50M", or a string. */
+  value: string | number;
+  /** Also match formats where the field is unknown, written as "?" after the operator. */
+  allowUnknown?: boolean;
+};
+
+export type FormatFilterOptions = Pick<FormatFilter, 'allowUnknown'>;
+
+export type FormatSpecifierOptions = {
+  /**
+   * Adds "*": bv* may also contain audio, ba* may also contain video, and b* / w* may be
+   * video-only or audio-only.
+   */
+  wildcard?: boolean;
+  /** Selects the n-th best (or worst) format, e.g. "bv.2". */
+  n?: number;
+};
+
+export type FormatSelectorNode =
+  | {
+      type: 'format';
+      /** e.g. "bv*", "137" or "mp4". Undefined for a bare filter such as "[height<=720]". */
+      specifier?: string;
+      filters: FormatFilter[];
+    }
+  | { type: 'group'; selector: FormatSelectorNode; filters: FormatFilter[] }
+  /** merge is "+", fallback is "/" and list (download each) is ",". */
+  | { type: 'merge' | 'fallback' | 'list'; selectors: FormatSelectorNode[] };
+
+export const FORMAT_SORT_FIELDS = [
+  'hasvid',
+  'hasaud',
+  'ie_pref',
+  'lang',
+  'quality',
+  'source',
+  'proto',
+  'vcodec',
+  'acodec',
+  'codec',
+  'vext',
+  'aext',
+  'ext',
+  'filesize',
+  'fs_approx',
+  'size',
+  'height',
+  'width',
+  'res',
+  'fps',
+  'hdr',
+  'channels',
+  'tbr',
+  'vbr',
+  'abr',
+  'br',
+  'asr',
+  'id'
+] as const;
+
+export type FormatSortField = (typeof FORMAT_SORT_FIELDS)[number];
+
+export type FormatSortOptions = {
+  /** Prefer the smallest value instead of the largest ("+field"). */
+  reverse?: boolean;
+  /**
+   * The preferred value ("field:value"). For numeric fields this is an upper limit, e.g.
+   * res:720. ext and codec take a video and an audio preference, e.g. ['mp4', 'm4a'].
+   */
+  prefer?: string | number | [string, string];
+  /** Prefer the value closest to this one ("field~value"). Numeric fields only. */
+  closest?: string | number;
+};
+
+export type FormatSortItem = FormatSortOptions & { field: FormatSortField };
+
+export type NumericMatchField =
+  | 'duration'
+  | 'view_count'
+  | 'concurrent_view_count'
+  | 'like_count'
+  | 'dislike_count'
+  | 'repost_count'
+  | 'comment_count'
+  | 'average_rating'
+  | 'age_limit'
+  | 'channel_follower_count'
+  | 'timestamp'
+  | 'release_timestamp'
+  | 'upload_date'
+  | 'release_date'
+  | 'modified_date'
+  | 'playlist_index'
+  | 'playlist_count'
+  | 'filesize'
+  | 'filesize_approx'
+  | 'width'
+  | 'height'
+  | 'fps';
+
+export type StringMatchField =
+  | 'id'
+  | 'title'
+  | 'fulltitle'
+  | 'description'
+  | 'uploader'
+  | 'uploader_id'
+  | 'channel'
+  | 'channel_id'
+  | 'live_status'
+  | 'availability'
+  | 'extractor'
+  | 'extractor_key'
+  | 'webpage_url'
+  | 'original_url'
+  | 'playlist'
+  | 'playlist_id'
+  | 'playlist_title'
+  | 'tags'
+  | 'categories'
+  | 'language';
+
+export type MatchFilterCondition =
+  | {
+      field: string;
+      operator: NumericOperator | NegatedNumericOperator | StringOperator;
+      value: string | number;
+      /** Also match when the field is unknown, written as "?" after the operator. */
+      allowUnknown?: boolean;
+    }
+  | {
+      field: string;
+      /** "field" matches when the field is present (or true), "!field" when it is not. */
+      present: boolean;
+    };
+
+export const OUTPUT_TEMPLATE_FIELDS = [
+  'id',
+  'title',
+  'fulltitle',
+  'ext',
+  'alt_title',
+  'description',
+  'display_id',
+  'uploader',
+  'uploader_id',
+  'uploader_url',
+  'license',
+  'creators',
+  'creator',
+  'timestamp',
+  'upload_date',
+  'release_timestamp',
+  'release_date',
+  'release_year',
+  'modified_timestamp',
+  'modified_date',
+  'channel',
+  'channel_id',
+  'channel_url',
+  'channel_follower_count',
+  'channel_is_verified',
+  'location',
+  'duration',
+  'duration_string',
+  'view_count',
+  'concurrent_view_count',
+  'like_count',
+  'dislike_count',
+  'repost_count',
+  'average_rating',
+  'comment_count',
+  'age_limit',
+  'live_status',
+  'is_live',
+  'was_live',
+  'playable_in_embed',
+  'availability',
+  'media_type',
+  'start_time',
+  'end_time',
+  'extractor',
+  'extractor_key',
+  'epoch',
+  'autonumber',
+  'video_autonumber',
+  'n_entries',
+  'playlist_id',
+  'playlist_title',
+  'playlist',
+  'playlist_count',
+  'playlist_index',
+  'playlist_autonumber',
+  'playlist_uploader',
+  'playlist_uploader_id',
+  'playlist_channel',
+  'playlist_channel_id',
+  'playlist_webpage_url',
+  'webpage_url',
+  'webpage_url_basename',
+  'webpage_url_domain',
+  'original_url',
+  'categories',
+  'tags',
+  'cast',
+  'chapter',
+  'chapter_number',
+  'chapter_id',
+  'series',
+  'series_id',
+  'season',
+  'season_number',
+  'season_id',
+  'episode',
+  'episode_number',
+  'episode_id',
+  'track',
+  'track_number',
+  'track_id',
+  'artists',
+  'artist',
+  'genres',
+  'genre',
+  'composers',
+  'composer',
+  'album',
+  'album_type',
+  'album_artists',
+  'album_artist',
+  'disc_number',
+  'section_title',
+  'section_number',
+  'section_start',
+  'section_end',
+  'format',
+  'format_id',
+  'format_note',
+  'width',
+  'height',
+  'aspect_ratio',
+  'resolution',
+  'dynamic_range',
+  'tbr',
+  'abr',
+  'acodec',
+  'asr',
+  'audio_channels',
+  'vbr',
+  'fps',
+  'vcodec',
+  'container',
+  'filesize',
+  'filesize_approx',
+  'protocol',
+  'language',
+  'formats',
+  'requested_formats',
+  'requested_downloads',
+  'thumbnails',
+  'subtitles',
+  'automatic_captions',
+  'chapters',
+  'heatmap',
+  'urls',
+  'filename',
+  'filepath'
+] as const;
+
+export type OutputTemplateField = (typeof OUTPUT_TEMPLATE_FIELDS)[number];
+
+/** Python's %-format types plus the ones yt-dlp adds (B, j, h, l, q, D, S, U). */
+export const OUTPUT_TEMPLATE_CONVERSIONS = [
+  'd',
+  'i',
+  'o',
+  'u',
+  'x',
+  'X',
+  'e',
+  'E',
+  'f',
+  'F',
+  'g',
+  'G',
+  'c',
+  'r',
+  's',
+  'a',
+  'B',
+  'j',
+  'h',
+  'l',
+  'q',
+  'D',
+  'S',
+  'U'
+] as const;
+
+export type OutputTemplateConversion = (typeof OUTPUT_TEMPLATE_CONVERSIONS)[number];
+
+export type OutputTemplateMath = {
+  operator: '+' | '-' | '*';
+  /** A number, or the path of another field. */
+  operand: number | string;
+};
+
+export type OutputTemplateKey = {
+  /** The field and its traversal path, e.g. "title", "tags.0" or "formats.:.format_id". */
+  field: string;
+  /** Negate the value, written as "-" before the field. */
+  negate?: boolean;
+  math?: OutputTemplateMath[];
+  /** A strftime format applied to the value, written after ">". */
+  dateFormat?: string;
+};
+
+export type OutputTemplatePlaceholder = OutputTemplateKey & {
+  /** Fields to try, in order, when the first one is empty. */
+  alternatives?: OutputTemplateKey[];
+  /** Text used instead of the value when the field is not empty, written after "&". */
+  replacement?: string;
+  /** Text used when the field is empty, written after "|". */
+  default?: string;
+  /** Conversion flags: "#", "0", "-", " " and "+". */
+  flags?: string;
+  width?: number;
+  precision?: number;
+  conversion: OutputTemplateConversion;
+};
+
+export type OutputTemplatePart =
+  { type: 'text'; text: string } | ({ type: 'field' } & OutputTemplatePlaceholder);
+
+export type OutputTemplateFieldOptions = Omit<
+  OutputTemplatePlaceholder,
+  'field' | 'conversion' | 'alternatives'
+> & {
+  /** Alternative fields, as paths or keys. */
+  alternatives?: (string | OutputTemplateKey)[];
+  /** The conversion type (default: "s"). */
+  conversion?: OutputTemplateConversion;
+};
+
+export type OutputTemplateRenderOptions = {
+  /** Text for missing fields, as set by outputNaPlaceholder() (default: "NA"). */
+  naPlaceholder?: string;
+  /** Sanitize field values for use in a filename (default: false, as for --print). */
+  sanitize?: boolean;
+  /** Sanitize as restrictFilenames() does. */
+  restrictFilenames?: boolean;
+  /** Value of the autonumber field (default: 1). */
+  autonumber?: number;
+};
+
+export type FilenamePreviewOptions = Omit<OutputTemplateRenderOptions, 'sanitize'> & {
+  /** Sanitize paths as windowsFilenames() does. */
+  windowsFilenames?: boolean;
+  /** Limit the filename length as trimFilenames() does. */
+  trimFilenames?: number;
+  /** Directories as set by paths(), by type ("home" for the default). */
+  paths?: Partial<Record<PathType, string>>;
+  /** The kind of file, as passed to output(template, type). */
+  type?: PathType;
+  /** The platform whose path rules apply (default: process.platform). */
+  platform?: NodeJS.Platform;
+};
@@ -1,76 +1,628 @@
 import {
-  AudioFormat,
-  DownloaderName,
-  DownloaderProtocol,
-  JsRuntime,
-  Keyring,
-  MergeOutputFormat,
-  PathType,
-  PostProcessorExecutable,
-  PostProcessorName,
-  PostProcessorWhen,
-  PrintWhen,
-  ProgressTemplateType,
-  ReleaseChannel,
-  RemoteComponent,
-  RetryType,
-  SponsorBlockCategory,
-  SupportedCookieBrowser
-} from './types';
+  type AudioFormat,
+  type BuilderOptions,
+  type BuildOptions,
+  type CompatOption,
+  type CompatOptionValue,
+  type ConfigFileOptions,
+  type ConflictPolicy,
+  type DownloaderArgs,
+  type DownloadSection,
+  type DownloaderName,
+  type DownloaderProtocol,
+  type ExtractorArgs,
+  type ExtractorArgsMap,
+  type FilenamePreviewOptions,
+  type InfoJson,
+  type JsRuntime,
+  type Keyring,
+  type MergeOutputFormat,
+  type OptionEntry,
+  type OptionValue,
+  PATH_TYPES,
+  type ParseOptions,
+  type PathType,
+  type PostProcessorArgs,
+  type PostProcessorExecutable,
+  type PostProcessorName,
+  type PostProcessorWhen,
+  type PrintWhen,
+  type ProgressTemplateType,
+  REPEATABLE_OPTIONS,
+  type ReleaseChannel,
+  type RemoteComponent,
+  type RetryType,
+  type RunOptions,
+  SEARCH_PREFIXES,
+  type SearchOptions,
+  type SecretProvider,
+  type SensitiveOptions,
+  type UnsupportedOptionPolicy,
+  type SearchPrefix,
+  type SponsorBlockCategory,
+  type SupportedCookieBrowser,
+  type YtdlpCommandJSON,
+  type YtdlpOption,
+  type YtdlpOptionKey,
+  type YtdlpOptions
+} from './types.js';
+import { applyArgs, fromOptionKey, getOptionArity, toOptionKey } from './commandParser.js';
+import { expandCompatOptions, normalizeCompatOption } from './compatOptions.js';
+import { formatConfigFile, splitConfigFile } from './configFile.js';
+import { formatExtractorArgs, mergeExtractorArgs } from './extractorArgs.js';
+import { FormatSelector } from './formatSelector.js';
+import { FormatSort } from './formatSort.js';
+import { MatchFilter } from './matchFilter.js';
+import { conflictMessage, findConflicts, OPTION_CONFLICTS } from './optionConflicts.js';
+import { lintOptions } from './optionRules.js';
+import { checkVersion, findUnsupportedOption } from './optionVersions.js';
+import { OutputTemplate } from './outputTemplate.js';
+import { DEFAULT_OUTPUT_TEMPLATES, previewFilename } from './outputTemplateRenderer.js';
+import { formatDownloadSections, validateDownloadSections } from './downloadSections.js';
+import { applyPreset, type PresetArgs, type PresetName } from './presets.js';
+import { formatDownloaderArgs, formatPostprocessorArgs } from './processorArgs.js';
+import { DOWNLOAD_PROGRESS_TEMPLATE, POSTPROCESS_PROGRESS_TEMPLATE } from './progress.js';
+import { redactArgs, redactOption, redactUrl } from './redaction.js';
+import {
+  isSecretProvider,
+  resolveSecret,
+  resolveSecretAsync,
+  SECRET_PLACEHOLDER
+} from './secrets.js';
+import { joinShellCommand, splitShellCommand } from './shellQuote.js';
+import { YtdlpProcess } from './ytdlpProcess.js';
 
 export class YtdlpCommandBuilder {
   private ytdlpCommandOrPath: 'yt-dlp' | string;
-  private args: string[] = [];
+  private entries: OptionEntry[] = [];
   private completeCommand = '';
   private methodCalled: Map<string, boolean>;
+  private urlArgs: string[] = [];
+  private conflicts: ConflictPolicy;
+  private onWarning?: (message: string) => void;
+  private immutable: boolean;
+  private targetVersion?: string;
+  private unsupportedOptions: UnsupportedOptionPolicy;
+  private sensitiveNames: Required<SensitiveOptions> = { headers: [], extractorArgs: [] };
 
   /**
    * Initializes a new instance of the YtdlpCommandBuilder class.
    * @param ytdlpPath Path to yt-dlp
+   * @param options Builder options: what to do with conflicting options (defaults to 'allow'),
+   * where warnings go, whether fluent calls return new instances (defaults to false), and the
+   * yt-dlp version the command is for along with what to do with options it does not support
+   * (defaults to 'throw').
    */
-  constructor(ytdlpPath?: string) {
+  constructor(ytdlpPath?: string, options?: BuilderOptions) {
     this.ytdlpCommandOrPath = ytdlpPath ?? 'yt-dlp';
+    this.conflicts = options?.conflicts ?? 'allow';
+    this.onWarning = options?.onWarning;
+    this.immutable = options?.immutable ?? false;
+    if (options?.targetVersion !== undefined) {
+      checkVersion(options.targetVersion);
+    }
+    this.targetVersion = options?.targetVersion;
+    this.unsupportedOptions = options?.unsupportedOptions ?? 'throw';
 
     this.methodCalled = new Map();
 
     this.completeCommand = this.completeCommand.concat(this.ytdlpCommandOrPath);
+
+    if (this.immutable) {
+      return immutableView(this);
+    }
   }
 
   /**
-   * Builds the complete yt-dlp command string.
+   * Parses an existing yt-dlp command back into a builder, calling the matching builder
+   * method for every option so the usual validation applies.
+   * @param command A command string, or an argv array whose first element is the program.
+   * @param options Parse options: the shell the string is written for, what to do with
+   * options that have no builder method (throw a YtdlpParseError, or pass them through) and
+   * what to do with conflicting options.
+   * @returns A new instance of YtdlpCommandBuilder.
+   */
+  static parse(command: string | string[], options?: ParseOptions) {
+    const argv = typeof command === 'string' ? splitShellCommand(command, options?.shell) : command;
+    if (argv.length === 0 || !argv[0].trim()) {
+      throw new Error('Command must include the yt-dlp program');
+    }
+
+    const builder = new YtdlpCommandBuilder(argv[0], builderOptions(options));
+    applyArgs(builder, argv.slice(1), options);
+    return options?.immutable ? builder.clone({ immutable: true }) : builder;
+  }
+
+  /**
+   * Loads a yt-dlp config file into a builder, calling the matching builder method for
+   * every option so the usual validation applies. The file is split the way yt-dlp does:
+   * "#" starts a comment, and quoted values may span several lines.
+   * @param input The file contents. Raw bytes are decoded using a byte order mark or a
+   * "# coding:" declaration on the first line, and as UTF-8 otherwise.
+   * @param options Parse options: what to do with options that have no builder method and
+   * with conflicting options, and whether the builder is immutable.
+   * @param ytdlpPath Path to yt-dlp
+   * @returns A new instance of YtdlpCommandBuilder.
+   */
+  static fromConfigFile(
+    input: string | Uint8Array,
+    options?: Omit<ParseOptions, 'shell'>,
+    ytdlpPath?: string
+  ) {
+    const builder = new YtdlpCommandBuilder(ytdlpPath, builderOptions(options));
+    applyArgs(builder, splitConfigFile(input), options);
+    return options?.immutable ? builder.clone({ immutable: true }) : builder;
+  }
+
+  /**
+   * Creates an independent copy of the builder, e.g. to fork a shared base configuration
+   * per job. Changes to the copy do not affect the original, and the other way around.
+   * @param options Builder options for the copy. Defaults to the options of this builder.
+   * @returns A new instance of YtdlpCommandBuilder.
+   */
+  clone(options?: BuilderOptions) {
+    const copy = this.copy();
+    copy.conflicts = options?.conflicts ?? this.conflicts;
+    copy.onWarning = options?.onWarning ?? this.onWarning;
+    copy.immutable = options?.immutable ?? this.immutable;
+    copy.unsupportedOptions = options?.unsupportedOptions ?? this.unsupportedOptions;
+    if (options?.targetVersion !== undefined && options.targetVersion !== this.targetVersion) {
+      checkVersion(options.targetVersion);
+      copy.targetVersion = options.targetVersion;
+      for (const entry of copy.entries) {
+        copy.checkSupported(entry.option);
+      }
+    }
+    return copy.immutable ? immutableView(copy) : copy;
+  }
+
+  /**
+   * Copies the builder state into a new mutable instance.
+   * @returns The copy.
+   */
+  private copy() {
+    const copy = new YtdlpCommandBuilder(this.ytdlpCommandOrPath, {
+      conflicts: this.conflicts,
+      onWarning: this.onWarning,
+      targetVersion: this.targetVersion,
+      unsupportedOptions: this.unsupportedOptions
+    });
+    copy.entries = this.entries.map((entry) => ({ ...entry, values: [...entry.values] }));
+    copy.methodCalled = new Map(this.methodCalled);
+    copy.urlArgs = [...this.urlArgs];
+    copy.immutable = this.immutable;
+    copy.sensitiveNames = {
+      headers: [...this.sensitiveNames.headers],
+      extractorArgs: [...this.sensitiveNames.extractorArgs]
+    };
+    return copy;
+  }
+
+  /**
+   * Creates a builder from the object returned by toJSON(), calling the matching builder
+   * method for every option so the usual validation applies.
+   * @param json The command, as returned by toJSON().
+   * @param options Builder options for the new builder.
+   * @returns A new instance of YtdlpCommandBuilder.
+   */
+  static fromJSON(json: YtdlpCommandJSON, options?: BuilderOptions) {
+    const builder = new YtdlpCommandBuilder(json.ytdlpPath, builderOptions(options));
+    for (const [key, value] of Object.entries(json.options ?? {})) {
+      const option = fromOptionKey(key);
+      const arity = getOptionArity(option);
+      if (arity === undefined) {
+        throw new Error(`Unknown option "${key}"`);
+      }
+      const uses = (REPEATABLE_OPTIONS as readonly string[]).includes(option)
+        ? (value as OptionValue[])
+        : [value as OptionValue];
+      for (const use of uses) {
+        const values = use === true ? [] : typeof use === 'string' ? [use] : use;
+        if (!Array.isArray(values) || values.length !== arity) {
+          throw new Error(
+            `Option "${key}" expects ${arity || 'no'} value${arity === 1 ? '' : 's'}`
+          );
+        }
+        applyArgs(builder, [option, ...values]);
+      }
+    }
+    for (const url of json.urls ?? []) {
+      builder.url(url);
+    }
+    if (json.passthrough?.length) {
+      builder.passthrough(...json.passthrough);
+    }
+    if (json.sensitive) {
+      builder.sensitive(json.sensitive);
+    }
+    return options?.immutable ? builder.clone({ immutable: true }) : builder;
+  }
+
+  /**
+   * Gets the command as a plain object with one field per option, which JSON.stringify()
+   * uses. Repeatable options hold every use; other options hold the last one. Options set
+   * from a secret provider are left out.
+   * @returns The program, options, URLs, passthrough arguments and the names marked with
+   * sensitive().
+   */
+  toJSON(): YtdlpCommandJSON {
+    const options: Partial<Record<string, OptionValue | OptionValue[]>> = {};
+    for (const entry of this.entries) {
+      if (entry.passthrough || entry.secret) {
+        continue;
+      }
+      const key = toOptionKey(entry.option);
+      const value = toOptionValue(entry);
+      if ((REPEATABLE_OPTIONS as readonly string[]).includes(entry.option)) {
+        options[key] = [...((options[key] as OptionValue[] | undefined) ?? []), value];
+      } else {
+        options[key] = value;
+      }
+    }
+    const { headers, extractorArgs } = this.sensitiveNames;
+    return {
+      ytdlpPath: this.ytdlpCommandOrPath,
+      options: options as YtdlpOptions,
+      urls: [...this.urlArgs],
+      passthrough: this.getPassthroughArgs(),
+      ...(headers.length || extractorArgs.length
+        ? { sensitive: { headers: [...headers], extractorArgs: [...extractorArgs] } }
+        : {})
+    };
+  }
+
+  /**
+   * Gets the value of an option.
+   * @param option The option, e.g. "--format".
+   * @returns true for a flag, the value or values of the option, or undefined if it is not
+   * set. Repeatable options return every use, in order. Options set from a secret provider
+   * return "***".
+   */
+  getOption<O extends YtdlpOption>(option: O): YtdlpOptions[YtdlpOptionKey<O>] {
+    const uses = this.entries
+      .filter((entry) => !entry.passthrough && entry.option === option)
+      .map(toOptionValue);
+    if (uses.length === 0) {
+      return undefined;
+    }
+    const repeatable = (REPEATABLE_OPTIONS as readonly string[]).includes(option);
+    return (repeatable ? uses : uses[uses.length - 1]) as YtdlpOptions[YtdlpOptionKey<O>];
+  }
+
+  /**
+   * Removes every use of an option, so its method can be called again.
+   * @param option The option, e.g. "--format".
+   * @returns The current instance of YtdlpCommandBuilder.
+   */
+  unset(option: YtdlpOption) {
+    if (getOptionArity(option) === undefined) {
+      throw new Error(`Unknown option "${option}"`);
+    }
+    this.remove((entry) => !entry.passthrough && entry.option === option);
+    return this;
+  }
+
+  /**
+   * Builds the complete yt-dlp command string, with every argument quoted for the target shell.
+   * @param options Build options, e.g. the shell dialect to quote for (defaults to 'posix').
    * @returns The complete yt-dlp command string.
    */
-  build() {
-    this.combine();
+  build(options?: BuildOptions) {
+    this.combine(options);
     return this.completeCommand.trim();
   }
 
+  /**
+   * Builds the command string with every secret masked, for logging. Same as
+   * build({ redact: true }).
+   * @param options Build options, e.g. the shell dialect to quote for (defaults to 'posix').
+   * @returns The complete yt-dlp command string, redacted.
+   */
+  toRedactedString(options?: Omit<BuildOptions, 'redact'>) {
+    return this.build({ ...options, redact: true });
+  }
+
+  /**
+   * Builds the command as an argument vector, the program followed by its arguments.
+   * Pass it to spawn/execFile without a shell; no quoting is applied or needed.
+   * @returns The program and its arguments.
+   */
+  buildArgv() {
+    return this.argv(false);
+  }
+
+  /**
+   * Builds the argument vector like buildArgv(), waiting for secret providers with async
+   * callbacks.
+   * @returns A promise for the program and its arguments.
+   */
+  async buildArgvAsync() {
+    const secrets = await Promise.all(
+      this.entries.map((entry) => entry.secret && resolveSecretAsync(entry.secret, entry.option))
+    );
+    const args = this.entries.flatMap((entry, i) => [
+      entry.option,
+      ...(entry.secret ? [secrets[i] as string] : entry.values)
+    ]);
+    return this.assemble(args, this.urlArgs);
+  }
+
+  /**
+   * Builds the argument vector, optionally with every secret masked. Secrets are read from
+   * their providers unless they are masked.
+   * @param redact Whether to mask secrets.
+   * @returns The program and its arguments.
+   */
+  private argv(redact: boolean) {
+    const args = this.entries.flatMap((entry) => {
+      if (redact) {
+        return entry.passthrough
+          ? redactArgs([entry.option, ...entry.values], this.sensitiveNames)
+          : redactOption(entry.option, entry.values, this.sensitiveNames);
+      }
+      return entry.secret
+        ? [entry.option, resolveSecret(entry.secret, entry.option)]
+        : [entry.option, ...entry.values];
+    });
+    return this.assemble(args, redact ? this.urlArgs.map(redactUrl) : this.urlArgs);
+  }
+
+  /**
+   * Puts the program, arguments and URLs together, with a "--" separator before URLs that
+   * look like options.
+   * @param args The arguments.
+   * @param urls The URLs.
+   * @returns The program and its arguments.
+   */
+  private assemble(args: string[], urls: string[]) {
+    const separator =
+      this.urlArgs.some((url) => url.startsWith('-')) && !this.args.includes('--') ? ['--'] : [];
+    return [this.ytdlpCommandOrPath.trim(), ...args, ...separator, ...urls];
+  }
+
+  /**
+   * Marks headers and extractor args as sensitive, so they are masked when the command is
+   * built with { redact: true }. Passwords, credentials in proxy and video URLs, and the
+   * Authorization, Proxy-Authorization and Cookie headers are always masked.
+   * @param options The header fields, and the extractor args as "IE_KEY:KEY" or "KEY".
+   * @returns The current instance of YtdlpCommandBuilder.
+   */
+  sensitive(options: SensitiveOptions) {
+    const { headers = [], extractorArgs = [] } = options;
+    if ([...headers, ...extractorArgs].some((name) => typeof name !== 'string' || !name.trim())) {
+      throw new Error('Sensitive names must be non-empty strings');
+    }
+    this.sensitiveNames.headers.push(...headers.map((name) => name.trim()));
+    this.sensitiveNames.extractorArgs.push(...extractorArgs.map((name) => name.trim()));
+    return this;
+  }
+
+  /**
+   * Gets the arguments, derived from the options in the order they were added.
+   */
+  private get args() {
+    return this.entries.flatMap((entry) => [entry.option, ...entry.values]);
+  }
+
+  /**
+   * Formats the command as a yt-dlp config file, for configLocations() or the default config
+   * locations. Every option goes on its own line, followed by the URLs; the program and
+   * options set from a secret provider are left out.
+   * @param options Config file options, e.g. a comment for the top of the file.
+   * @returns The config file contents.
+   */
+  toConfigFile(options?: ConfigFileOptions) {
+    const lines = this.entries
+      .filter((entry) => !entry.secret)
+      .map((entry) => [entry.option, ...entry.values]);
+    if (this.urlArgs.some((url) => url.startsWith('-')) && !this.args.includes('--')) {
+      lines.push(['--']);
+    }
+    lines.push(...this.urlArgs.map((url) => [url]));
+    return formatConfigFile(lines, options?.comment);
+  }
+
   /**
    * Combines the base command and arguments into a complete command string.
+   * @param options Build options, e.g. the shell dialect to quote for.
    */
-  private combine() {
-    this.completeCommand = this.ytdlpCommandOrPath.concat(' ').concat(this.args.join(' ').trim());
+  private combine(options?: BuildOptions) {
+    this.completeCommand = joinShellCommand(
+      this.argv(options?.redact ?? false),
+      options?.shell ?? 'posix'
+    );
   }
 
   /**
    * Gets the command components.
+   * @param options Build options used for the complete command string and, with redact, the
+   * arguments.
    * @returns An object containing the base command, arguments, and complete command string.
    */
-  get() {
-    this.combine();
+  get(options?: BuildOptions) {
+    this.combine(options);
     return {
       baseCommand: this.ytdlpCommandOrPath.trim(),
-      args: this.args,
+      args: this.argv(options?.redact ?? false).slice(1),
       completeCommand: this.completeCommand.trim()
     };
   }
 
   /**
-   * Adds an argument to the command.
+   * Runs the command without a shell.
+   * @param options Run options: an AbortSignal, the kill signal, working directory and environment.
+   * @returns The running YtdlpProcess. Listen for its events, and await it for the exit code
+   * and collected output.
+   */
+  run(options?: RunOptions) {
+    const async = this.entries.some((entry) => typeof entry.secret === 'function');
+    return new YtdlpProcess(async ? this.buildArgvAsync() : this.buildArgv(), options);
+  }
+
+  /**
+   * Gets the arguments that were added verbatim with passthrough().
+   * @returns A copy of the passthrough arguments, in the order they were added.
+   */
+  getPassthroughArgs() {
+    return this.entries
+      .filter((entry) => entry.passthrough)
+      .flatMap((entry) => [entry.option, ...entry.values]);
+  }
+
+  /**
+   * Gets the compat options in effect, with groups expanded into their options and exclusions
+   * applied, across every use of compatOptions().
+   * @returns The enabled compat options, in the order they were enabled.
+   */
+  getCompatOptions() {
+    return this.entries
+      .filter((entry) => entry.option === '--compat-options' && !entry.passthrough)
+      .reduce<CompatOption[]>(
+        (enabled, entry) => expandCompatOptions(entry.values[0].split(','), enabled),
+        []
+      );
+  }
+
+  /**
+   * Finds every pair or group of options that contradict each other, e.g. --embed-subs and
+   * --no-embed-subs, whatever the conflict policy.
+   * @returns The issues, one per conflicting group.
+   */
+  validate() {
+    return findConflicts(this.args);
+  }
+
+  /**
+   * Checks the command for conflicting options and for options that are missing an option
+   * they depend on, e.g. audioFormat() without extractAudio().
+   * @returns The diagnostics, each with a severity of 'error', 'warning' or 'info'.
+   */
+  lint() {
+    return lintOptions(this.args);
+  }
+
+  /**
+   * Adds arguments verbatim, for options this builder has no method for.
+   * @param args The arguments to add.
+   * @returns The current instance of YtdlpCommandBuilder.
+   */
+  passthrough(...args: string[]) {
+    if (args.length === 0) {
+      throw new Error('At least one argument must be provided');
+    }
+    const end = args.includes('--') ? args.indexOf('--') : args.length;
+    for (const arg of args.slice(0, end)) {
+      if (arg.startsWith('--')) {
+        this.checkSupported(arg.split('=')[0]);
+      }
+      if (this.isConflicting(arg)) {
+        this.resolveConflicts(arg);
+      }
+    }
+    const [option, ...values] = args;
+    this.entries.push({ option, values, passthrough: true });
+    return this;
+  }
+
+  /**
+   * Adds an argument to the command: a value of the last option while it takes more,
+   * otherwise a new option.
    * @param arg The argument to add.
    */
   private add(arg: string) {
-    this.args.push(arg);
+    const last = this.entries[this.entries.length - 1];
+    if (last && !last.passthrough && last.values.length < (getOptionArity(last.option) ?? 0)) {
+      last.values.push(arg);
+      return;
+    }
+    this.checkSupported(arg);
+    if (this.isConflicting(arg)) {
+      this.resolveConflicts(arg);
+    }
+    this.entries.push({ option: arg, values: [] });
+  }
+
+  /**
+   * Adds the value of an option that may come from a secret provider. The builder holds a
+   * placeholder until the command is built.
+   * @param value The value, or the secret provider.
+   */
+  private addSecret(value: string | SecretProvider) {
+    if (!isSecretProvider(value)) {
+      this.add(value);
+      return;
+    }
+    this.add(SECRET_PLACEHOLDER);
+    this.entries[this.entries.length - 1].secret = value;
+  }
+
+  /**
+   * Applies the unsupported option policy if the target version lacks an option.
+   * @param option The option being added.
+   */
+  private checkSupported(option: string) {
+    const message = this.targetVersion && findUnsupportedOption(option, this.targetVersion);
+    if (!message) {
+      return;
+    }
+    if (this.unsupportedOptions === 'throw') {
+      throw new Error(message);
+    }
+    this.warn(message);
+  }
+
+  /**
+   * Checks whether an option is in the conflict table and used before any "--" separator.
+   * @param option The option being added.
+   */
+  private isConflicting(option: string) {
+    return OPTION_CONFLICTS.some((group) => group.includes(option)) && !this.args.includes('--');
+  }
+
+  /**
+   * Removes options, so the methods that added them can be called again.
+   * @param predicate Selects the entries to remove.
+   */
+  private remove(predicate: (entry: OptionEntry) => boolean) {
+    for (const entry of this.entries.filter(predicate)) {
+      if (entry.method) {
+        this.methodCalled.delete(entry.method);
+      }
+    }
+    this.entries = this.entries.filter((entry) => !predicate(entry));
+  }
+
+  /**
+   * Applies the conflict policy to the options an option conflicts with.
+   * @param option The option being added.
+   */
+  private resolveConflicts(option: string) {
+    const groups = OPTION_CONFLICTS.filter((group) => group.includes(option));
+    const conflicting = (entry: OptionEntry) =>
+      entry.option !== option && groups.some((group) => group.includes(entry.option));
+    const others = this.entries.filter(conflicting).map((entry) => entry.option);
+    if (others.length === 0) {
+      return;
+    }
+    const message = conflictMessage(option, [...new Set(others)]);
+    if (this.conflicts === 'throw') {
+      throw new Error(message);
+    }
+    if (this.conflicts === 'warn') {
+      this.warn(message);
+    }
+    if (this.conflicts !== 'last-wins') {
+      return;
+    }
+    this.remove(conflicting);
+  }
+
+  /**
+   * Reports a warning through the onWarning option, or console.warn without one.
+   * @param message The warning.
+   */
+  private warn(message: string) {
+    (this.onWarning ?? console.warn)(message);
   }
 
   /**
@@ -89,6 +641,10 @@ export class YtdlpCommandBuilder {
    */
   private called(methodName: string) {
     this.methodCalled.set(methodName, true);
+    const last = this.entries[this.entries.length - 1];
+    if (last && !last.passthrough && !last.method) {
+      last.method = methodName;
+    }
   }
 
   /**
@@ -102,6 +658,23 @@ export class YtdlpCommandBuilder {
     this.called(methodName);
   }
 
+  /**
+   * Validates an output template, keeping strings as written.
+   * @param template The template string or OutputTemplate.
+   * @param emptyMessage The error message for an empty template.
+   * @returns The template string.
+   */
+  private template(template: string | OutputTemplate, emptyMessage: string) {
+    const value = template ? String(template) : '';
+    if (!value || !value.trim()) {
+      throw new Error(emptyMessage);
+    }
+    if (typeof template === 'string') {
+      OutputTemplate.parse(template);
+    }
+    return value;
+  }
+
   /**
    * Print this help text and exit
    * @return The current instance of YtdlpCommandBuilder.
@@ -141,23 +714,26 @@ export class YtdlpCommandBuilder {
   /**
    * Upgrade/downgrade to a specific version. CHANNEL can be a repository as well. CHANNEL and TAG default to "stable" and "latest" respectively if omitted; See "UPDATE" for details in the yt-dlp README. Supported channels: stable, nightly, master
    * @param channel Channel to update to from 'stable' | 'nightly' | 'master'. Defaults to 'stable'.
-   * @param tag Tag to update to. Defaults to 'latest'.
+   * An empty string gives "@TAG", the tag on the current channel.
+   * @param tag Tag to update to. Defaults to 'latest'. An empty string gives the channel alone,
+   * which yt-dlp reads as a channel, or else as a tag on the current channel.
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  updateTo(channel: ReleaseChannel = 'stable', tag: 'latest' | string = 'latest') {
-    if (!channel) {
-      throw new Error('Channel was not provided');
+  updateTo(channel: ReleaseChannel | '' = 'stable', tag: 'latest' | string = 'latest') {
+    if (!channel && !tag) {
+      throw new Error('Channel or tag must be provided');
     }
 
     this.isCalled('updateTo');
     this.add('--update-to');
-    this.add(`${channel}@${tag}`);
+    this.add(tag ? `${channel}@${tag}` : channel);
     this.called('updateTo');
     return this;
   }
 
   /**
-   * Add the URL of a source.
+   * Add the URL of a source. Can be called multiple times. URLs are placed after the options,
+   * behind a "--" separator if any of them starts with "-".
    * @param url URL of a source.
    * @returns The current instance of YtdlpCommandBuilder.
    */
@@ -165,12 +741,56 @@ export class YtdlpCommandBuilder {
     if (!url || !url.trim()) {
       throw new Error('URL must be provided');
     }
-    this.isCalled('url');
-    this.add(url);
-    this.called('url');
+    this.urlArgs.push(url);
     return this;
   }
 
+  /**
+   * Add the URLs of several sources.
+   * @param urls URLs of the sources.
+   * @returns The current instance of YtdlpCommandBuilder.
+   */
+  urls(urls: string[]) {
+    if (!urls || urls.length === 0) {
+      throw new Error('At least one URL must be provided');
+    }
+    for (const url of urls) {
+      this.url(url);
+    }
+    return this;
+  }
+
+  /**
+   * Add a search as a source, e.g. "ytsearch5:never gonna give you up" for the first five
+   * YouTube results. Use defaultSearch() instead to search for every unqualified URL.
+   * @param query The search terms.
+   * @param options The site to search and how many results to download.
+   * @returns The current instance of YtdlpCommandBuilder.
+   */
+  search(query: string, options?: SearchOptions) {
+    if (!query || !query.trim()) {
+      throw new Error('Search query must be provided');
+    }
+    const prefix: SearchPrefix = options?.prefix ?? 'ytsearch';
+    if (!SEARCH_PREFIXES.includes(prefix)) {
+      throw new Error(`Unknown search prefix "${prefix}"`);
+    }
+    const count = options?.count ?? 1;
+    if (count !== 'all' && (!Number.isInteger(count) || count < 1)) {
+      throw new Error('Search count must be a positive integer or "all"');
+    }
+    this.url(`${prefix}${count === 1 ? '' : count}:${query}`);
+    return this;
+  }
+
+  /**
+   * Gets the URLs added with url(), urls() and search().
+   * @returns A copy of the URLs, in the order they were added.
+   */
+  getUrls() {
+    return [...this.urlArgs];
+  }
+
   /**
    * Ignore download and postprocessing errors. The download will be considered successful even if the postprocessing fails
    * @returns The current instance of YtdlpCommandBuilder.
@@ -245,10 +865,10 @@ export class YtdlpCommandBuilder {
 
   /**
    * Use this prefix for unqualified URLs. E.g. "gvsearch2:python" downloads two videos from google videos for the search term "python". Use the value "auto" to let yt-dlp guess ("auto_warning" to emit a warning when guessing). "error" just throws an error. The default value "fixup_error" repairs broken URLs, but emits an error if this is not possible instead of searching
-   * @param prefix prefix Search prefix to use for unqualified URLs.
+   * @param prefix prefix Search prefix to use for unqualified URLs, e.g. "ytsearch" or "gvsearch2".
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  defaultSearch(prefix: string) {
+  defaultSearch(prefix: SearchPrefix | 'auto' | 'auto_warning' | 'error' | 'fixup_error' | string) {
     if (!prefix || !prefix.trim()) {
       throw new Error('Default search prefix must be provided');
     }
@@ -552,6 +1172,26 @@ export class YtdlpCommandBuilder {
     return this;
   }
 
+  /**
+   * Options that can help keep compatibility with youtube-dl or youtube-dlc configurations by
+   * reverting some of the changes made in yt-dlp. See "Differences in default behavior" for
+   * details. Groups such as "2022" or "youtube-dl" stand for several options, and a "-"
+   * prefix excludes an option or group. This option can be used multiple times.
+   * @param options The compat options, as a list or separated by commas.
+   * @returns The current instance of YtdlpCommandBuilder.
+   */
+  compatOptions(options: CompatOptionValue | readonly CompatOptionValue[]): this;
+  compatOptions(options: string): this;
+  compatOptions(options: string | readonly string[]) {
+    const values = typeof options === 'string' ? options.split(',') : [...options];
+    if (!values.some((value) => value.trim())) {
+      throw new Error('Compat options must be provided');
+    }
+    this.add('--compat-options');
+    this.add(values.map(normalizeCompatOption).join(','));
+    return this;
+  }
+
   /**
    * Create aliases for an option string.
    * Unless an alias starts with a dash "-", it is prefixed with "--".
@@ -619,6 +1259,27 @@ export class YtdlpCommandBuilder {
     return this;
   }
 
+  /**
+   * Applies a preset registered with registerPreset(), or one of the shipped presets that
+   * expand yt-dlp's preset aliases into builder calls: mp3, aac, mp4, mkv and sleep.
+   * Unlike presetAlias(), the options end up in the command, so they can be read, unset or
+   * checked for conflicts. If the preset throws, the builder is left unchanged.
+   * @param name The preset name.
+   * @param params The preset parameters, for presets that take them.
+   * @returns The current instance of YtdlpCommandBuilder.
+   */
+  preset<N extends PresetName>(name: N, ...params: PresetArgs<N>): this;
+  preset(name: string, params?: unknown): this;
+  preset(name: string, params?: unknown) {
+    const copy = this.copy();
+    applyPreset(copy, name, params);
+    this.entries = copy.entries;
+    this.methodCalled = copy.methodCalled;
+    this.urlArgs = copy.urlArgs;
+    this.sensitiveNames = copy.sensitiveNames;
+    return this;
+  }
+
   /**
    * Use the specified HTTP/HTTPS/SOCKS proxy.
    * To enable SOCKS proxy, specify a proper scheme,
@@ -915,16 +1576,21 @@ export class YtdlpCommandBuilder {
    *
    * Use "--match-filters -" to interactively ask whether to download each video.
    *
-   * @param filter Filter string.
+   * @param filter Filter string or MatchFilter. Pass an array to add one --match-filters per
+   * item, so a video is downloaded when any of them matches. Strings are validated with MatchFilter.parse() and kept as written.
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  matchFilters(filter: string) {
-    if (!filter || !filter.trim()) {
+  matchFilters(filter: string | MatchFilter | (string | MatchFilter)[]) {
+    const filters = (Array.isArray(filter) ? filter : [filter]).map(String);
+    if (filters.length === 0 || filters.some((value) => !value || !value.trim())) {
       throw new Error('Match filter must be provided');
     }
+    checkMatchFilters(filter);
 
-    this.add('--match-filters');
-    this.add(filter);
+    for (const value of filters) {
+      this.add('--match-filters');
+      this.add(value);
+    }
 
     return this;
   }
@@ -943,16 +1609,21 @@ export class YtdlpCommandBuilder {
    * Same as "--match-filters" but stops the download process
    * when a video is rejected.
    *
-   * @param filter Filter string.
+   * @param filter Filter string or MatchFilter. Pass an array to add one --break-match-filters
+   * per item. Strings are validated with MatchFilter.parse() and kept as written.
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  breakMatchFilters(filter: string) {
-    if (!filter || !filter.trim()) {
+  breakMatchFilters(filter: string | MatchFilter | (string | MatchFilter)[]) {
+    const filters = (Array.isArray(filter) ? filter : [filter]).map(String);
+    if (filters.length === 0 || filters.some((value) => !value || !value.trim())) {
       throw new Error('Break match filter must be provided');
     }
+    checkMatchFilters(filter);
 
-    this.add('--break-match-filters');
-    this.add(filter);
+    for (const value of filters) {
+      this.add('--break-match-filters');
+      this.add(value);
+    }
 
     return this;
   }
@@ -1377,27 +2048,37 @@ export class YtdlpCommandBuilder {
    * to download multiple sections, e.g. --download-sections "*10:15-inf"
    * --download-sections "intro"
    *
+   * Sections can also be given as objects: { start, end } for a time range (timestamps in
+   * seconds or as strings), { chapters } for a chapter regex and 'from-url'. Time ranges must
+   * start before they end and must not overlap ranges from earlier calls.
+   *
    * @param regex The regular expression for chapters or a time-range prefixed with "*".
    * @returns The current instance of YtdlpCommandBuilder.
    */
   downloadSections(regex: string): this;
-  downloadSections(range: { start?: string; end?: string }): this;
-  downloadSections(arg: string | { start?: string; end?: string }) {
-    this.add('--download-sections');
-
-    if (typeof arg === 'string') {
+  downloadSections(section: DownloadSection | DownloadSection[]): this;
+  downloadSections(arg: string | DownloadSection | DownloadSection[]) {
+    let values: string[];
+    if (typeof arg === 'string' && arg !== 'from-url') {
       if (!arg.trim()) {
         throw new Error('Regex must be provided');
       }
-      this.add(arg.trim());
+      values = [arg.trim()];
     } else {
-      const { start, end } = arg;
-      if (!start && !end) {
-        throw new Error('Range must include start and/or end');
+      values = formatDownloadSections(Array.isArray(arg) ? arg : [arg]);
+      if (!values.length) {
+        throw new Error('At least one section must be provided');
       }
-      this.add(start && end ? `*${start}-${end}` : start ? `*${start}-inf` : `*00:00:00-${end}`);
     }
-
+    const earlier = this.entries
+      .filter(({ option }) => option === '--download-sections')
+      .flatMap((entry) => entry.values);
+    validateDownloadSections([...earlier, ...values]);
+
+    for (const value of values) {
+      this.add('--download-sections');
+      this.add(value);
+    }
     return this;
   }
 
@@ -1436,11 +2117,20 @@ export class YtdlpCommandBuilder {
    * You can use this option multiple times to give different arguments to
    * different downloaders (Alias: --external-downloader-args)
    *
-   * @param name Downloader name (e.g., "aria2c", "ffmpeg").
+   * Pass { downloader, position, args } to have the arguments quoted and the names checked,
+   * e.g. { downloader: 'ffmpeg', position: { input: 1 }, args: ['-ss', '10'] }.
+   *
+   * @param name Downloader name (e.g., "aria2c", "ffmpeg"), or the structured arguments.
    * @param args Arguments string to pass to the downloader.
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  downloaderArgs(name: DownloaderName | string, args: string) {
+  downloaderArgs(options: DownloaderArgs): this;
+  downloaderArgs(name: DownloaderName | string, args: string): this;
+  downloaderArgs(nameOrOptions: DownloaderName | string | DownloaderArgs, args?: string) {
+    if (nameOrOptions && typeof nameOrOptions === 'object') {
+      [nameOrOptions, args] = formatDownloaderArgs(nameOrOptions);
+    }
+    const name = nameOrOptions;
     if (!name || !name.trim()) {
       throw new Error('Downloader name must be provided');
     }
@@ -1502,14 +2192,13 @@ export class YtdlpCommandBuilder {
 
   /**
    * Output filename template; see "OUTPUT TEMPLATE" for details in the yt-dlp README.
-   * @param template The template string (e.g., "%(title)s.%(ext)s").
+   * @param template The template string (e.g., "%(title)s.%(ext)s") or an OutputTemplate.
    * @param type Optional type of file (e.g., "subtitle", "thumbnail").
    * @returns The current instance of YtdlpCommandBuilder.
+   * @throws YtdlpSyntaxError if a template string has a malformed placeholder.
    */
-  output(template: string, type?: PathType) {
-    if (!template || !template.trim()) {
-      throw new Error('Output template must be provided');
-    }
+  output(template: string | OutputTemplate, type?: PathType) {
+    template = this.template(template, 'Output template must be provided');
 
     const value = type ? `${type}:${template}` : template;
     this.add('--output');
@@ -1581,6 +2270,64 @@ export class YtdlpCommandBuilder {
     return this;
   }
 
+  /**
+   * Previews the path yt-dlp would write a file to, without running it. Uses the output()
+   * template for the type (or yt-dlp's default), outputNaPlaceholder(), restrictFilenames(),
+   * windowsFilenames(), trimFilenames() and paths() set on this command.
+   * @param info The info dict, e.g. from dumpJson() output.
+   * @param type Optional type of file (e.g., "thumbnail", "infojson").
+   * @param options Optional platform whose path rules apply, and the autonumber value.
+   * @returns The file path.
+   */
+  previewFilename(
+    info: InfoJson | Record<string, unknown>,
+    type?: PathType,
+    options?: Pick<FilenamePreviewOptions, 'platform' | 'autonumber'>
+  ) {
+    const templates: Partial<Record<string, string>> = { ...DEFAULT_OUTPUT_TEMPLATES };
+    const paths: Partial<Record<PathType, string>> = {};
+    const preview: FilenamePreviewOptions = { ...options, type, paths };
+    // yt-dlp reads "TYPES:VALUE" only when the prefix is a known type.
+    const split = (value: string): [string, string] => {
+      const match = /^(\w+):(.*)$/s.exec(value);
+      return match && PATH_TYPES.includes(match[1] as PathType)
+        ? [match[1], match[2]]
+        : ['', value];
+    };
+    for (const {
+      option,
+      values: [value]
+    } of this.entries) {
+      switch (option) {
+        case '--output': {
+          const [outputType, template] = split(value);
+          templates[outputType || 'default'] = template;
+          break;
+        }
+        case '--paths': {
+          const [pathType, path] = split(value);
+          paths[(pathType || 'home') as PathType] = path;
+          break;
+        }
+        case '--output-na-placeholder':
+          preview.naPlaceholder = value;
+          break;
+        case '--trim-filenames':
+          preview.trimFilenames = Number(value);
+          break;
+        case '--restrict-filenames':
+        case '--no-restrict-filenames':
+          preview.restrictFilenames = option === '--restrict-filenames';
+          break;
+        case '--windows-filenames':
+        case '--no-windows-filenames':
+          preview.windowsFilenames = option === '--windows-filenames';
+          break;
+      }
+    }
+    return previewFilename(templates[type ?? 'default'] ?? templates.default, info, preview);
+  }
+
   /**
    * Do not overwrite any files
    * @returns The current instance of YtdlpCommandBuilder.
@@ -2024,11 +2771,10 @@ export class YtdlpCommandBuilder {
    * @param template Field name or output template.
    * @param when Optional prefix defining when to print it.
    * @returns The current instance of YtdlpCommandBuilder.
+   * @throws YtdlpSyntaxError if a template string has a malformed placeholder.
    */
-  print(template: string, when?: PrintWhen) {
-    if (!template || !template.trim()) {
-      throw new Error('Print template must be provided');
-    }
+  print(template: string | OutputTemplate, when?: PrintWhen) {
+    template = this.template(template, 'Print template must be provided');
     const value = when ? `${when}:${template}` : template;
     this.add('--print');
     this.add(value);
@@ -2041,14 +2787,11 @@ export class YtdlpCommandBuilder {
    * @param file The file path to append to.
    * @param when Optional prefix defining when to print it.
    * @returns The current instance of YtdlpCommandBuilder.
+   * @throws YtdlpSyntaxError if a template string has a malformed placeholder.
    */
-  printToFile(template: string, file: string, when?: PrintWhen) {
-    if (!template || !template.trim()) {
-      throw new Error('Print template must be provided');
-    }
-    if (!file || !file.trim()) {
-      throw new Error('File path must be provided');
-    }
+  printToFile(template: string | OutputTemplate, file: string | OutputTemplate, when?: PrintWhen) {
+    template = this.template(template, 'Print template must be provided');
+    file = this.template(file, 'File path must be provided');
     const value = when ? `${when}:${template}` : template;
     this.add('--print-to-file');
     this.add(value);
@@ -2135,6 +2878,23 @@ export class YtdlpCommandBuilder {
     return this;
   }
 
+  /**
+   * Print download and post-processing progress as one line of JSON per update, which
+   * parseProgress() and run() turn into DownloadProgress and PostprocessProgress objects.
+   * Adds --newline (unless already added) and a --progress-template for each.
+   * @returns The current instance of YtdlpCommandBuilder.
+   */
+  jsonProgress() {
+    this.isCalled('jsonProgress');
+    if (!this.methodCalled.get('newline')) {
+      this.newline();
+    }
+    this.progressTemplate(DOWNLOAD_PROGRESS_TEMPLATE, 'download');
+    this.progressTemplate(POSTPROCESS_PROGRESS_TEMPLATE, 'postprocess');
+    this.called('jsonProgress');
+    return this;
+  }
+
   /**
    * Time between progress output (default: 0)
    * @param seconds Number of seconds.
@@ -2311,29 +3071,43 @@ export class YtdlpCommandBuilder {
 
   /**
    * Video format code, see "FORMAT SELECTION" for more details in the yt-dlp README.
-   * @param format Video format code.
+   * Format strings are validated with FormatSelector.parse() and kept as written.
+   * @param format Video format code, or a FormatSelector.
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  format(format: string) {
-    if (!format || !format.trim()) {
+  format(format: string | FormatSelector) {
+    const value = String(format);
+    if (!value || !value.trim()) {
       throw new Error('Format must be provided');
     }
+    if (typeof format === 'string') {
+      FormatSelector.parse(format);
+    }
     this.once('format', '--format');
-    this.add(format);
+    this.add(value);
     return this;
   }
 
   /**
    * Sort the formats by the fields given, see "Sorting Formats" for more details in the yt-dlp README.
-   * @param sortOrder Sort order string.
+   * Sort order strings are validated with FormatSort.parse(), so unknown fields are rejected.
+   * @param sortOrder Sort order string, or a FormatSort.
+   * @param options Set force to also add --format-sort-force (see formatSortForce()).
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  formatSort(sortOrder: string) {
-    if (!sortOrder || !sortOrder.trim()) {
+  formatSort(sortOrder: string | FormatSort, options?: { force?: boolean }) {
+    if (typeof sortOrder === 'string' && (!sortOrder || !sortOrder.trim())) {
+      throw new Error('Sort order must be provided');
+    }
+    const value = String(typeof sortOrder === 'string' ? FormatSort.parse(sortOrder) : sortOrder);
+    if (!value) {
       throw new Error('Sort order must be provided');
     }
     this.once('formatSort', '--format-sort');
-    this.add(sortOrder);
+    this.add(value);
+    if (options?.force) {
+      this.formatSortForce();
+    }
     return this;
   }
 
@@ -2537,29 +3311,29 @@ export class YtdlpCommandBuilder {
 
   /**
    * Login with this account ID
-   * @param username The account ID to login with.
+   * @param username The account ID to login with, or a secret provider that reads it when the command is built.
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  username(username: string) {
-    if (!username || !username.trim()) {
+  username(username: string | SecretProvider) {
+    if (!isSecretProvider(username) && (typeof username !== 'string' || !username.trim())) {
       throw new Error('Username must be provided');
     }
     this.once('username', '--username');
-    this.add(username);
+    this.addSecret(username);
     return this;
   }
 
   /**
    * Account password. If this option is left out, yt-dlp will ask interactively
-   * @param password The account password.
+   * @param password The account password, or a secret provider that reads it when the command is built.
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  password(password: string) {
-    if (!password || !password.trim()) {
+  password(password: string | SecretProvider) {
+    if (!isSecretProvider(password) && (typeof password !== 'string' || !password.trim())) {
       throw new Error('Password must be provided');
     }
     this.once('password', '--password');
-    this.add(password);
+    this.addSecret(password);
     return this;
   }
 
@@ -2616,15 +3390,15 @@ export class YtdlpCommandBuilder {
 
   /**
    * Video-specific password
-   * @param password The video-specific password.
+   * @param password The video-specific password, or a secret provider that reads it when the command is built.
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  videoPassword(password: string) {
-    if (!password || !password.trim()) {
+  videoPassword(password: string | SecretProvider) {
+    if (!isSecretProvider(password) && (typeof password !== 'string' || !password.trim())) {
       throw new Error('Video password must be provided');
     }
     this.once('videoPassword', '--video-password');
-    this.add(password);
+    this.addSecret(password);
     return this;
   }
 
@@ -2658,15 +3432,15 @@ export class YtdlpCommandBuilder {
 
   /**
    * Multiple-system operator account password. If this option is left out, yt-dlp will ask interactively
-   * @param password The MSO account password.
+   * @param password The MSO account password, or a secret provider that reads it when the command is built.
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  apPassword(password: string) {
-    if (!password || !password.trim()) {
+  apPassword(password: string | SecretProvider) {
+    if (!isSecretProvider(password) && (typeof password !== 'string' || !password.trim())) {
       throw new Error('AP password must be provided');
     }
     this.once('apPassword', '--ap-password');
-    this.add(password);
+    this.addSecret(password);
     return this;
   }
 
@@ -2709,15 +3483,15 @@ export class YtdlpCommandBuilder {
 
   /**
    * Password for client certificate private key, if encrypted. If not provided, and the key is encrypted, yt-dlp will ask interactively
-   * @param password The certificate key password.
+   * @param password The certificate key password, or a secret provider that reads it when the command is built.
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  clientCertificatePassword(password: string) {
-    if (!password || !password.trim()) {
+  clientCertificatePassword(password: string | SecretProvider) {
+    if (!isSecretProvider(password) && (typeof password !== 'string' || !password.trim())) {
       throw new Error('Certificate password must be provided');
     }
     this.once('clientCertificatePassword', '--client-certificate-password');
-    this.add(password);
+    this.addSecret(password);
     return this;
   }
 
@@ -2788,11 +3562,25 @@ export class YtdlpCommandBuilder {
 
   /**
    * Give these arguments to the postprocessors. Specify the postprocessor/executable name and the arguments separated by a colon ":" to give the argument to the specified postprocessor/executable. Supported PP are: Merger, ModifyChapters, SplitChapters, ExtractAudio, VideoRemuxer, VideoConvertor, Metadata, EmbedSubtitle, EmbedThumbnail, SubtitlesConvertor, ThumbnailsConvertor, FixupStretched, FixupM4a, FixupM3u8, FixupTimestamp and FixupDuration. The supported executables are: AtomicParsley, FFmpeg and FFprobe. You can also specify "PP+EXE:ARGS" to give the arguments to the specified executable only when being used by the specified postprocessor. Additionally, for ffmpeg/ffprobe, "_i"/"_o" can be appended to the prefix optionally followed by a number to pass the argument before the specified input/output file, e.g. --ppa "Merger+ffmpeg_i1:-v quiet". You can use this option multiple times to give different arguments to different postprocessors. (Alias: --ppa)
-   * @param name Postprocessor or executable name (optionally with EXE and IO prefix).
+   *
+   * Pass { postprocessor, executable, position, args } to have the arguments quoted and the
+   * names checked, e.g. { postprocessor: 'Merger', executable: 'FFmpeg', position: { input: 1 },
+   * args: ['-v', 'quiet'] }.
+   * @param name Postprocessor or executable name (optionally with EXE and IO prefix), or the
+   * structured arguments.
    * @param args The arguments to pass.
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  postprocessorArgs(name: PostProcessorName | PostProcessorExecutable | string, args: string) {
+  postprocessorArgs(options: PostProcessorArgs): this;
+  postprocessorArgs(name: PostProcessorName | PostProcessorExecutable | string, args: string): this;
+  postprocessorArgs(
+    nameOrOptions: PostProcessorName | PostProcessorExecutable | string | PostProcessorArgs,
+    args?: string
+  ) {
+    if (nameOrOptions && typeof nameOrOptions === 'object') {
+      [nameOrOptions, args] = formatPostprocessorArgs(nameOrOptions);
+    }
+    const name = nameOrOptions;
     if (!name || !name.trim()) {
       throw new Error('Postprocessor name must be provided');
     }
@@ -3271,20 +4059,106 @@ export class YtdlpCommandBuilder {
 
   /**
    * Pass ARGS arguments to the IE_KEY extractor. See "EXTRACTOR ARGUMENTS" for details in the yt-dlp README. You can use this option multiple times to give arguments for different extractors
+   *
+   * Arguments can be given as a "KEY=VALUE,VALUE;KEY=VALUE" string or as an object, typed for
+   * youtube, youtubetab, generic, twitch, vimeo and instagram, e.g.
+   * { player_client: ['web', 'android'], lang: 'en' }. Repeated calls for the same extractor
+   * are merged into one --extractor-args, later keys replacing earlier ones.
    * @param ieKey The extractor key (e.g., "youtube", "twitch").
-   * @param args The arguments string for the extractor.
+   * @param args The arguments string or object for the extractor.
    * @returns The current instance of YtdlpCommandBuilder.
    */
-  extractorArgs(ieKey: string, args: string) {
+  extractorArgs<K extends keyof ExtractorArgsMap>(
+    ieKey: K,
+    args: ExtractorArgsMap[K] | string
+  ): this;
+  extractorArgs(ieKey: string, args: ExtractorArgs | string): this;
+  extractorArgs(ieKey: string, args: ExtractorArgs | string) {
     if (!ieKey || !ieKey.trim()) {
       throw new Error('Extractor key must be provided');
     }
-    if (!args || !args.trim()) {
+    const value = typeof args === 'string' ? args : args && formatExtractorArgs(args);
+    if (!value || !value.trim()) {
       throw new Error('Extractor arguments must be provided');
     }
 
+    const key = ieKey.toLowerCase();
+    const existing = this.entries.find(
+      (entry) =>
+        entry.option === '--extractor-args' &&
+        !entry.passthrough &&
+        entry.values[0].toLowerCase().startsWith(`${key}:`)
+    );
+    if (existing) {
+      const earlier = existing.values[0].slice(key.length + 1);
+      existing.values[0] = `${existing.values[0].slice(0, key.length)}:${mergeExtractorArgs(earlier, value)}`;
+      return this;
+    }
+
     this.add('--extractor-args');
-    this.add(`${ieKey}:${args}`);
+    this.add(`${ieKey}:${value}`);
     return this;
   }
 }
+
+/**
+ * Wraps a builder so that every method call runs on a copy. Fluent calls return the copy,
+ * itself wrapped, so the wrapped builder never changes.
+ * @param builder The builder to wrap.
+ * @returns The wrapped builder.
+ */
+function immutableView(builder: YtdlpCommandBuilder): YtdlpCommandBuilder {
+  return new Proxy(builder, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || property === 'constructor') {
+        return value;
+      }
+      return (...args: unknown[]) => {
+        const copy = (target as unknown as { copy(): YtdlpCommandBuilder }).copy();
+        const result = Reflect.apply(value, copy, args);
+        return result === copy ? immutableView(copy) : result;
+      };
+    },
+    set() {
+      throw new TypeError('Cannot modify an immutable YtdlpCommandBuilder');
+    }
+  });
+}
+
+/**
+ * Picks the options of a new builder from parse or builder options.
+ * @param options The options.
+ * @returns The builder options, without immutable: builders are made immutable once loaded.
+ */
+function builderOptions(options?: BuilderOptions): BuilderOptions {
+  return {
+    conflicts: options?.conflicts,
+    onWarning: options?.onWarning,
+    targetVersion: options?.targetVersion,
+    unsupportedOptions: options?.unsupportedOptions
+  };
+}
+
+/**
+ * Converts one use of an option to its value in YtdlpOptions.
+ * @param entry The option and its values.
+ * @returns true for a flag, a string for one value, or the values.
+ */
+function toOptionValue(entry: OptionEntry): OptionValue {
+  const arity = getOptionArity(entry.option) ?? entry.values.length;
+  return arity === 0 ? true : arity === 1 ? entry.values[0] : [...entry.values];
+}
+
+/**
+ * Validates match filter strings with MatchFilter.parse(). "-", which asks interactively, is
+ * not a filter and is let through.
+ * @param filter The filters given to matchFilters() or breakMatchFilters().
+ */
+function checkMatchFilters(filter: string | MatchFilter | (string | MatchFilter)[]) {
+  for (const value of Array.isArray(filter) ? filter : [filter]) {
+    if (typeof value === 'string' && value.trim() !== '-') {
+      MatchFilter.parse(value);
+    }
+  }
+}
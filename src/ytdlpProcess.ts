@@ -0,0 +1,283 @@
+import { ChildProcess, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { parseProgress } from './progress.js';
+import type {
+  DestinationEvent,
+  ExitEvent,
+  MergeEvent,
+  PostprocessEvent,
+  Progress,
+  RunOptions,
+  RunResult
+} from './types.js';
+
+export type YtdlpProcessEvents = {
+  progress: [progress: Progress];
+  stdout: [line: string];
+  stderr: [line: string];
+  destination: [event: DestinationEvent];
+  merge: [event: MergeEvent];
+  postprocess: [event: PostprocessEvent];
+  error: [error: Error];
+  exit: [event: ExitEvent];
+};
+
+// Log prefixes of yt-dlp's post-processors.
+const POSTPROCESSOR_NAMES = new Set([
+  'Merger',
+  'ModifyChapters',
+  'SplitChapters',
+  'ExtractAudio',
+  'VideoRemuxer',
+  'VideoConvertor',
+  'Metadata',
+  'EmbedSubtitle',
+  'EmbedThumbnail',
+  'SubtitlesConvertor',
+  'ThumbnailsConvertor',
+  'FixupStretched',
+  'FixupM4a',
+  'FixupM3u8',
+  'FixupTimestamp',
+  'FixupDuration',
+  'MetadataParser',
+  'SponsorBlock',
+  'Exec',
+  'MoveFiles'
+]);
+
+/**
+ * Splits a stream into lines. yt-dlp redraws progress with carriage returns unless
+ * --newline is used, so "\r" ends a line as well.
+ */
+class LineSplitter {
+  private buffer = '';
+
+  constructor(private readonly onLine: (line: string) => void) {}
+
+  push(chunk: string) {
+    const parts = (this.buffer + chunk).split(/\r\n|\r|\n/);
+    this.buffer = parts.pop() ?? '';
+    for (const part of parts) {
+      if (part) {
+        this.onLine(part);
+      }
+    }
+  }
+
+  flush() {
+    if (this.buffer) {
+      this.onLine(this.buffer);
+    }
+    this.buffer = '';
+  }
+}
+
+/**
+ * Checks that an argument vector starts with a program.
+ * @param argv The program followed by its arguments.
+ */
+function checkArgv(argv: string[]) {
+  if (argv.length === 0 || !argv[0]) {
+    throw new Error('Command must include the yt-dlp program');
+  }
+}
+
+/**
+ * A running yt-dlp process. Listen for typed events while it runs, and await it
+ * (or call then()) to get the exit code and the collected output.
+ *
+ * "error" events are only emitted when a listener is attached: yt-dlp errors are
+ * reported per line, and a failure to start or an abort also rejects the run.
+ */
+export class YtdlpProcess
+  extends EventEmitter<YtdlpProcessEvents>
+  implements PromiseLike<RunResult>
+{
+  private child?: ChildProcess;
+  private cancelled = false;
+  private result: Promise<RunResult>;
+  private stdoutChunks: string[] = [];
+  private stderrChunks: string[] = [];
+
+  /**
+   * Spawns yt-dlp without a shell.
+   * @param argv The program followed by its arguments, e.g. from buildArgv(), or a promise
+   * for them, e.g. from buildArgvAsync(). yt-dlp is spawned once the promise resolves.
+   * @param options Run options: an AbortSignal, the kill signal, working directory and environment.
+   */
+  constructor(argv: string[] | Promise<string[]>, options?: RunOptions) {
+    super();
+    if (Array.isArray(argv)) {
+      checkArgv(argv);
+      this.result = this.spawn(argv, options);
+    } else {
+      this.result = argv.then(
+        (resolved) => {
+          checkArgv(resolved);
+          if (this.cancelled) {
+            throw new Error('yt-dlp was killed before it started');
+          }
+          return this.spawn(resolved, options);
+        },
+        (error: Error) => {
+          this.emitError(error);
+          throw error;
+        }
+      );
+    }
+    // Rejections are delivered through then(); don't report them as unhandled.
+    this.result.catch(() => undefined);
+  }
+
+  /**
+   * Spawns yt-dlp and collects its output.
+   * @param argv The program followed by its arguments.
+   * @param options Run options.
+   * @returns A promise for the exit code and collected output.
+   */
+  private spawn(argv: string[], options?: RunOptions) {
+    const child = spawn(argv[0], argv.slice(1), {
+      cwd: options?.cwd,
+      env: options?.env,
+      signal: options?.signal,
+      killSignal: options?.killSignal,
+      windowsHide: true
+    });
+    this.child = child;
+
+    return new Promise<RunResult>((resolve, reject) => {
+      const stdout = new LineSplitter((line) => this.handleStdout(line));
+      const stderr = new LineSplitter((line) => this.handleStderr(line));
+      let failure: Error | undefined;
+
+      child.stdout?.setEncoding('utf-8');
+      child.stderr?.setEncoding('utf-8');
+      child.stdout?.on('data', (chunk: string) => {
+        this.stdoutChunks.push(chunk);
+        stdout.push(chunk);
+      });
+      child.stderr?.on('data', (chunk: string) => {
+        this.stderrChunks.push(chunk);
+        stderr.push(chunk);
+      });
+
+      child.on('error', (error) => {
+        failure ??= error;
+        this.emitError(error);
+        if (child.pid === undefined) {
+          reject(error);
+        }
+      });
+
+      child.on('close', (exitCode, signal) => {
+        stdout.flush();
+        stderr.flush();
+        const exit = { exitCode, signal };
+        this.emit('exit', exit);
+        if (failure) {
+          reject(failure);
+          return;
+        }
+        resolve({ ...exit, stdout: this.getStdout(), stderr: this.getStderr() });
+      });
+    });
+  }
+
+  /**
+   * Gets the process id of yt-dlp.
+   * @returns The process id, or undefined if the process failed to start or has not
+   * started yet.
+   */
+  get pid() {
+    return this.child?.pid;
+  }
+
+  /**
+   * Gets everything yt-dlp has written to stdout so far.
+   * @returns The collected stdout.
+   */
+  getStdout() {
+    return this.stdoutChunks.join('');
+  }
+
+  /**
+   * Gets everything yt-dlp has written to stderr so far.
+   * @returns The collected stderr.
+   */
+  getStderr() {
+    return this.stderrChunks.join('');
+  }
+
+  /**
+   * Sends a signal to yt-dlp.
+   * @param signal The signal to send. Defaults to 'SIGTERM'.
+   * @returns True if the signal was delivered. Before yt-dlp has started, it is not started
+   * at all and the run is rejected.
+   */
+  kill(signal?: NodeJS.Signals) {
+    if (!this.child) {
+      this.cancelled = true;
+      return true;
+    }
+    return this.child.kill(signal);
+  }
+
+  /**
+   * Waits for yt-dlp to exit.
+   * @param onfulfilled Called with the exit code and collected output.
+   * @param onrejected Called if yt-dlp could not be started or the run was aborted.
+   * @returns A promise for the result of whichever callback runs.
+   */
+  then<TResult1 = RunResult, TResult2 = never>(
+    onfulfilled?: ((value: RunResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ) {
+    return this.result.then(onfulfilled, onrejected);
+  }
+
+  private handleStdout(line: string) {
+    this.emit('stdout', line);
+
+    const progress = parseProgress(line);
+    if (progress) {
+      this.emit('progress', progress);
+      return;
+    }
+
+    const destination = /^\[download\] Destination: (.+)$/.exec(line);
+    if (destination) {
+      this.emit('destination', { path: destination[1] });
+      return;
+    }
+
+    const postprocessor = /^\[(\w+)\] (.+)$/.exec(line);
+    if (postprocessor && POSTPROCESSOR_NAMES.has(postprocessor[1])) {
+      const merge = /^Merging formats into "(.+)"$/.exec(postprocessor[2]);
+      if (merge) {
+        this.emit('merge', { path: merge[1] });
+      }
+      // "Destination: FILE", or "Converting video from webm to mp4; Destination: FILE".
+      const destination = /(?:^|; )Destination: (.+)$/.exec(postprocessor[2]);
+      if (destination) {
+        this.emit('destination', { path: destination[1], postprocessor: postprocessor[1] });
+      }
+      this.emit('postprocess', { postprocessor: postprocessor[1], message: postprocessor[2] });
+    }
+  }
+
+  private handleStderr(line: string) {
+    this.emit('stderr', line);
+
+    const error = /^ERROR: (.+)$/.exec(line);
+    if (error) {
+      this.emitError(new Error(error[1]));
+    }
+  }
+
+  private emitError(error: Error) {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+const URL = 'https://www.youtube.com/watch?v=dQw4w9WgXcQ';
+
+test('clone', () => {
+  const base = new YtdlpCommandBuilder().cookies('cookies.txt').proxy('socks5://127.0.0.1:1080');
+  const audio = base.clone().extractAudio().url(URL);
+  const video = base.clone().format('bv+ba').url('https://youtu.be/jNQXAC9IVRw');
+  expect(base.build()).toBe('yt-dlp --cookies cookies.txt --proxy socks5://127.0.0.1:1080');
+  expect(audio.build()).toBe(
+    `yt-dlp --cookies cookies.txt --proxy socks5://127.0.0.1:1080 --extract-audio '${URL}'`
+  );
+  expect(video.build()).toBe(
+    'yt-dlp --cookies cookies.txt --proxy socks5://127.0.0.1:1080 --format bv+ba https://youtu.be/jNQXAC9IVRw'
+  );
+});
+
+test('clone keeps once-only methods guarded', () => {
+  const base = new YtdlpCommandBuilder().extractAudio();
+  expect(() => base.clone().extractAudio()).toThrow('Cannot call extractAudio more than once');
+  expect(new YtdlpCommandBuilder('/usr/bin/yt-dlp').clone().buildArgv()).toStrictEqual([
+    '/usr/bin/yt-dlp'
+  ]);
+});
+
+test('immutable builder', () => {
+  const base = new YtdlpCommandBuilder('yt-dlp', { immutable: true })
+    .cookies('cookies.txt')
+    .retries(10)
+    .paths('/media');
+  const first = base.url(URL);
+  const second = base.extractAudio().url('https://youtu.be/jNQXAC9IVRw');
+  console.log(first.build(), second.build());
+  expect(base.build()).toBe('yt-dlp --cookies cookies.txt --retries 10 --paths /media');
+  expect(first.build()).toBe(`yt-dlp --cookies cookies.txt --retries 10 --paths /media '${URL}'`);
+  expect(second.build()).toBe(
+    'yt-dlp --cookies cookies.txt --retries 10 --paths /media --extract-audio https://youtu.be/jNQXAC9IVRw'
+  );
+  expect(first).toBeInstanceOf(YtdlpCommandBuilder);
+  expect(first).not.toBe(base);
+});
+
+test('immutable builder is unchanged when a call throws', () => {
+  const base = new YtdlpCommandBuilder(undefined, { immutable: true, conflicts: 'throw' }).quiet();
+  expect(() => base.verbose()).toThrow('--verbose conflicts with --quiet');
+  expect(() => base.quiet()).toThrow('Cannot call quiet more than once');
+  expect(base.build()).toBe('yt-dlp --quiet');
+});
+
+test('clone switches between mutable and immutable', () => {
+  const immutable = new YtdlpCommandBuilder().noPlaylist().clone({ immutable: true });
+  immutable.noProgress();
+  expect(immutable.build()).toBe('yt-dlp --no-playlist');
+  const mutable = immutable.clone({ immutable: false });
+  mutable.noProgress();
+  expect(mutable.build()).toBe('yt-dlp --no-playlist --no-progress');
+  expect(immutable.clone().noProgress().build()).toBe('yt-dlp --no-playlist --no-progress');
+  expect(immutable.build()).toBe('yt-dlp --no-playlist');
+});
+
+test('parse() into an immutable builder', () => {
+  const base = YtdlpCommandBuilder.parse('yt-dlp -q --no-playlist', { immutable: true });
+  base.url(URL);
+  expect(base.build()).toBe('yt-dlp --quiet --no-playlist');
+  expect(base.url(URL).build()).toBe(`yt-dlp --quiet --no-playlist '${URL}'`);
+});
@@ -0,0 +1,93 @@
+import { COMPAT_OPTIONS } from '../src/types';
+import { expandCompatOptions, normalizeCompatOption } from '../src/compatOptions';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+test('compat options', () => {
+  const toBe = 'yt-dlp --compat-options filename,-2022,no-youtube-unavailable-videos';
+  const build = new YtdlpCommandBuilder()
+    .compatOptions(['filename', '-2022', '+no-youtube-unavailable-videos'])
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('compat options as a string', () => {
+  const toBe = 'yt-dlp --compat-options filename,format-sort --compat-options youtube-dl';
+  const build = new YtdlpCommandBuilder()
+    .compatOptions('FileName, format-sort')
+    .compatOptions('youtube-dl')
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test.each([[''], [' , '], [[]]])('compat options must be provided: %p', (options) => {
+  expect(() => new YtdlpCommandBuilder().compatOptions(options as string)).toThrow(
+    'Compat options must be provided'
+  );
+});
+
+test('unknown compat options', () => {
+  expect(() => new YtdlpCommandBuilder().compatOptions('filename,legacy')).toThrow(
+    'Unknown compat option "legacy"'
+  );
+  expect(() => normalizeCompatOption('--filename')).toThrow('Unknown compat option "--filename"');
+  expect(() => normalizeCompatOption('2020')).toThrow('Unknown compat option "2020"');
+});
+
+test.each([
+  [
+    ['2021'],
+    [
+      'filename-sanitization',
+      'manifest-filesize-approx',
+      'mtime-by-default',
+      'no-certifi',
+      'no-external-downloader-progress',
+      'playlist-match-filter',
+      'prefer-legacy-http-handler',
+      'prefer-vp9-sort'
+    ]
+  ],
+  [['2025'], []],
+  [['-all', 'filename'], ['filename']],
+  [
+    ['all', '-2022', '-filename'],
+    COMPAT_OPTIONS.filter(
+      (option) =>
+        !/^(filename|no-external-downloader-progress|playlist-match-filter|prefer-legacy-http-handler|manifest-filesize-approx|prefer-vp9-sort|mtime-by-default)$/.test(
+          option
+        )
+    )
+  ],
+  [
+    ['FileName', ' +format-sort '],
+    ['filename', 'format-sort']
+  ]
+])('expand compat options: %p', (values, toBe) => {
+  expect([...expandCompatOptions(values)].sort()).toEqual([...toBe].sort());
+});
+
+test('expand the youtube-dl group', () => {
+  const enabled = expandCompatOptions(['youtube-dl', '-filename']);
+  expect(enabled).toHaveLength(22);
+  for (const option of ['multistreams', 'playlist-match-filter', 'prefer-vp9-sort', 'filename']) {
+    expect(enabled).not.toContain(option);
+  }
+  expect(expandCompatOptions(['youtube-dlc'])).not.toContain('no-youtube-channel-redirect');
+});
+
+test('get compat options across uses', () => {
+  const builder = new YtdlpCommandBuilder()
+    .compatOptions('filename,2022')
+    .compatOptions(['-2022', 'format-sort']);
+  expect(builder.getCompatOptions()).toEqual(['filename', 'format-sort']);
+  expect(new YtdlpCommandBuilder().getCompatOptions()).toEqual([]);
+});
+
+test('get compat options of a parsed command', () => {
+  const builder = YtdlpCommandBuilder.parse(
+    'yt-dlp --compat-options no-youtube-unavailable-videos --compat-options 2024'
+  );
+  expect(builder.getCompatOptions()).toEqual(['no-youtube-unavailable-videos', 'mtime-by-default']);
+});
@@ -0,0 +1,104 @@
+import { splitConfigFile } from '../src/configFile';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+const URL = 'https://www.youtube.com/watch?v=dQw4w9WgXcQ';
+
+test('to config file', () => {
+  const toBe = [
+    '# coding: utf-8',
+    '# Team defaults',
+    '#',
+    '# Keep in sync with the NAS layout.',
+    '--format bv+ba/b',
+    "--output '%(title)s [%(id)s].%(ext)s'",
+    "--replace-in-metadata pre_process:title '[ _]' -",
+    "--exec 'after_move:echo '\\''done #1'\\'''",
+    '--no-playlist',
+    `'${URL}'`,
+    ''
+  ].join('\n');
+  const build = new YtdlpCommandBuilder()
+    .format('bv+ba/b')
+    .output('%(title)s [%(id)s].%(ext)s')
+    .replaceInMetadata('title', '[ _]', '-')
+    .exec("echo 'done #1'")
+    .noPlaylist()
+    .url(URL)
+    .toConfigFile({ comment: 'Team defaults\n\nKeep in sync with the NAS layout.' });
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('config file round trip', () => {
+  const builder = new YtdlpCommandBuilder()
+    .output('line one\nline two #%(id)s.%(ext)s')
+    .addHeaders('Referer', 'https://example.com/?a=1&b="2"')
+    .url('-wtHgUaRLBo')
+    .passthrough('--some-new-flag');
+  const config = builder.toConfigFile();
+  expect(config.endsWith('--some-new-flag\n--\n-wtHgUaRLBo\n')).toBe(true);
+  const restored = YtdlpCommandBuilder.fromConfigFile(config, { unknownOptions: 'passthrough' });
+  expect(restored.buildArgv()).toStrictEqual(builder.buildArgv());
+});
+
+test('from config file', () => {
+  const config = [
+    '# coding: utf-8',
+    '# Lines starting with # are comments',
+    '',
+    '-o ~/YouTube/%(title)s.%(ext)s   # comments can follow options',
+    '--format "bv*[height<=1080]+ba/b"',
+    '-x --audio-format mp3',
+    "--parse-metadata 'title:%(artist)s - %(title)s'",
+    '--exec "echo \\"multi',
+    'line\\" \\\\done"',
+    '--add-headers Referer:https://example.com/a\\ b',
+    '--sponsorblock-remove sponsor#,intro'
+  ].join('\n');
+  const toBe = [
+    'yt-dlp',
+    '--output',
+    '~/YouTube/%(title)s.%(ext)s',
+    '--format',
+    'bv*[height<=1080]+ba/b',
+    '--extract-audio',
+    '--audio-format',
+    'mp3',
+    '--parse-metadata',
+    'pre_process:title:%(artist)s - %(title)s',
+    '--exec',
+    'after_move:echo "multi\nline" \\done',
+    '--add-headers',
+    'Referer:https://example.com/a b',
+    '--sponsorblock-remove',
+    'sponsor'
+  ];
+  expect(YtdlpCommandBuilder.fromConfigFile(config).buildArgv()).toStrictEqual(toBe);
+});
+
+test('split config file like shlex', () => {
+  expect(splitConfigFile('a#b c\nd')).toStrictEqual(['a', 'd']);
+  expect(splitConfigFile('\'\' "" x')).toStrictEqual(['', '', 'x']);
+  expect(splitConfigFile('a\\\nb "c\\d" \'e\\f\'')).toStrictEqual(['a\nb', 'c\\d', 'e\\f']);
+  expect(splitConfigFile('--opt="a b"c')).toStrictEqual(['--opt=a bc']);
+  expect(() => splitConfigFile('--format "best\n')).toThrow(
+    'Unterminated double quote (at line 1)'
+  );
+  expect(() => splitConfigFile("x\n'y")).toThrow('Unterminated single quote (at line 2)');
+  expect(() => splitConfigFile('x \\')).toThrow('No escaped character (at line 1)');
+});
+
+test('config file encodings', () => {
+  const utf16 = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('--output été', 'utf16le')]);
+  expect(splitConfigFile(utf16)).toStrictEqual(['--output', 'été']);
+  const latin1 = Buffer.from('# coding: latin1\n--output été', 'latin1');
+  expect(splitConfigFile(latin1)).toStrictEqual(['--output', 'été']);
+  const declaredUtf16 = Buffer.from('# coding: utf-16le\n--output été', 'utf16le');
+  expect(splitConfigFile(declaredUtf16)).toStrictEqual(['--output', 'été']);
+  expect(splitConfigFile(Buffer.from('\uFEFF--output été'))).toStrictEqual(['--output', 'été']);
+  expect(splitConfigFile('\uFEFF--quiet')).toStrictEqual(['--quiet']);
+  expect(splitConfigFile(Buffer.from('--quiet\n# coding: latin1\n'))).toStrictEqual(['--quiet']);
+  expect(() => splitConfigFile(Buffer.from('# coding: nope\n'))).toThrow(
+    'Unknown config file encoding "nope"'
+  );
+});
@@ -0,0 +1,79 @@
+import { formatDownloadSections, validateDownloadSections } from '../src/downloadSections';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+test('download sections from typed sections', () => {
+  const toBe =
+    "yt-dlp --download-sections '*0-30,1:00.5-inf,-5:00-inf' --download-sections '(?i)^intro' --download-sections '*from-url'";
+  const build = new YtdlpCommandBuilder()
+    .downloadSections([
+      { start: 0, end: 30 },
+      { start: '1:00.5' },
+      { chapters: /^intro/i },
+      'from-url',
+      { start: '-5:00' }
+    ])
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('download sections across calls', () => {
+  const toBe =
+    "yt-dlp --download-sections '*10-20' --download-sections '*20-1m' --download-sections outro";
+  const build = new YtdlpCommandBuilder()
+    .downloadSections({ start: 10, end: 20 })
+    .downloadSections('*20-1m')
+    .downloadSections({ chapters: 'outro' })
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test.each([
+  [[{ start: 90, end: Infinity }], ['*90-inf']],
+  [[{ end: 12.5 }], ['*00:00:00-12.5']],
+  [[{ start: -30, end: -10 }], ['*-30--10']],
+  [[{ start: '1h2m', end: '1:02:03' }], ['*1h2m-1:02:03']],
+  [[{ chapters: /a.b/ms }], ['(?ms)a.b']]
+])('format download sections %j', (sections, toBe) => {
+  expect(formatDownloadSections(sections)).toStrictEqual(toBe);
+});
+
+test.each([
+  ['*1:00-0:30', 'Section start must be before its end (*60-30)'],
+  ['*-10--30', 'Section start must be before its end (*-10--30)'],
+  ['*0-1:00,0:30-2:00', 'Section *30-120 overlaps *0-60'],
+  ['*-1:00-inf,-30--10', 'Section *-30--10 overlaps *-60-inf'],
+  ['*1:00', 'Invalid time range "1:00" in "*1:00". Must be of the form "*start-end"'],
+  ['*-', 'Invalid time range "-" in "*-". Must be of the form "*start-end"'],
+  ['*1:100-2:00', 'Invalid time range "1:100-2:00"'],
+  ['*ten-20', 'Invalid time range "ten-20"']
+])('invalid download sections %s', (value, error) => {
+  expect(() => validateDownloadSections([value])).toThrow(error);
+  expect(() => new YtdlpCommandBuilder().downloadSections(value)).toThrow(error);
+});
+
+test('download sections only compare ranges from the same end', () => {
+  expect(() =>
+    validateDownloadSections(['*-1:00-inf', '*0-30', '*10--10', '*1:00-'])
+  ).not.toThrow();
+  expect(() =>
+    validateDownloadSections(['*30-1:00', '*from-url', 'intro', '*1:00-inf'])
+  ).not.toThrow();
+});
+
+test('invalid typed download sections', () => {
+  const builder = new YtdlpCommandBuilder().downloadSections({ start: 60, end: 120 });
+  expect(() => builder.downloadSections({ start: 90 })).toThrow('Section *90-inf overlaps *60-120');
+  expect(() => builder.downloadSections({ start: 'soon' })).toThrow('Invalid timestamp "soon"');
+  expect(() => builder.downloadSections({ start: NaN })).toThrow('Invalid timestamp NaN');
+  expect(() => builder.downloadSections({})).toThrow('Range must include start and/or end');
+  expect(() => builder.downloadSections([])).toThrow('At least one section must be provided');
+  expect(() => builder.downloadSections({ chapters: '*intro' })).toThrow(
+    'Chapter regex must not start with "*"'
+  );
+  expect(() => builder.downloadSections({ chapters: /intro/y })).toThrow(
+    'Unsupported regular expression flags "y"'
+  );
+  expect(builder.build()).toBe("yt-dlp --download-sections '*60-120'");
+});
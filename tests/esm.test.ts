@@ -0,0 +1,28 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+
+test('the ESM build loads in Node', () => {
+  const outDir = mkdtempSync(join(tmpdir(), 'yt-dlp-command-builder-'));
+  try {
+    execFileSync(process.execPath, [
+      require.resolve('typescript/bin/tsc'),
+      '--project',
+      join(__dirname, '..', 'tsconfig.json'),
+      '--outDir',
+      outDir
+    ]);
+    writeFileSync(join(outDir, 'package.json'), '{ "type": "module" }');
+    const index = pathToFileURL(join(outDir, 'index.js')).href;
+    const script = `import { YtdlpCommandBuilder } from '${index}';
+console.log(new YtdlpCommandBuilder().format('best').url('URL').build());`;
+    const output = execFileSync(process.execPath, ['--input-type=module', '-e', script], {
+      encoding: 'utf8'
+    });
+    expect(output.trim()).toBe('yt-dlp --format best URL');
+  } finally {
+    rmSync(outDir, { recursive: true, force: true });
+  }
+}, 120000);
@@ -0,0 +1,84 @@
+import { formatExtractorArgs, mergeExtractorArgs, parseExtractorArgs } from '../src/extractorArgs';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+test('typed youtube extractor args', () => {
+  const toBe =
+    "yt-dlp --extractor-args 'youtube:player_client=default,-web_safari;po_token=web.gvs+TOKEN;lang=en;skip=dash,hls;max_comments=100,all'";
+  const build = new YtdlpCommandBuilder()
+    .extractorArgs('youtube', {
+      player_client: ['default', '-web_safari'],
+      po_token: ['web.gvs+TOKEN'],
+      lang: 'en',
+      skip: ['dash', 'hls'],
+      max_comments: [100, 'all']
+    })
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('typed extractor args for other extractors', () => {
+  const build = new YtdlpCommandBuilder()
+    .extractorArgs('youtubetab', { skip: ['webpage'], approximate_date: true })
+    .extractorArgs('generic', { fragment_query: true, is_live: false, impersonate: 'chrome' })
+    .extractorArgs('twitch', { client_id: 'abc123' })
+    .extractorArgs('vimeo', { client: ['android', 'web'], original_format_policy: 'never' })
+    .extractorArgs('instagram', { app_id: '936619743392459' })
+    .buildArgv();
+  expect(build.filter((_, i) => i % 2 === 0).slice(1)).toStrictEqual([
+    'youtubetab:skip=webpage;approximate_date',
+    'generic:fragment_query;is_live=false;impersonate=chrome',
+    'twitch:client_id=abc123',
+    'vimeo:client=android,web;original_format_policy=never',
+    'instagram:app_id=936619743392459'
+  ]);
+});
+
+test('extractor args for other extractors', () => {
+  const build = new YtdlpCommandBuilder()
+    .extractorArgs('soundcloud', { formats: ['*_aac', 'http_mp3'], comment: 'a, b' })
+    .buildArgv();
+  expect(build).toStrictEqual([
+    'yt-dlp',
+    '--extractor-args',
+    'soundcloud:formats=*_aac,http_mp3;comment=a\\, b'
+  ]);
+});
+
+test('repeated extractor args for the same extractor are merged', () => {
+  const toBe =
+    "yt-dlp --extractor-args 'youtube:player_client=web,android;lang=de;skip=dash' --extractor-args twitch:client_id=x";
+  const build = new YtdlpCommandBuilder()
+    .extractorArgs('youtube', 'player_client=web,android;lang=en')
+    .extractorArgs('twitch', { client_id: 'x' })
+    .extractorArgs('YouTube', { lang: 'de', skip: ['dash'] })
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('extractor args errors', () => {
+  const builder = new YtdlpCommandBuilder();
+  expect(() => builder.extractorArgs('youtube', {})).toThrow(
+    'Extractor arguments must be provided'
+  );
+  expect(() => builder.extractorArgs('youtube', { lang: 'en;skip=dash' })).toThrow(
+    'Value of extractor argument "lang" cannot contain ";"'
+  );
+  expect(() => builder.extractorArgs('youtube', { player_client: [] })).toThrow(
+    'Extractor argument "player_client" must have at least one value'
+  );
+  expect(() => builder.extractorArgs('generic', { 'a=b': 'c' })).toThrow(
+    'Invalid extractor argument "a=b"'
+  );
+});
+
+test('parse and merge extractor args', () => {
+  expect(
+    parseExtractorArgs(' Player-Client = web , android;approximate_date;x=a\\,b;')
+  ).toStrictEqual({ player_client: ['web', 'android'], approximate_date: [''], x: ['a,b'] });
+  expect(mergeExtractorArgs('player_client=web;lang=en', 'lang=de;formats=dashy')).toBe(
+    'player_client=web;lang=de;formats=dashy'
+  );
+  expect(formatExtractorArgs({ a: undefined, b: 1, c: [''] })).toBe('b=1;c');
+});
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+// Stands in for yt-dlp in tests: prints the lines a real download would, without the network.
+const args = process.argv.slice(2);
+const url = args[args.length - 1] ?? '';
+const templates = args.filter((_arg, i) => args[i - 1] === '--progress-template');
+const jsonProgress = templates.some((template) =>
+  template.startsWith('download:[progress:download]')
+);
+
+process.stderr.write(`[debug] Command-line config: ${JSON.stringify(args)}\n`);
+
+if (url.includes('fail')) {
+  process.stderr.write(`ERROR: [generic] Unsupported URL: ${url}\n`);
+  process.exit(1);
+}
+
+if (url.includes('hang')) {
+  process.stdout.write('[generic] hang: Downloading webpage\n');
+  setInterval(() => undefined, 1000);
+} else if (jsonProgress) {
+  const download = (progress) =>
+    process.stdout.write(`[progress:download] ${JSON.stringify(progress)}\n`);
+  const postprocess = (progress) =>
+    process.stdout.write(`[progress:postprocess] ${JSON.stringify(progress)}\n`);
+  process.stdout.write('[youtube] dQw4w9WgXcQ: Downloading webpage\n');
+  download({
+    status: 'downloading',
+    downloaded_bytes: 0,
+    total_bytes: 1000,
+    speed: null,
+    eta: null,
+    filename: 'Video.mp4'
+  });
+  download({
+    status: 'downloading',
+    downloaded_bytes: 500,
+    total_bytes: 1000,
+    speed: 250.5,
+    eta: 2,
+    elapsed: 2.1,
+    filename: 'Video.mp4'
+  });
+  download({
+    status: 'finished',
+    downloaded_bytes: 1000,
+    total_bytes: 1000,
+    elapsed: 4.2,
+    filename: 'Video.mp4'
+  });
+  postprocess({ status: 'started', postprocessor: 'MoveFiles' });
+  postprocess({ status: 'finished', postprocessor: 'MoveFiles' });
+} else {
+  process.stdout.write('[youtube] dQw4w9WgXcQ: Downloading webpage\n');
+  process.stdout.write('[download] Destination: Video [dQw4w9WgXcQ].f137.mp4\n');
+  process.stdout.write('\r[download]   0.0% of   10.00MiB at  Unknown B/s ETA Unknown');
+  process.stdout.write('\r[download]  50.0% of   10.00MiB at    2.00MiB/s ETA 00:02');
+  process.stdout.write('\r[download] 100% of   10.00MiB in 00:00:05 at 2.00MiB/s   \n');
+  process.stdout.write('[download] Destination: Video [dQw4w9WgXcQ].f140.m4a\n');
+  process.stdout.write('[download]  25.0% of ~   4.00MiB at  512.00KiB/s ETA 00:06 (frag 1/4)\n');
+  process.stderr.write('WARNING: [youtube] Falling back to generic n function search\n');
+  process.stdout.write('[Merger] Merging formats into "Video [dQw4w9WgXcQ].mp4"\n');
+  process.stdout.write('Deleting original file Video [dQw4w9WgXcQ].f137.mp4 (pass -k to keep)\n');
+  process.stdout.write('[ExtractAudio] Destination: Video [dQw4w9WgXcQ].mp3\n');
+  process.stdout.write(
+    '[VideoConvertor] Converting video from mp4 to mkv; Destination: Video [dQw4w9WgXcQ].mkv\n'
+  );
+}
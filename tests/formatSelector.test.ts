@@ -0,0 +1,143 @@
+import { YtdlpSyntaxError } from '../src/errors';
+import { FormatSelector } from '../src/formatSelector';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+const { best, bestAudio, bestVideo, extension, formatId, worst } = FormatSelector;
+
+test('format selector merge and fallback', () => {
+  const toBe = 'bv*[height<=720][ext=mp4]+ba[ext=m4a]/b[height<=720]';
+  const selector = bestVideo({ wildcard: true })
+    .where('height', '<=', 720)
+    .where('ext', '=', 'mp4')
+    .merge(bestAudio().where('ext', '=', 'm4a'))
+    .or(best().where('height', '<=', 720));
+  const build = selector.toString();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('format selector in format()', () => {
+  const toBe = 'yt-dlp --format bv+ba/b';
+  const build = new YtdlpCommandBuilder().format(bestVideo().merge(bestAudio()).or(best())).build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('format strings are validated in format()', () => {
+  expect(new YtdlpCommandBuilder().format("bv[format_note *= 'DRC']+ba").buildArgv()).toStrictEqual(
+    ['yt-dlp', '--format', "bv[format_note *= 'DRC']+ba"]
+  );
+  expect(() => new YtdlpCommandBuilder().format('best[[[')).toThrow(YtdlpSyntaxError);
+  expect(() => new YtdlpCommandBuilder().format(' ')).toThrow('Format must be provided');
+});
+
+test('format selector grouping', () => {
+  expect(bestVideo().or(worst()).merge(bestAudio()).toString()).toBe('(bv/w)+ba');
+  expect(bestVideo().merge(bestAudio()).or(best()).where('height', '<=', 480).toString()).toBe(
+    '(bv+ba/b)[height<=480]'
+  );
+  expect(
+    FormatSelector.list(formatId('137').merge(formatId('140')), extension('mp4')).toString()
+  ).toBe('137+140,mp4');
+  expect(best().group().toString()).toBe('(b)');
+});
+
+test('format selector specifier options', () => {
+  expect(best({ n: 2 }).toString()).toBe('b.2');
+  expect(bestAudio({ wildcard: true, n: 3 }).toString()).toBe('ba*.3');
+  expect(FormatSelector.mergeAll().toString()).toBe('mergeall');
+  expect(() => best({ n: 0 })).toThrow('n must be a positive integer');
+});
+
+test('format selector filters', () => {
+  expect(best().where('filesize', '<', '50M').toString()).toBe('b[filesize<50M]');
+  expect(best().where('fps', '>', 30, { allowUnknown: true }).toString()).toBe('b[fps>?30]');
+  expect(bestVideo().where('vcodec', '^=', 'avc1').toString()).toBe('bv[vcodec^=avc1]');
+  expect(bestVideo().where('vcodec', '!*=', 'av01').toString()).toBe('bv[vcodec!*=av01]');
+  expect(bestAudio().where('acodec', '~=', '^(mp4a|opus)$').toString()).toBe(
+    'ba[acodec~="^(mp4a|opus)$"]'
+  );
+  expect(best().where('format_note', '=', 'say "hi"').toString()).toBe(
+    'b[format_note="say \\"hi\\""]'
+  );
+  expect(() => best().where('height', '<', 'tall')).toThrow(
+    'Operator "<" needs a number, not "tall"'
+  );
+  expect(() => best().where('height', '^=' as '=', 720)).toThrow(
+    'Operator "^=" compares strings, not numbers'
+  );
+  expect(() => best().where('', '=', 'x')).toThrow('Filter field must be provided');
+});
+
+test('format selector is immutable', () => {
+  const video = bestVideo();
+  video.where('height', '<=', 720);
+  expect(video.toString()).toBe('bv');
+});
+
+test.each([
+  'bestvideo+bestaudio/best',
+  'bv*[height<=720]+ba/b[height<=720] / wv*+wa/w',
+  '(bv*+ba/b)[height<=?1080][fps>30]',
+  '137+140,mp4,(bv[vcodec^=avc1]+ba)',
+  'ba[acodec~="^(mp4a|opus)$"]',
+  "b[format_note*='Original audio']",
+  '[height<=720][filesize<50MiB]',
+  'hls-1080p/dash-video_eng=1000/best.2',
+  'mergeall[vcodec=none]'
+])('parse format selector: %s', (input) => {
+  const selector = FormatSelector.parse(input);
+  expect(FormatSelector.parse(selector.toString()).toString()).toBe(selector.toString());
+});
+
+test('parse format selector syntax tree', () => {
+  expect(FormatSelector.parse('(bv+ba/b)[height<=?720],all').getNode()).toStrictEqual({
+    type: 'list',
+    selectors: [
+      {
+        type: 'group',
+        selector: {
+          type: 'fallback',
+          selectors: [
+            {
+              type: 'merge',
+              selectors: [
+                { type: 'format', specifier: 'bv', filters: [] },
+                { type: 'format', specifier: 'ba', filters: [] }
+              ]
+            },
+            { type: 'format', specifier: 'b', filters: [] }
+          ]
+        },
+        filters: [{ field: 'height', operator: '<=', value: 720, allowUnknown: true }]
+      },
+      { type: 'format', specifier: 'all', filters: [] }
+    ]
+  });
+  expect(FormatSelector.parse("b[ext = 'mp4']").toString()).toBe('b[ext=mp4]');
+});
+
+test.each([
+  [
+    'bestvideo[height<=720]+bestaudo',
+    'Unknown format specifier "bestaudo" (did you mean "bestaudio"?) at position 23'
+  ],
+  ['bv+', 'Unexpected end of format selector at position 3'],
+  ['bv+ba)', 'Unexpected ")" at position 5'],
+  ['(bv+ba', 'Expected ")" at position 6'],
+  ['bv[height<=720', 'Unclosed "[" at position 2'],
+  ['bv[height<=tall]', 'Operator "<=" needs a number, not "tall" at position 3'],
+  ['bv[height!<720]', 'Invalid filter operator "!<" at position 3'],
+  ['bv[height]', 'Invalid filter "[height]" at position 3'],
+  ['b**', 'Invalid format specifier "b**" at position 0'],
+  ['', 'Format selector must not be empty at position 0']
+])('parse invalid format selector: %s', (input, message) => {
+  expect.assertions(3);
+  try {
+    FormatSelector.parse(input);
+  } catch (error) {
+    expect(error).toBeInstanceOf(YtdlpSyntaxError);
+    expect((error as YtdlpSyntaxError).message).toBe(message);
+    expect((error as YtdlpSyntaxError).input).toBe(input);
+  }
+});
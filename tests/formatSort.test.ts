@@ -0,0 +1,98 @@
+import { YtdlpSyntaxError } from '../src/errors';
+import { FormatSort } from '../src/formatSort';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+test('format sort builder', () => {
+  const toBe = 'res:720,ext:mp4:m4a,+size,filesize~1G,vcodec:h264,hasvid';
+  const build = FormatSort.by('res', { prefer: 720 })
+    .by('ext', { prefer: ['mp4', 'm4a'] })
+    .by('size', { reverse: true })
+    .by('filesize', { closest: '1G' })
+    .by('vcodec', { prefer: 'h264' })
+    .by('hasvid')
+    .toString();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('format sort in formatSort()', () => {
+  const toBe = 'yt-dlp --format-sort res:1080,+br --format-sort-force';
+  const build = new YtdlpCommandBuilder()
+    .formatSort(FormatSort.by('res', { prefer: 1080 }).by('br', { reverse: true }), { force: true })
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('formatSort() validates strings', () => {
+  expect(new YtdlpCommandBuilder().formatSort('res, +size').build()).toBe(
+    'yt-dlp --format-sort res,+size'
+  );
+  expect(() => new YtdlpCommandBuilder().formatSort('res,resolutoin')).toThrow(
+    'Unknown sort field "resolutoin" at position 4'
+  );
+  expect(() => new YtdlpCommandBuilder().formatSort(' ')).toThrow('Sort order must be provided');
+});
+
+test('format sort builder validation', () => {
+  expect(() => FormatSort.by('hasaud', { prefer: 1 })).toThrow(
+    'Sort field "hasaud" does not take a value'
+  );
+  expect(() => FormatSort.by('vcodec', { closest: 'h264' })).toThrow(
+    'Sort field "vcodec" cannot use "~"'
+  );
+  expect(() => FormatSort.by('vcodec', { prefer: ['h264', 'aac'] })).toThrow(
+    'Too many values for sort field "vcodec"'
+  );
+  expect(() => FormatSort.by('res', { prefer: 'high' })).toThrow(
+    'Sort field "res" needs a number, not "high"'
+  );
+  expect(() => FormatSort.by('res', { prefer: 720, closest: 1080 })).toThrow(
+    'Only one of prefer and closest can be provided'
+  );
+  expect(() => FormatSort.by('resolution' as 'res')).toThrow('Unknown sort field "resolution"');
+});
+
+test('parse format sort', () => {
+  const sort = FormatSort.parse('+res:720,codec:av01:opus,fps~60,proto:m3u8_native,hdr:hdr10+');
+  expect(sort.getItems()).toStrictEqual([
+    { field: 'res', reverse: true, prefer: '720' },
+    { field: 'codec', prefer: 'av01:opus' },
+    { field: 'fps', closest: '60' },
+    { field: 'proto', prefer: 'm3u8_native' },
+    { field: 'hdr', prefer: 'hdr10+' }
+  ]);
+  expect(sort.toString()).toBe('+res:720,codec:av01:opus,fps~60,proto:m3u8_native,hdr:hdr10+');
+});
+
+test('size units and format ids', () => {
+  expect(FormatSort.parse('size:500M,fs_approx~1.5GiB,tbr:3000,+id:137').getItems()).toStrictEqual([
+    { field: 'size', prefer: '500M' },
+    { field: 'fs_approx', closest: '1.5GiB' },
+    { field: 'tbr', prefer: '3000' },
+    { field: 'id', reverse: true, prefer: '137' }
+  ]);
+  expect(FormatSort.by('id').toString()).toBe('id');
+  expect(() => FormatSort.by('tbr', { prefer: '3k' })).toThrow(
+    'Sort field "tbr" needs a number, not "3k"'
+  );
+});
+
+test.each([
+  ['res,sizee', 'Unknown sort field "sizee" at position 4'],
+  ['res,,size', 'Empty sort field at position 4'],
+  ['res:720,fps:high', 'Sort field "fps" needs a number, not "high" at position 12'],
+  ['res:1080p', 'Sort field "res" needs a number, not "1080p" at position 4'],
+  ['id~137', 'Sort field "id" cannot use "~" at position 3'],
+  ['ext:mp4:m4a:webm', 'Too many values for sort field "ext" at position 4'],
+  ['+hasvid:1', 'Sort field "hasvid" does not take a value at position 8'],
+  ['res;size', 'Invalid sort field "res;size" at position 0']
+])('parse invalid format sort: %s', (input, message) => {
+  expect.assertions(2);
+  try {
+    FormatSort.parse(input);
+  } catch (error) {
+    expect(error).toBeInstanceOf(YtdlpSyntaxError);
+    expect((error as YtdlpSyntaxError).message).toBe(message);
+  }
+});
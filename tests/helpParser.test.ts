@@ -0,0 +1,83 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { findHelpCoverageIssues, parseHelp } from '../src/helpParser';
+import { YTDLP_OPTIONS } from '../src/types';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+const HELP = parseHelp(readFileSync(join(__dirname, '..', 'options.txt'), 'utf8'));
+const byName = (name: string) => HELP.find((option) => option.name === name);
+
+test('every option in options.txt has a builder method', () => {
+  expect(findHelpCoverageIssues(HELP)).toStrictEqual([]);
+});
+
+test('every builder option is documented in options.txt', () => {
+  const documented = HELP.map(({ name }) => name);
+  expect(YTDLP_OPTIONS.filter((option) => !documented.includes(option))).toStrictEqual([]);
+});
+
+test('parse help options', () => {
+  expect(byName('--format')).toStrictEqual({
+    name: '--format',
+    short: '-f',
+    metavar: 'FORMAT',
+    section: 'Video Format Options',
+    description: 'Video format code, see "FORMAT SELECTION" for more details',
+    aliases: [],
+    repeatable: false
+  });
+  expect(byName('--replace-in-metadata')?.metavar).toBe('[WHEN:]FIELDS REGEX REPLACE');
+  expect(byName('--update-to')?.metavar).toBe('[CHANNEL]@[TAG]');
+  expect(byName('--no-write-comments')?.aliases).toStrictEqual(['--no-get-comments']);
+  expect(byName('--convert-subs')?.aliases).toStrictEqual(['--convert-subtitles']);
+  expect(byName('--use-postprocessor')).toMatchObject({
+    metavar: 'NAME[:ARGS]',
+    section: 'Post-Processing Options',
+    repeatable: true
+  });
+  expect(byName('--sponsorblock-chapter-title')?.description).toMatch(/^An output template/);
+  expect(byName('--compat-options')?.section).toBe('General Options');
+  expect(HELP.some(({ section }) => section === 'Preset Aliases')).toBe(false);
+});
+
+test('documented aliases are parsed', () => {
+  const build = YtdlpCommandBuilder.parse(
+    'yt-dlp --compat-options filename --force-download-archive --no-add-chapters --no-get-comments'
+  ).build();
+  expect(build).toBe(
+    'yt-dlp --compat-options filename --force-write-archive --no-embed-chapters --no-write-comments'
+  );
+});
+
+test('coverage issues for options the builder lacks', () => {
+  const help = `Options:
+
+  General Options:
+    -h, --help                      Print this help text and exit
+    -Z, --frobnicate LEVEL          Frobnicate the download. Can be used
+                                    multiple times (Alias: --frob)
+    --format-sort-force             Prefer the sort order (Alias: --S-force,
+                                    --sort-force)
+    --format FORMAT TARGET          Video format code
+    --help-me                       Print help
+                                    again
+`;
+  const options = parseHelp(help);
+  expect(options.map(({ name }) => name)).toStrictEqual([
+    '--help',
+    '--frobnicate',
+    '--format-sort-force',
+    '--format',
+    '--help-me'
+  ]);
+  expect(options[1]).toMatchObject({
+    description: 'Frobnicate the download. Can be used multiple times (Alias: --frob)',
+    repeatable: true
+  });
+  expect(findHelpCoverageIssues(options)).toStrictEqual([
+    { option: '--frobnicate', message: '--frobnicate has no builder method' },
+    { option: '--sort-force', message: '--sort-force is not parsed as --format-sort-force' },
+    { option: '--format', message: '--format takes 1 value(s), but the help shows 2' },
+    { option: '--help-me', message: '--help-me has no builder method' }
+  ]);
+});
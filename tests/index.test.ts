@@ -89,16 +89,18 @@ test('update to master', () => {
 
 test('url', () => {
   const command = new YtdlpCommandBuilder().url(URL);
-  const toBe = `yt-dlp ${URL}`;
+  const toBe = `yt-dlp '${URL}'`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
 });
 
 test('Multiple url', () => {
-  expect(() => {
-    new YtdlpCommandBuilder().url(URL).url(URL);
-  }).toThrow('Cannot call url more than once');
+  const command = new YtdlpCommandBuilder().url(URL).url('https://youtu.be/jNQXAC9IVRw');
+  const toBe = `yt-dlp '${URL}' https://youtu.be/jNQXAC9IVRw`;
+  const build = command.build();
+  console.log(build);
+  expect(build).toBe(toBe);
 });
 
 test('js runtime deno', () => {
@@ -170,7 +172,7 @@ test('yt-dlp path, js runtime custom with path, ffmpeg location, cookies browser
     .jsRuntime('quickjs', JS_RUNTIME_PATH)
     .ffmpegLocation(FFMPEG_PATH)
     .cookiesFromBrowser(COOKIES_BROWSER, { profile: COOKIES_BROWSER_PROFILE });
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}'`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -182,7 +184,7 @@ test('yt-dlp path, js runtime custom with path, ffmpeg location, cookies browser
     .ffmpegLocation(FFMPEG_PATH)
     .cookiesFromBrowser(COOKIES_BROWSER, { profile: COOKIES_BROWSER_PROFILE })
     .url(URL);
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} ${URL}`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' '${URL}'`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -196,7 +198,7 @@ test('yt-dlp path, js runtime custom with path, ffmpeg location, cookies browser
     .writeInfoJson()
     .output(INFO_JSON_PATH)
     .url(URL);
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --write-info-json --output ${INFO_JSON_PATH} ${URL}`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --write-info-json --output ${INFO_JSON_PATH} '${URL}'`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -208,7 +210,7 @@ test('yt-dlp path, js runtime custom with path, ffmpeg location, cookies browser
     .ffmpegLocation(FFMPEG_PATH)
     .cookiesFromBrowser(COOKIES_BROWSER, { profile: COOKIES_BROWSER_PROFILE })
     .loadInfoJson(INFO_JSON_PATH);
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH}`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH}`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -222,7 +224,7 @@ test('yt-dlp path, js runtime custom with path, ffmpeg location, cookies browser
     .loadInfoJson(INFO_JSON_PATH)
     .format(FORMAT_CODE)
     .output(OUPUT_PATH);
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --format ${FORMAT_CODE} --output ${OUPUT_PATH}`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --format ${FORMAT_CODE} --output ${OUPUT_PATH}`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -237,7 +239,7 @@ test('yt-dlp path, js runtime custom with path, ffmpeg location, cookies browser
     .format(FORMAT_CODE)
     .output(OUPUT_PATH)
     .mergeOutputFormat('mp4');
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --format ${FORMAT_CODE} --output ${OUPUT_PATH} --merge-output-format mp4`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --format ${FORMAT_CODE} --output ${OUPUT_PATH} --merge-output-format mp4`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -252,7 +254,7 @@ test('yt-dlp path, js runtime custom with path, ffmpeg location, cookies browser
     .format(FORMAT_CODE)
     .output(OUPUT_PATH)
     .mergeOutputFormat('mp4/mkv');
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --format ${FORMAT_CODE} --output ${OUPUT_PATH} --merge-output-format mp4/mkv`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --format ${FORMAT_CODE} --output ${OUPUT_PATH} --merge-output-format mp4/mkv`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -286,7 +288,7 @@ test('get: yt-dlp path, js runtime custom with path, ffmpeg location, cookies br
     'mp4/mkv'
   ];
 
-  const completeCommand = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --format ${FORMAT_CODE} --output ${OUPUT_PATH} --merge-output-format mp4/mkv`;
+  const completeCommand = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --format ${FORMAT_CODE} --output ${OUPUT_PATH} --merge-output-format mp4/mkv`;
   const get = command.get();
   const toBe = {
     baseCommand,
@@ -304,7 +306,7 @@ test('yt-dlp path, js runtime custom with path, ffmpeg location, cookies browser
     .cookiesFromBrowser(COOKIES_BROWSER, { profile: COOKIES_BROWSER_PROFILE })
     .loadInfoJson(INFO_JSON_PATH)
     .listFormats();
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --list-formats`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --list-formats`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -318,7 +320,7 @@ test('yt-dlp path, js runtime custom with path, ffmpeg location, cookies browser
     .loadInfoJson(INFO_JSON_PATH)
     .listFormats()
     .liveFromStart();
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --list-formats --live-from-start`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --list-formats --live-from-start`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -347,7 +349,7 @@ test('get: yt-dlp path, js runtime custom with path, ffmpeg location, cookies br
     '--live-from-start'
   ];
 
-  const completeCommand = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --list-formats --live-from-start`;
+  const completeCommand = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --list-formats --live-from-start`;
   const get = command.get();
   const toBe = {
     baseCommand,
@@ -365,7 +367,7 @@ test('download sections intro', () => {
     .cookiesFromBrowser(COOKIES_BROWSER, { profile: COOKIES_BROWSER_PROFILE })
     .loadInfoJson(INFO_JSON_PATH)
     .downloadSections('intro');
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --download-sections intro`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --download-sections intro`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -378,7 +380,7 @@ test('download sections Chapter One', () => {
     .cookiesFromBrowser(COOKIES_BROWSER, { profile: COOKIES_BROWSER_PROFILE })
     .loadInfoJson(INFO_JSON_PATH)
     .downloadSections('Chapter One');
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --download-sections Chapter One`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --download-sections 'Chapter One'`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -391,7 +393,7 @@ test('download sections range string', () => {
     .cookiesFromBrowser(COOKIES_BROWSER, { profile: COOKIES_BROWSER_PROFILE })
     .loadInfoJson(INFO_JSON_PATH)
     .downloadSections('*00:00-00:30');
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --download-sections *00:00-00:30`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --download-sections '*00:00-00:30'`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -404,7 +406,7 @@ test('download sections range object, start only', () => {
     .cookiesFromBrowser(COOKIES_BROWSER, { profile: COOKIES_BROWSER_PROFILE })
     .loadInfoJson(INFO_JSON_PATH)
     .downloadSections({ start: '00:00' });
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --download-sections *00:00-inf`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --download-sections '*00:00-inf'`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -417,7 +419,7 @@ test('download sections range object, end only', () => {
     .cookiesFromBrowser(COOKIES_BROWSER, { profile: COOKIES_BROWSER_PROFILE })
     .loadInfoJson(INFO_JSON_PATH)
     .downloadSections({ end: '00:30' });
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --download-sections *00:00:00-00:30`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --download-sections '*00:00:00-00:30'`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -430,7 +432,7 @@ test('download sections range object, start and end', () => {
     .cookiesFromBrowser(COOKIES_BROWSER, { profile: COOKIES_BROWSER_PROFILE })
     .loadInfoJson(INFO_JSON_PATH)
     .downloadSections({ start: '00:00', end: '00:30' });
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --download-sections *00:00-00:30`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --download-sections '*00:00-00:30'`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -443,7 +445,7 @@ test('wait for video', () => {
     .cookiesFromBrowser(COOKIES_BROWSER, { profile: COOKIES_BROWSER_PROFILE })
     .url(URL)
     .waitForVideo('60-600');
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} ${URL} --wait-for-video 60-600`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --wait-for-video 60-600 '${URL}'`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
@@ -456,8 +458,54 @@ test('print filepath', () => {
     .cookiesFromBrowser(COOKIES_BROWSER, { profile: COOKIES_BROWSER_PROFILE })
     .loadInfoJson(INFO_JSON_PATH)
     .print('filepath', 'after_move');
-  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser ${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE} --load-info-json ${INFO_JSON_PATH} --print after_move:filepath`;
+  const toBe = `${YTDLP_PATH} --js-runtimes quickjs:${JS_RUNTIME_PATH} --ffmpeg-location ${FFMPEG_PATH} --cookies-from-browser '${COOKIES_BROWSER}:${COOKIES_BROWSER_PROFILE}' --load-info-json ${INFO_JSON_PATH} --print after_move:filepath`;
   const build = command.build();
   console.log(build);
   expect(build).toBe(toBe);
 });
+
+test('urls', () => {
+  const command = new YtdlpCommandBuilder()
+    .urls([URL, 'https://youtu.be/jNQXAC9IVRw'])
+    .format('best');
+  const toBe = `yt-dlp --format best '${URL}' https://youtu.be/jNQXAC9IVRw`;
+  const build = command.build();
+  console.log(build);
+  expect(build).toBe(toBe);
+  expect(command.getUrls()).toStrictEqual([URL, 'https://youtu.be/jNQXAC9IVRw']);
+  expect(() => new YtdlpCommandBuilder().urls([])).toThrow('At least one URL must be provided');
+  expect(() => new YtdlpCommandBuilder().urls([URL, ' '])).toThrow('URL must be provided');
+});
+
+test('url starting with a dash', () => {
+  const command = new YtdlpCommandBuilder().url('-wtHgUaRLBo').quiet();
+  const toBe = 'yt-dlp --quiet -- -wtHgUaRLBo';
+  const build = command.build();
+  console.log(build);
+  expect(build).toBe(toBe);
+  expect(command.buildArgv()).toStrictEqual(['yt-dlp', '--quiet', '--', '-wtHgUaRLBo']);
+  expect(YtdlpCommandBuilder.parse(build).getUrls()).toStrictEqual(['-wtHgUaRLBo']);
+});
+
+test('search', () => {
+  const command = new YtdlpCommandBuilder()
+    .search('never gonna give you up')
+    .search('rick astley', { count: 5 })
+    .search('rick astley', { prefix: 'ytsearchdate', count: 'all' })
+    .search('lofi', { prefix: 'scsearch', count: 3 });
+  const toBe =
+    "yt-dlp 'ytsearch:never gonna give you up' 'ytsearch5:rick astley' 'ytsearchdateall:rick astley' scsearch3:lofi";
+  const build = command.build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('search validation', () => {
+  expect(() => new YtdlpCommandBuilder().search(' ')).toThrow('Search query must be provided');
+  expect(() => new YtdlpCommandBuilder().search('a', { count: 0 })).toThrow(
+    'Search count must be a positive integer or "all"'
+  );
+  expect(() => new YtdlpCommandBuilder().search('a', { prefix: 'xxsearch' as 'ytsearch' })).toThrow(
+    'Unknown search prefix "xxsearch"'
+  );
+});
@@ -0,0 +1,89 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  isPlaylistInfo,
+  isUrlInfo,
+  isVideoInfo,
+  parseInfoJson,
+  parseInfoJsonLines
+} from '../src/infoJson';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+const INFO_JSON_PATH = join(__dirname, 'fixtures', 'video.info.json');
+const INFO_JSON = readFileSync(INFO_JSON_PATH, 'utf-8');
+
+test('parse info JSON written by writeInfoJson()', () => {
+  const info = parseInfoJson(INFO_JSON);
+  expect(isVideoInfo(info)).toBe(true);
+  if (!isVideoInfo(info)) {
+    return;
+  }
+  expect(info.id).toBe('dQw4w9WgXcQ');
+  expect(info.formats?.map((format) => format.format_id)).toStrictEqual(['sb0', '140', '137']);
+  expect(info.subtitles?.en[1].ext).toBe('vtt');
+  expect(info.requested_downloads?.[0].filepath).toBe(
+    'Rick Astley - Never Gonna Give You Up [dQw4w9WgXcQ].mp4'
+  );
+  expect(info._version?.version).toBe('2025.10.22');
+
+  const argv = new YtdlpCommandBuilder().loadInfoJson(INFO_JSON_PATH).buildArgv();
+  expect(argv).toStrictEqual(['yt-dlp', '--load-info-json', INFO_JSON_PATH]);
+});
+
+test('parse already parsed info JSON', () => {
+  const value = JSON.parse(INFO_JSON);
+  expect(parseInfoJson(value)).toBe(value);
+});
+
+test('parse dumpSingleJson() playlist', () => {
+  const info = parseInfoJson({
+    _type: 'playlist',
+    id: 'PL1',
+    title: 'Playlist',
+    entries: [
+      { id: 'a', title: 'A', formats: [{ format_id: '18', height: 360 }] },
+      null,
+      { _type: 'url', url: 'https://www.youtube.com/watch?v=c', ie_key: 'Youtube', id: 'c' }
+    ]
+  });
+  expect(isPlaylistInfo(info)).toBe(true);
+  if (!isPlaylistInfo(info)) {
+    return;
+  }
+  expect(info.entries?.map((entry) => isVideoInfo(entry))).toStrictEqual([true, false, false]);
+  expect(isUrlInfo(info.entries?.[2] ?? null)).toBe(true);
+});
+
+test('parse dumpJson() lines', () => {
+  const infos = parseInfoJsonLines('{"id": "a"}\n{"id": "b", "_type": "video"}\n\n');
+  expect(infos.map((info) => info.id)).toStrictEqual(['a', 'b']);
+});
+
+test('parse invalid info JSON', () => {
+  expect(() => parseInfoJson('{"id": ')).toThrow('Invalid info JSON: ');
+  expect(() => parseInfoJson('[]')).toThrow('Invalid info JSON: value must be an object');
+  expect(() => parseInfoJson({ title: 'x' })).toThrow('Invalid info JSON: id must be a string');
+  expect(() => parseInfoJson({ id: 'a', _type: 'channel' })).toThrow(
+    'Invalid info JSON: _type must be one of video, playlist, multi_video, url, url_transparent'
+  );
+  expect(() => parseInfoJson({ id: 'a', formats: [{ format_id: '18', height: '360' }] })).toThrow(
+    'Invalid info JSON: formats[0].height must be a number'
+  );
+  expect(() => parseInfoJson({ id: 'a', tags: ['a', 1] })).toThrow(
+    'Invalid info JSON: tags must be an array of strings'
+  );
+  expect(() => parseInfoJson({ id: 'a', chapters: [{ start_time: 0 }] })).toThrow(
+    'Invalid info JSON: chapters[0].end_time must be a number'
+  );
+  expect(() => parseInfoJson({ id: 'a', subtitles: { en: {} } })).toThrow(
+    'Invalid info JSON: subtitles.en must be an array'
+  );
+  expect(() =>
+    parseInfoJson({ _type: 'playlist', id: 'PL1', entries: [{ id: 'a' }, { _type: 'url' }] })
+  ).toThrow('Invalid info JSON: entries[1].url must be a string');
+  expect(() =>
+    parseInfoJson({ id: 'a', requested_downloads: [{ requested_formats: [{}] }] })
+  ).toThrow(
+    'Invalid info JSON: requested_downloads[0].requested_formats[0].format_id must be a string'
+  );
+});
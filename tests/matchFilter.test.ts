@@ -0,0 +1,123 @@
+import { YtdlpSyntaxError } from '../src/errors';
+import { MatchFilter } from '../src/matchFilter';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+test('match filter builder', () => {
+  const toBe =
+    "!is_live & like_count>?100 & description~=(?i)\\bcats \\& dogs\\b & title!*=' trailer'";
+  const build = MatchFilter.missing('is_live')
+    .where('like_count', '>', 100, { allowUnknown: true })
+    .where('description', '~=', '(?i)\\bcats & dogs\\b')
+    .where('title', '!*=', ' trailer')
+    .toString();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('match filters OR', () => {
+  const toBe = `yt-dlp --match-filters '!is_live' --match-filters 'duration>60 & upload_date>=20240101'`;
+  const build = new YtdlpCommandBuilder()
+    .matchFilters([
+      MatchFilter.missing('is_live'),
+      MatchFilter.where('duration', '>', 60).where('upload_date', '>=', 20240101)
+    ])
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('break match filters', () => {
+  const toBe = ['yt-dlp', '--break-match-filters', 'was_live', '--break-match-filters', 'id=abc'];
+  const build = new YtdlpCommandBuilder()
+    .breakMatchFilters([MatchFilter.has('was_live'), 'id=abc'])
+    .buildArgv();
+  expect(build).toStrictEqual(toBe);
+  expect(() => new YtdlpCommandBuilder().breakMatchFilters([])).toThrow(
+    'Break match filter must be provided'
+  );
+});
+
+test('match filter values are quoted when needed', () => {
+  expect(MatchFilter.where('title', '=', "it's").toString()).toBe("title=it's");
+  expect(MatchFilter.where('title', '=', "'quoted'").toString()).toBe("title='\\'quoted\\''");
+  expect(MatchFilter.where('id', '=', '1234').toString()).toBe("id='1234'");
+  expect(MatchFilter.where('title', '^=', '').toString()).toBe("title^=''");
+  expect(MatchFilter.where('filesize', '<', '50M').toString()).toBe('filesize<50M');
+});
+
+test('match filter builder validation', () => {
+  expect(() => MatchFilter.where('duration', '>', 'long')).toThrow(
+    'Operator ">" needs a number, not "long"'
+  );
+  expect(() => MatchFilter.where('title', '*=', 5 as unknown as string)).toThrow(
+    'Operator "*=" compares strings, not numbers'
+  );
+  expect(() => MatchFilter.has('Title')).toThrow('Invalid filter field "Title"');
+  expect(() => MatchFilter.where('duration', '=>' as '>=', 5)).toThrow(
+    'Unknown filter operator "=>"'
+  );
+});
+
+test('negated numeric match filters', () => {
+  expect(MatchFilter.parse('duration !> 60 & like_count !<=? 10').getConditions()).toStrictEqual([
+    { field: 'duration', operator: '!>', value: 60 },
+    { field: 'like_count', operator: '!<=', value: 10, allowUnknown: true }
+  ]);
+  expect(MatchFilter.where('duration', '!>', 60).toString()).toBe('duration!>60');
+  expect(() => MatchFilter.where('duration', '!>', 'long')).toThrow(
+    'Operator "!>" needs a number, not "long"'
+  );
+});
+
+test('match filter strings are validated in matchFilters()', () => {
+  const toBe =
+    "yt-dlp --match-filters 'duration !> 60' --match-filters - --break-match-filters '!is_live'";
+  const build = new YtdlpCommandBuilder()
+    .matchFilters(['duration !> 60', '-'])
+    .breakMatchFilters('!is_live')
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+  expect(() => new YtdlpCommandBuilder().matchFilters('duration >>> 3')).toThrow(YtdlpSyntaxError);
+  expect(() =>
+    new YtdlpCommandBuilder().breakMatchFilters(['duration > 3', 'Duration > 3'])
+  ).toThrow('Invalid filter field "Duration" at position 0');
+});
+
+test('parse match filter', () => {
+  const filter = MatchFilter.parse(
+    '!is_live & like_count >? 100 & description ~= \'(?i)\\bcats \\& dogs\\b\' & title !^= "it\\"s" & playable_in_embed'
+  );
+  expect(filter.getConditions()).toStrictEqual([
+    { field: 'is_live', present: false },
+    { field: 'like_count', operator: '>', value: 100, allowUnknown: true },
+    { field: 'description', operator: '~=', value: '(?i)\\bcats & dogs\\b' },
+    { field: 'title', operator: '!^=', value: 'it"s' },
+    { field: 'playable_in_embed', present: true }
+  ]);
+  expect(MatchFilter.parse(filter.toString()).getConditions()).toStrictEqual(
+    filter.getConditions()
+  );
+});
+
+test.each([
+  ['duration > 60 & & like_count > 1', 'Empty filter condition at position 16'],
+  ['duration >> 60', 'Unknown filter operator ">>" at position 9'],
+  ['duration => 60', 'Unknown filter operator "=>" at position 9'],
+  ['Duration > 60', 'Invalid filter field "Duration" at position 0'],
+  ['duration > ', 'Expected a value at position 11'],
+  ['duration > long', 'Operator ">" needs a number, not "long" at position 11'],
+  ["title = 'abc", 'Unterminated string at position 8'],
+  ['!is_live = 1', 'Unexpected "=" after "!is_live" at position 9'],
+  ['duration !>> 60', 'Unknown filter operator "!>>" at position 9'],
+  ['duration > 60 & 5 < like_count', 'Invalid filter field "5" at position 16'],
+  ['like_count > 100 & ~', 'Expected a field name, found "~" at position 19']
+])('parse invalid match filter: %s', (input, message) => {
+  expect.assertions(2);
+  try {
+    MatchFilter.parse(input);
+  } catch (error) {
+    expect(error).toBeInstanceOf(YtdlpSyntaxError);
+    expect((error as YtdlpSyntaxError).message).toBe(message);
+  }
+});
@@ -0,0 +1,124 @@
+import { OPTION_CONFLICTS } from '../src/optionConflicts';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+import { YTDLP_OPTIONS } from '../src/types';
+
+const KNOWN_OPTIONS: readonly string[] = YTDLP_OPTIONS;
+
+test('conflicting options are kept silently by default', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const toBe = 'yt-dlp --embed-subs --no-embed-subs';
+  const build = new YtdlpCommandBuilder().embedSubs().noEmbedSubs().build();
+  console.log(build);
+  expect(build).toBe(toBe);
+  expect(warn).not.toHaveBeenCalled();
+  warn.mockRestore();
+});
+
+test('conflicting options warn through onWarning', () => {
+  const onWarning = jest.fn();
+  const toBe = 'yt-dlp --embed-subs --no-embed-subs';
+  const build = new YtdlpCommandBuilder(undefined, { conflicts: 'warn', onWarning })
+    .embedSubs()
+    .noEmbedSubs()
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+  expect(onWarning).toHaveBeenCalledWith('--no-embed-subs conflicts with --embed-subs');
+});
+
+test('conflicting options warn on the console without onWarning', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  new YtdlpCommandBuilder(undefined, { conflicts: 'warn' }).quiet().verbose();
+  expect(warn).toHaveBeenCalledWith('--verbose conflicts with --quiet');
+  warn.mockRestore();
+});
+
+test('conflicting options throw', () => {
+  const builder = new YtdlpCommandBuilder(undefined, { conflicts: 'throw' }).noOverwrites();
+  expect(() => builder.forceOverwrites()).toThrow(
+    '--force-overwrites conflicts with --no-overwrites'
+  );
+  expect(() => builder.forceIpv4().forceIpv6()).toThrow('--force-ipv6 conflicts with --force-ipv4');
+  expect(builder.build()).toBe('yt-dlp --no-overwrites --force-ipv4');
+});
+
+test('conflicting options with last-wins', () => {
+  const toBe = 'yt-dlp --no-update --no-cookies --cookies-from-browser firefox --verbose';
+  const build = new YtdlpCommandBuilder(undefined, { conflicts: 'last-wins' })
+    .update()
+    .cookies('cookies.txt')
+    .quiet()
+    .noUpdate()
+    .noCookies()
+    .cookiesFromBrowser('firefox')
+    .verbose()
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('last-wins lets a removed option be added again', () => {
+  const toBe = 'yt-dlp --update-to nightly@latest';
+  const build = new YtdlpCommandBuilder(undefined, { conflicts: 'last-wins' })
+    .updateTo('stable')
+    .noUpdate()
+    .updateTo('nightly')
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('option values are not taken for conflicting options', () => {
+  const build = new YtdlpCommandBuilder(undefined, { conflicts: 'throw' })
+    .exec('echo --no-exec')
+    .passthrough('--', '--no-exec')
+    .build();
+  expect(build).toBe("yt-dlp --exec 'after_move:echo --no-exec' -- --no-exec");
+});
+
+test('validate() returns every conflict', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const builder = new YtdlpCommandBuilder()
+    .ignoreErrors()
+    .writeSubs()
+    .abortOnError()
+    .noWriteSubs()
+    .noAbortOnError();
+  expect(builder.validate()).toStrictEqual([
+    {
+      options: ['--write-subs', '--no-write-subs'],
+      message: '--no-write-subs conflicts with --write-subs'
+    },
+    {
+      options: ['--ignore-errors', '--abort-on-error', '--no-abort-on-error'],
+      message: '--no-abort-on-error conflicts with --ignore-errors, --abort-on-error'
+    }
+  ]);
+  expect(new YtdlpCommandBuilder().writeSubs().embedSubs().validate()).toStrictEqual([]);
+  warn.mockRestore();
+});
+
+test('parse() applies the conflict policy', () => {
+  expect(() =>
+    YtdlpCommandBuilder.parse('yt-dlp --mtime --no-mtime', { conflicts: 'throw' })
+  ).toThrow('--no-mtime conflicts with --mtime');
+  expect(YtdlpCommandBuilder.parse('yt-dlp -4 -6', { conflicts: 'last-wins' }).build()).toBe(
+    'yt-dlp --force-ipv6'
+  );
+});
+
+test('every negative flag is in the conflict table', () => {
+  const pairs = KNOWN_OPTIONS.filter(
+    (option) => option.startsWith('--no-') && KNOWN_OPTIONS.includes(`--${option.slice(5)}`)
+  );
+  expect(pairs.length).toBeGreaterThan(50);
+  for (const negative of pairs) {
+    const positive = `--${negative.slice(5)}`;
+    expect(
+      OPTION_CONFLICTS.some((group) => group.includes(positive) && group.includes(negative))
+    ).toBe(true);
+  }
+  for (const option of OPTION_CONFLICTS.flat()) {
+    expect(KNOWN_OPTIONS).toContain(option);
+  }
+});
@@ -0,0 +1,103 @@
+import { OPTION_RULES } from '../src/optionRules';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+import { YTDLP_OPTIONS } from '../src/types';
+
+const KNOWN_OPTIONS: readonly string[] = YTDLP_OPTIONS;
+
+test('lint() reports options missing the option they depend on', () => {
+  const diagnostics = new YtdlpCommandBuilder()
+    .audioFormat('mp3')
+    .subLangs('en')
+    .clientCertificateKey('key.pem')
+    .maxSleepInterval(10)
+    .lint();
+  expect(diagnostics).toStrictEqual([
+    {
+      severity: 'warning',
+      options: ['--audio-format', '--extract-audio'],
+      message: '--audio-format has no effect without --extract-audio'
+    },
+    {
+      severity: 'warning',
+      options: ['--sub-langs', '--write-subs', '--write-auto-subs', '--embed-subs'],
+      message: '--sub-langs has no effect without --write-subs, --write-auto-subs or --embed-subs'
+    },
+    {
+      severity: 'error',
+      options: ['--client-certificate-key', '--client-certificate'],
+      message: '--client-certificate-key requires --client-certificate'
+    },
+    {
+      severity: 'error',
+      options: ['--max-sleep-interval', '--sleep-interval'],
+      message: '--max-sleep-interval requires --sleep-interval'
+    }
+  ]);
+});
+
+test('lint() passes when dependencies are met', () => {
+  const diagnostics = new YtdlpCommandBuilder()
+    .extractAudio()
+    .audioFormat('mp3')
+    .audioQuality(0)
+    .writeAutoSubs()
+    .subLangs('en')
+    .subFormat('vtt')
+    .convertSubs('srt')
+    .embedSubs()
+    .apMso('Comcast_SSO')
+    .apUsername('user')
+    .sleepInterval(5)
+    .maxSleepInterval(10)
+    .lint();
+  expect(diagnostics).toStrictEqual([]);
+  expect(new YtdlpCommandBuilder().convertSubs().lint()).toStrictEqual([]);
+});
+
+test('lint() counts --embed-subs as writing subtitles', () => {
+  const diagnostics = new YtdlpCommandBuilder()
+    .embedSubs()
+    .subLangs('en')
+    .subFormat('srt')
+    .convertSubs('srt')
+    .lint();
+  expect(diagnostics.map(({ options }) => options[0])).toStrictEqual(['--embed-subs']);
+});
+
+test('lint() reports options that do not mix', () => {
+  const diagnostics = new YtdlpCommandBuilder()
+    .quiet()
+    .printToFile('%(title)s', 'titles.txt')
+    .embedSubs()
+    .lint();
+  expect(diagnostics.map(({ severity, options }) => [severity, options])).toStrictEqual([
+    ['info', ['--embed-subs', '--write-subs', '--write-auto-subs']],
+    ['info', ['--print-to-file', '--quiet']]
+  ]);
+});
+
+test('lint() includes conflicts', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const diagnostics = new YtdlpCommandBuilder().apUsername('user').quiet().verbose().lint();
+  expect(diagnostics).toStrictEqual([
+    {
+      severity: 'warning',
+      options: ['--quiet', '--verbose'],
+      message: '--verbose conflicts with --quiet'
+    },
+    {
+      severity: 'warning',
+      options: ['--ap-username', '--ap-mso'],
+      message: '--ap-username has no effect without --ap-mso'
+    }
+  ]);
+  warn.mockRestore();
+});
+
+test('every option rule uses known options', () => {
+  for (const rule of OPTION_RULES) {
+    for (const option of [rule.option, ...(rule.requires ?? []), ...(rule.excludes ?? [])]) {
+      expect(KNOWN_OPTIONS).toContain(option);
+    }
+  }
+});
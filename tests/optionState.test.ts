@@ -0,0 +1,110 @@
+import { fromOptionKey, toOptionKey } from '../src/commandParser';
+import { YTDLP_OPTIONS, YtdlpCommandJSON } from '../src/types';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+const URL = 'https://www.youtube.com/watch?v=dQw4w9WgXcQ';
+
+test('getOption', () => {
+  const builder = new YtdlpCommandBuilder()
+    .format('bv+ba/b')
+    .noPlaylist()
+    .addHeaders('Referer', 'https://example.com')
+    .addHeaders('Origin', 'https://example.com')
+    .replaceInMetadata('title', '[ _]', '-');
+  expect(builder.getOption('--format')).toBe('bv+ba/b');
+  expect(builder.getOption('--no-playlist')).toBe(true);
+  expect(builder.getOption('--add-headers')).toStrictEqual([
+    'Referer:https://example.com',
+    'Origin:https://example.com'
+  ]);
+  expect(builder.getOption('--replace-in-metadata')).toStrictEqual([
+    ['pre_process:title', '[ _]', '-']
+  ]);
+  expect(builder.getOption('--output')).toBeUndefined();
+  expect(builder.getOption('--quiet')).toBeUndefined();
+});
+
+test('unset', () => {
+  const builder = new YtdlpCommandBuilder()
+    .format('best')
+    .paths('/media')
+    .paths('temp:/tmp')
+    .extractAudio()
+    .url(URL);
+  builder.unset('--format').unset('--paths').unset('--quiet');
+  expect(builder.build()).toBe(`yt-dlp --extract-audio '${URL}'`);
+  expect(builder.format('bv+ba').build()).toBe(`yt-dlp --extract-audio --format bv+ba '${URL}'`);
+  expect(() => builder.unset('--nope' as '--quiet')).toThrow('Unknown option "--nope"');
+});
+
+test('unset on an immutable builder', () => {
+  const base = new YtdlpCommandBuilder('yt-dlp', { immutable: true }).quiet().noPlaylist();
+  expect(base.unset('--quiet').build()).toBe('yt-dlp --no-playlist');
+  expect(base.build()).toBe('yt-dlp --quiet --no-playlist');
+});
+
+test('toJSON', () => {
+  const builder = new YtdlpCommandBuilder('/usr/bin/yt-dlp')
+    .format('bv+ba/b')
+    .output('%(title)s.%(ext)s')
+    .output('thumbs/%(id)s.%(ext)s', 'thumbnail')
+    .embedSubs()
+    .printToFile('%(title)s', 'titles.txt')
+    .url(URL)
+    .passthrough('--some-new-option', 'value');
+  const toBe: YtdlpCommandJSON = {
+    ytdlpPath: '/usr/bin/yt-dlp',
+    options: {
+      format: 'bv+ba/b',
+      output: ['%(title)s.%(ext)s', 'thumbnail:thumbs/%(id)s.%(ext)s'],
+      embedSubs: true,
+      printToFile: [['%(title)s', 'titles.txt']]
+    },
+    urls: [URL],
+    passthrough: ['--some-new-option', 'value']
+  };
+  expect(builder.toJSON()).toStrictEqual(toBe);
+  expect(JSON.parse(JSON.stringify(builder))).toStrictEqual(toBe);
+});
+
+test('fromJSON', () => {
+  const builder = new YtdlpCommandBuilder()
+    .cookies('cookies.txt')
+    .retries('infinite')
+    .extractorArgs('youtube', 'player_client=web')
+    .replaceInMetadata('title', '[ _]', '-')
+    .quiet()
+    .url(URL)
+    .passthrough('--some-new-option');
+  const json = JSON.parse(JSON.stringify(builder)) as YtdlpCommandJSON;
+  const restored = YtdlpCommandBuilder.fromJSON(json);
+  console.log(restored.build());
+  expect(restored.build()).toBe(builder.build());
+  expect(restored.toJSON()).toStrictEqual(json);
+  expect(() => restored.quiet()).toThrow('Cannot call quiet more than once');
+});
+
+test('fromJSON validates options', () => {
+  const json = (options: Record<string, unknown>) =>
+    ({ ytdlpPath: 'yt-dlp', options, urls: [], passthrough: [] }) as YtdlpCommandJSON;
+  expect(() => YtdlpCommandBuilder.fromJSON(json({ nope: true }))).toThrow('Unknown option "nope"');
+  expect(() => YtdlpCommandBuilder.fromJSON(json({ format: true }))).toThrow(
+    'Option "format" expects 1 value'
+  );
+  expect(() => YtdlpCommandBuilder.fromJSON(json({ quiet: 'yes' }))).toThrow(
+    'Option "quiet" expects no values'
+  );
+  expect(() => YtdlpCommandBuilder.fromJSON(json({ retries: 'many' }))).toThrow();
+  expect(
+    YtdlpCommandBuilder.fromJSON(json({ quiet: true }), { immutable: true })
+      .noPlaylist()
+      .build()
+  ).toBe('yt-dlp --quiet --no-playlist');
+});
+
+test('option keys round trip', () => {
+  for (const option of YTDLP_OPTIONS) {
+    expect(fromOptionKey(toOptionKey(option))).toBe(option);
+  }
+  expect(toOptionKey('--force-ipv4')).toBe('forceIpv4');
+});
@@ -0,0 +1,119 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  compareVersions,
+  deriveOptionVersions,
+  findUnsupportedOption,
+  getOptionVersions,
+  getVersionedOptions,
+  setOptionVersions
+} from '../src/optionVersions';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+const OPTIONS_TXT = readFileSync(join(__dirname, '..', 'options.txt'), 'utf8');
+
+test('target version rejects newer options', () => {
+  const builder = new YtdlpCommandBuilder('yt-dlp', { targetVersion: '2025.10.22' }).format('best');
+  expect(() => builder.jsRuntime('deno')).toThrow(
+    '--js-runtimes is not supported by yt-dlp 2025.10.22 (added in 2025.11.12)'
+  );
+  expect(() => builder.passthrough('--remote-components=ejs:github')).toThrow(
+    '--remote-components is not supported by yt-dlp 2025.10.22 (added in 2025.11.12)'
+  );
+  expect(builder.presetAlias('mp3').build()).toBe('yt-dlp --format best --preset-alias mp3');
+});
+
+test('target version can warn instead', () => {
+  const onWarning = jest.fn();
+  const toBe = 'yt-dlp --impersonate chrome';
+  const build = new YtdlpCommandBuilder('yt-dlp', {
+    targetVersion: '2023.12.30',
+    unsupportedOptions: 'warn',
+    onWarning
+  })
+    .impersonate('chrome')
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+  expect(onWarning).toHaveBeenCalledWith(
+    '--impersonate is not supported by yt-dlp 2023.12.30 (added in 2024.03.10)'
+  );
+});
+
+test('target version applies to parsed commands and clones', () => {
+  expect(() =>
+    YtdlpCommandBuilder.parse('yt-dlp -t mp3 URL', { targetVersion: '2025.01.26' })
+  ).toThrow('--preset-alias is not supported by yt-dlp 2025.01.26 (added in 2025.04.30)');
+  const builder = new YtdlpCommandBuilder().jsRuntime('deno');
+  expect(() => builder.clone({ targetVersion: '2025.10.22' })).toThrow(
+    '--js-runtimes is not supported by yt-dlp 2025.10.22'
+  );
+  expect(builder.clone({ targetVersion: '2025.11.12.232800' }).build()).toBe(
+    'yt-dlp --js-runtimes deno'
+  );
+  expect(() => new YtdlpCommandBuilder('yt-dlp', { targetVersion: 'latest' })).toThrow(
+    'Invalid yt-dlp version "latest", expected YYYY.MM.DD'
+  );
+});
+
+test('compare versions', () => {
+  expect(compareVersions('2025.10.22', '2025.11.12')).toBeLessThan(0);
+  expect(compareVersions('2025.9.5', '2025.09.05')).toBe(0);
+  expect(compareVersions('2025.11.12.1', '2025.11.12')).toBeGreaterThan(0);
+});
+
+test('version table coverage', () => {
+  const documented = OPTIONS_TXT.match(/--[a-z][\w-]*/g) ?? [];
+  expect(getVersionedOptions()).toStrictEqual([
+    '--download-sections',
+    '--netrc-cmd',
+    '--impersonate',
+    '--list-impersonate-targets',
+    '--plugin-dirs',
+    '--no-plugin-dirs',
+    '--preset-alias',
+    '--js-runtimes',
+    '--no-js-runtimes',
+    '--remote-components',
+    '--no-remote-components'
+  ]);
+  for (const option of getVersionedOptions()) {
+    expect(documented).toContain(option);
+  }
+  for (const option of ['--progress-delta', '--break-match-filters', '--alias']) {
+    expect(getOptionVersions(option)).toBeUndefined();
+    expect(findUnsupportedOption(option, '2021.01.01')).toBeUndefined();
+  }
+});
+
+test('removed options', () => {
+  setOptionVersions({ '--no-colors': { since: '2021.06.01', removedIn: '2023.11.14' } });
+  expect(findUnsupportedOption('--no-colors', '2023.11.14')).toBe(
+    '--no-colors is not supported by yt-dlp 2023.11.14 (removed in 2023.11.14)'
+  );
+  expect(findUnsupportedOption('--no-colors', '2023.10.13')).toBeUndefined();
+  expect(() =>
+    new YtdlpCommandBuilder('yt-dlp', { targetVersion: '2024.03.10' }).passthrough('--no-colors')
+  ).toThrow('--no-colors is not supported by yt-dlp 2024.03.10 (removed in 2023.11.14)');
+  setOptionVersions({ '--no-colors': undefined });
+  expect(getOptionVersions('--no-colors')).toBeUndefined();
+});
+
+test('derive option versions from successive --help dumps', () => {
+  const older = OPTIONS_TXT.split('\n')
+    .filter((line) => !/--(no-)?(js-runtimes|remote-components)/.test(line))
+    .join('\n')
+    .concat('\n  Legacy Options:\n    --no-colors                     Do not emit color codes\n');
+  expect(
+    deriveOptionVersions([
+      { version: '2025.11.12', help: OPTIONS_TXT },
+      { version: '2025.10.22', help: older }
+    ])
+  ).toStrictEqual({
+    '--js-runtimes': { since: '2025.11.12' },
+    '--no-js-runtimes': { since: '2025.11.12' },
+    '--remote-components': { since: '2025.11.12' },
+    '--no-remote-components': { since: '2025.11.12' },
+    '--no-colors': { removedIn: '2025.11.12' }
+  });
+});
@@ -0,0 +1,178 @@
+import { YtdlpSyntaxError } from '../src/errors';
+import { OutputTemplate } from '../src/outputTemplate';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+test('output template builder', () => {
+  const toBe = '%(uploader|Unknown)s - %(upload_date>%Y-%m-%d)s [%(id)s].%(ext)s';
+  const template = OutputTemplate.field('uploader', { default: 'Unknown' })
+    .text(' - ')
+    .field('upload_date', { dateFormat: '%Y-%m-%d' })
+    .text(' [')
+    .field('id')
+    .text('].')
+    .field('ext');
+  const build = template.toString();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('output template in output()', () => {
+  const toBe = "yt-dlp --output '%(playlist_index)03d - %(title)s.%(ext)s'";
+  const template = OutputTemplate.field('playlist_index', { flags: '0', width: 3, conversion: 'd' })
+    .text(' - ')
+    .field('title')
+    .text('.')
+    .field('ext');
+  const build = new YtdlpCommandBuilder().output(template).build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('output template field options', () => {
+  const { field, text } = OutputTemplate;
+  expect(field('playlist_index', { math: [{ operator: '+', operand: 10 }] }).toString()).toBe(
+    '%(playlist_index+10)s'
+  );
+  expect(
+    field('n_entries', {
+      math: [
+        { operator: '+', operand: 1 },
+        { operator: '-', operand: 'playlist_index' }
+      ],
+      conversion: 'd'
+    }).toString()
+  ).toBe('%(n_entries+1-playlist_index)d');
+  expect(
+    field('release_date', {
+      dateFormat: '%Y',
+      alternatives: [{ field: 'upload_date', dateFormat: '%Y' }],
+      default: 'Unknown'
+    }).toString()
+  ).toBe('%(release_date>%Y,upload_date>%Y|Unknown)s');
+  expect(
+    field('chapters', { replacement: 'has chapters', default: 'no chapters' }).toString()
+  ).toBe('%(chapters&has chapters|no chapters)s');
+  expect(field('formats.:.format_id', { flags: '#', conversion: 'l' }).toString()).toBe(
+    '%(formats.:.format_id)#l'
+  );
+  expect(field('title', { precision: 50, conversion: 'S' }).toString()).toBe('%(title).50S');
+  expect(text('100% ').field('title').toString()).toBe('100%% %(title)s');
+  expect(field('filesize', { negate: true }).toString()).toBe('%(-filesize)s');
+});
+
+test('output template builder errors', () => {
+  expect(() => OutputTemplate.field('title', { default: 'a)b' })).toThrow(
+    'Default "a)b" cannot contain ")"'
+  );
+  expect(() => OutputTemplate.field('title', { replacement: 'x|y' })).toThrow(
+    'Replacement "x|y" cannot contain ")" or "|"'
+  );
+  expect(() => OutputTemplate.field('title', { conversion: 'z' as 's' })).toThrow(
+    'Unknown conversion type "z"'
+  );
+  expect(() => OutputTemplate.field('title', { width: -1 })).toThrow(
+    'Width must be a non-negative integer'
+  );
+  expect(() => OutputTemplate.field('upload_date', { dateFormat: '%Y,%m' })).toThrow(
+    'Invalid date format "%Y,%m"'
+  );
+  expect(() => OutputTemplate.field('title %' as 'title')).toThrow(
+    'Invalid output template field "title %"'
+  );
+  expect(() => OutputTemplate.field('' as 'title')).toThrow(
+    'Output template field must be provided'
+  );
+});
+
+test('output template is immutable', () => {
+  const template = OutputTemplate.field('title');
+  template.text('.').field('ext');
+  expect(template.toString()).toBe('%(title)s');
+});
+
+test.each([
+  '%(title)s [%(id)s].%(ext)s',
+  '%(playlist_index+10)03d - %(title).200B.%(ext)s',
+  '%(n_entries+1-playlist_index)d',
+  '%(duration>%H-%M-%S)s',
+  '%(epoch-3600>%H-%M-%S)s',
+  '%(release_date>%Y,upload_date>%Y|Unknown)s',
+  '%(title&TITLE={:>20}|NO TITLE)s',
+  '%(tags.0)s %(subtitles.en.-1.ext)s %(id.3:7)s %(id.6:2:-1)s',
+  '%(formats.:.{format_id,height})#j',
+  '%(.{id,title})j',
+  '%(title)+.100U %(filesize)B %(view_count)D %(description)q %(id)ld',
+  '%(upload_date>%Y\\,%m)s',
+  '100%% done %PATH% %s',
+  'no placeholders at all'
+])('parse output template: %s', (input) => {
+  const template = OutputTemplate.parse(input);
+  expect(OutputTemplate.parse(template.toString()).getParts()).toStrictEqual(template.getParts());
+});
+
+test('parse output template parts', () => {
+  const template = OutputTemplate.parse(
+    '%(release_date>%Y,upload_date|NA)s - %(-view_count*2)05.1f'
+  );
+  expect(template.getParts()).toStrictEqual([
+    {
+      type: 'field',
+      field: 'release_date',
+      dateFormat: '%Y',
+      alternatives: [{ field: 'upload_date' }],
+      default: 'NA',
+      conversion: 's'
+    },
+    { type: 'text', text: ' - ' },
+    {
+      type: 'field',
+      field: 'view_count',
+      negate: true,
+      math: [{ operator: '*', operand: 2 }],
+      flags: '0',
+      width: 5,
+      precision: 1,
+      conversion: 'f'
+    }
+  ]);
+  expect(template.getFields()).toStrictEqual(['release_date', 'upload_date', 'view_count']);
+  expect(OutputTemplate.parse('50%s %%(id)s').getParts()).toStrictEqual([
+    { type: 'text', text: '50%s %(id)s' }
+  ]);
+});
+
+test.each([
+  ['%(title.%(ext)s', 'Unexpected "." in output template field at position 7'],
+  ['%(title)s.%(ext', 'Unclosed "(" in output template at position 11'],
+  ['%(title)z', 'Unknown conversion type "z" at position 8'],
+  ['%(title)', 'Missing conversion type at position 8'],
+  ['%(title))s', 'Unknown conversion type ")" at position 8'],
+  ['%(id)05.2', 'Missing conversion type at position 9'],
+  ['%(title name)s', 'Unexpected " " in output template field at position 7'],
+  ['%(a(b)s', 'Unexpected "(" in output template field at position 3'],
+  ['%(playlist_index+)d', 'Expected a field or number after "+" at position 17'],
+  ['%(upload_date>)s', 'Expected a date format after ">" at position 14'],
+  ['%(title,)s', 'Expected a field, found ")" at position 8']
+])('parse invalid output template: %s', (input, message) => {
+  expect.assertions(3);
+  try {
+    OutputTemplate.parse(input);
+  } catch (error) {
+    expect(error).toBeInstanceOf(YtdlpSyntaxError);
+    expect((error as YtdlpSyntaxError).message).toBe(message);
+    expect((error as YtdlpSyntaxError).input).toBe(input);
+  }
+});
+
+test('output() and print() validate template strings', () => {
+  expect(() => new YtdlpCommandBuilder().output('%(title.%(ext)s')).toThrow(YtdlpSyntaxError);
+  expect(() => new YtdlpCommandBuilder().print('%(title)z')).toThrow(
+    'Unknown conversion type "z" at position 8'
+  );
+  expect(() => new YtdlpCommandBuilder().printToFile('%(title)s', '%(id.txt')).toThrow(
+    'Unclosed "(" in output template at position 1'
+  );
+  expect(new YtdlpCommandBuilder().print('title').output('100%.%(ext)s').build()).toBe(
+    "yt-dlp --print title --output '100%.%(ext)s'"
+  );
+});
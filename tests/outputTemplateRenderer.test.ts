@@ -0,0 +1,124 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { OutputTemplate } from '../src/outputTemplate';
+import { previewFilename, renderOutputTemplate } from '../src/outputTemplateRenderer';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+const INFO = JSON.parse(
+  readFileSync(join(__dirname, 'fixtures', 'video.info.json'), 'utf8')
+) as Record<string, unknown>;
+const TITLE = 'Rick Astley - Never Gonna Give You Up (Official Video) (4K Remaster)';
+
+test('preview filename with the default template', () => {
+  const toBe = `${TITLE} [dQw4w9WgXcQ].mp4`;
+  const build = new YtdlpCommandBuilder().previewFilename(INFO, undefined, { platform: 'linux' });
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('preview filename with restrictFilenames() and paths()', () => {
+  const toBe =
+    '/media/videos/Rick_Astley/Rick_Astley_-_Never_Gonna_Give_You_Up_Official_Video_4K_Remaster [dQw4w9WgXcQ].mp4';
+  const build = new YtdlpCommandBuilder()
+    .paths('/media/videos')
+    .output('%(channel)s/%(title)s [%(id)s].%(ext)s')
+    .restrictFilenames()
+    .previewFilename(INFO, undefined, { platform: 'linux' });
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('preview filename per type', () => {
+  const builder = new YtdlpCommandBuilder()
+    .paths('/media')
+    .paths('meta', 'infojson')
+    .output('%(id)s.%(ext)s')
+    .output('thumbs/%(id)s.%(ext)s', 'thumbnail')
+    .outputNaPlaceholder('none');
+  expect(builder.previewFilename(INFO, 'infojson', { platform: 'linux' })).toBe(
+    '/media/meta/dQw4w9WgXcQ.info.json'
+  );
+  expect(builder.previewFilename(INFO, 'thumbnail', { platform: 'linux' })).toBe(
+    '/media/thumbs/dQw4w9WgXcQ.mp4'
+  );
+  expect(builder.previewFilename(INFO, 'chapter', { platform: 'linux' })).toBe(
+    `/media/${TITLE} - none none [dQw4w9WgXcQ].mp4`
+  );
+});
+
+test('preview filename sanitization', () => {
+  const info = { ...INFO, title: 'AC/DC: Live? "Yes" <1:02:03>' };
+  expect(previewFilename('%(title)s.%(ext)s', info, { platform: 'linux' })).toBe(
+    'AC⧸DC： Live？ ＂Yes＂ ＜1_02_03＞.mp4'
+  );
+  expect(
+    previewFilename('%(title)s.%(ext)s', info, { platform: 'linux', restrictFilenames: true })
+  ).toBe('AC_DC_-_Live_Yes_1_02_03.mp4');
+  expect(
+    previewFilename('%(title)S', { title: 'Ça va: très bien' }, { restrictFilenames: true })
+  ).toBe('Ca_va_-_tres_bien');
+  expect(previewFilename('%(uploader)s - %(id)s', INFO, { naPlaceholder: '' })).toBe(
+    ' - dQw4w9WgXcQ'
+  );
+});
+
+test('preview filename with trimFilenames() and windowsFilenames()', () => {
+  const builder = new YtdlpCommandBuilder().output('clip?/%(title)s.%(ext)s').trimFilenames(10);
+  expect(builder.previewFilename(INFO, undefined, { platform: 'linux' })).toBe('clip?/Rick.mp4');
+  builder.windowsFilenames();
+  expect(builder.previewFilename(INFO, undefined, { platform: 'linux' })).toBe('clip#/Rick.mp4');
+  expect(
+    new YtdlpCommandBuilder()
+      .paths('C:\\Videos')
+      .output('%(id)s.%(ext)s')
+      .previewFilename(INFO, undefined, { platform: 'win32' })
+  ).toBe('C:\\Videos\\dQw4w9WgXcQ.mp4');
+});
+
+test.each([
+  ['%(title)s by %(channel)s', `${TITLE} by Rick Astley`],
+  ['%(duration_string)s | %(duration>%M:%S)s', '3:33 | 03:33'],
+  ['%(upload_date>%Y-%m-%d)s', '2009-10-25'],
+  ['%(timestamp>%Y-%m-%d %H:%M:%S %a %b %j)s', '2009-10-25 06:51:23 Sun Oct 298'],
+  ['%(release_date>%Y,upload_date>%Y|Unknown)s', '2009'],
+  ['%(uploader|Unknown)s / %(uploader)s', 'Unknown / NA'],
+  ['%(chapters&has chapters|no chapters)s', 'no chapters'],
+  ['%(channel&by {}|)s %(channel&{:>14}|)s', 'by Rick Astley    Rick Astley'],
+  ['%(view_count)D %(view_count).1D %(like_count)#.1D', '1G 1.7G 17.2Mi'],
+  ['%(tags)l', 'rick astley, Never Gonna Give You Up'],
+  ['%(tags)#l', 'rick astley\nNever Gonna Give You Up'],
+  ['%(tags)j', '["rick astley", "Never Gonna Give You Up"]'],
+  ['%(tags)s', "['rick astley', 'Never Gonna Give You Up']"],
+  ['%(.{id,ext})j', '{"id": "dQw4w9WgXcQ", "ext": "mp4"}'],
+  ['%(formats.:.format_id)l', 'sb0, 140, 137'],
+  [
+    '%(tags.0)s|%(tags.-1)s|%(id.0:4)s|%(id.::-1)s',
+    'rick astley|Never Gonna Give You Up|dQw4|QcXgW9w4wQd'
+  ],
+  ['%(view_count+1)s %(duration*2)d %(-fps)s', '1700000001.0 426 -25.0'],
+  ['%(n_entries+1-playlist_index)d', 'NA'],
+  [
+    '%(fps)+.2f|%(fps)05d|%(ext)-6s|%(height)#x|%(view_count).3e',
+    '+25.00|00025|mp4   |0x438|1.700e+09'
+  ],
+  ['%(title).11s|%(title)q', `Rick Astley|'${TITLE}'`],
+  ['%(autonumber)s %(autonumber)d', '00001 1'],
+  ['%(is_live)s %(chapters)s %(playable_in_embed)r', 'False NA True'],
+  ['%(description)h', 'The official video for “Never Gonna Give You Up” by Rick Astley.'],
+  ['100%% %(id)s', '100% dQw4w9WgXcQ']
+])('render output template: %s', (template, toBe) => {
+  expect(renderOutputTemplate(template, INFO)).toBe(toBe);
+});
+
+test('render output template conversions', () => {
+  const info = { title: 'Café', n: 0.0001, big: 1234, tags: ['é'], nested: { a: [1, 2] } };
+  expect(renderOutputTemplate('%(title).4B|%(title)5.4B|', info)).toBe('Caf| Caf|');
+  expect(renderOutputTemplate('%(title)#U', info)).toBe('Cafe\u0301');
+  expect(renderOutputTemplate('%(n)g %(big).2g %(big)G', info)).toBe('0.0001 1.2e+03 1234');
+  expect(renderOutputTemplate('%(tags)j %(tags)+j', info)).toBe('["\\u00e9"] ["é"]');
+  expect(renderOutputTemplate('%(nested)#j', info)).toBe(
+    '{\n    "a": [\n        1,\n        2\n    ]\n}'
+  );
+  expect(renderOutputTemplate('%(title)a', info)).toBe("'Caf\\xe9'");
+  expect(renderOutputTemplate(OutputTemplate.field('title', { conversion: 'c' }), info)).toBe('C');
+});
@@ -0,0 +1,126 @@
+import { listPresets, registerPreset, unregisterPreset } from '../src/presets';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+declare module '../src/presets' {
+  interface PresetParams {
+    'podcast-mp3': { quality: number };
+    '1080p-mkv-with-subs': { langs?: string[] };
+    'archive-channel': void;
+  }
+}
+
+beforeAll(() => {
+  registerPreset('podcast-mp3', {
+    description: 'Podcast episodes as tagged MP3 files',
+    apply: (builder, { quality }) =>
+      builder.preset('mp3').audioQuality(quality).embedMetadata().embedThumbnail()
+  });
+  registerPreset('1080p-mkv-with-subs', {
+    apply: (builder, { langs = ['en'] }) =>
+      builder
+        .format('bv*[height<=1080]+ba/b[height<=1080]')
+        .preset('mkv')
+        .writeSubs()
+        .subLangs(langs.join(','))
+        .embedSubs()
+  });
+  registerPreset('archive-channel', {
+    apply: (builder) =>
+      builder
+        .downloadArchive('archive.txt')
+        .output('%(channel)s/%(upload_date)s - %(title)s [%(id)s].%(ext)s')
+        .preset('sleep')
+  });
+});
+
+afterAll(() => {
+  unregisterPreset('podcast-mp3');
+  unregisterPreset('1080p-mkv-with-subs');
+  unregisterPreset('archive-channel');
+});
+
+test.each([
+  ['mp3', "yt-dlp --format 'ba[acodec^=mp3]/ba/b' --extract-audio --audio-format mp3"],
+  [
+    'aac',
+    "yt-dlp --format 'ba[acodec^=aac]/ba[acodec^=mp4a.40.]/ba/b' --extract-audio --audio-format aac"
+  ],
+  [
+    'mp4',
+    'yt-dlp --merge-output-format mp4 --remux-video mp4 --format-sort vcodec:h264,lang,quality,res,fps,hdr:12,acodec:aac'
+  ],
+  ['mkv', 'yt-dlp --merge-output-format mkv --remux-video mkv'],
+  [
+    'sleep',
+    'yt-dlp --sleep-subtitles 5 --sleep-requests 0.75 --sleep-interval 10 --max-sleep-interval 20'
+  ]
+] as const)('shipped preset %s', (name, toBe) => {
+  const build = new YtdlpCommandBuilder().preset(name).build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('parameterized presets compose', () => {
+  const toBe =
+    "yt-dlp --format 'ba[acodec^=mp3]/ba/b' --extract-audio --audio-format mp3 --audio-quality 2 --embed-metadata --embed-thumbnail";
+  const build = new YtdlpCommandBuilder().preset('podcast-mp3', { quality: 2 }).build();
+  console.log(build);
+  expect(build).toBe(toBe);
+  expect(
+    new YtdlpCommandBuilder().preset('1080p-mkv-with-subs', { langs: ['en', 'de'] }).build()
+  ).toBe(
+    "yt-dlp --format 'bv*[height<=1080]+ba/b[height<=1080]' --merge-output-format mkv --remux-video mkv --write-subs --sub-langs en,de --embed-subs"
+  );
+  expect(new YtdlpCommandBuilder().preset('archive-channel').getOption('--sleep-interval')).toBe(
+    '10'
+  );
+});
+
+test('preset on an immutable builder', () => {
+  const base = new YtdlpCommandBuilder('yt-dlp', { immutable: true }).cookies('cookies.txt');
+  expect(base.preset('mkv').build()).toBe(
+    'yt-dlp --cookies cookies.txt --merge-output-format mkv --remux-video mkv'
+  );
+  expect(base.build()).toBe('yt-dlp --cookies cookies.txt');
+});
+
+test('failing preset leaves the builder unchanged', () => {
+  const builder = new YtdlpCommandBuilder().extractAudio();
+  expect(() => builder.preset('mp3')).toThrow('Cannot call extractAudio more than once');
+  expect(builder.build()).toBe('yt-dlp --extract-audio');
+});
+
+test('preset errors', () => {
+  expect(() => new YtdlpCommandBuilder().preset('nope')).toThrow('Unknown preset "nope"');
+  expect(() => registerPreset('mp3', { apply: () => undefined })).toThrow(
+    'Preset "mp3" is already registered'
+  );
+  expect(() => registerPreset(' ', { apply: () => undefined })).toThrow(
+    'Preset name must be provided'
+  );
+  registerPreset('loop-a', { apply: (builder) => builder.preset('loop-b') });
+  registerPreset('loop-b', { apply: (builder) => builder.preset('loop-a') });
+  expect(() => new YtdlpCommandBuilder().preset('loop-a')).toThrow(
+    'Preset "loop-a" applies itself (loop-a > loop-b > loop-a)'
+  );
+  expect(unregisterPreset('loop-a')).toBe(true);
+  expect(unregisterPreset('loop-b')).toBe(true);
+  expect(unregisterPreset('loop-b')).toBe(false);
+});
+
+test('list presets', () => {
+  expect(listPresets().map(({ name }) => name)).toStrictEqual([
+    'mp3',
+    'aac',
+    'mp4',
+    'mkv',
+    'sleep',
+    'podcast-mp3',
+    '1080p-mkv-with-subs',
+    'archive-channel'
+  ]);
+  expect(listPresets()[5]).toStrictEqual({
+    name: 'podcast-mp3',
+    description: 'Podcast episodes as tagged MP3 files'
+  });
+});
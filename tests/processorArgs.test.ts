@@ -0,0 +1,97 @@
+import { formatDownloaderArgs, formatPostprocessorArgs } from '../src/processorArgs';
+import { PostProcessorArgs } from '../src/types';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+test('structured postprocessor args', () => {
+  const toBe =
+    "yt-dlp --postprocessor-args 'Merger+FFmpeg_i1:-v quiet' --postprocessor-args 'ExtractAudio:-metadata '\\''title=Rock & Roll'\\'''";
+  const build = new YtdlpCommandBuilder()
+    .postprocessorArgs({
+      postprocessor: 'Merger',
+      executable: 'FFmpeg',
+      position: { input: 1 },
+      args: ['-v', 'quiet']
+    })
+    .postprocessorArgs({ postprocessor: 'ExtractAudio', args: ['-metadata', 'title=Rock & Roll'] })
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test('structured downloader args', () => {
+  const toBe =
+    "yt-dlp --downloader-args 'aria2c:-x 16 -s 16' --downloader-args 'ffmpeg_o:-movflags +faststart'";
+  const build = new YtdlpCommandBuilder()
+    .downloaderArgs({ downloader: 'aria2c', args: ['-x', '16', '-s', '16'] })
+    .downloaderArgs({ downloader: 'ffmpeg', position: 'output', args: ['-movflags', '+faststart'] })
+    .build();
+  console.log(build);
+  expect(build).toBe(toBe);
+});
+
+test.each<[PostProcessorArgs, string]>([
+  [{ executable: 'FFmpeg', args: ['-v', 'quiet'] }, 'FFmpeg'],
+  [{ executable: 'FFprobe', position: 'input', args: ['-v', 'quiet'] }, 'FFprobe_i'],
+  [
+    { postprocessor: 'SplitChapters', executable: 'FFmpeg', position: 'output', args: ['x'] },
+    'SplitChapters+FFmpeg_o'
+  ],
+  [
+    { postprocessor: 'EmbedThumbnail', executable: 'AtomicParsley', args: ['x'] },
+    'EmbedThumbnail+AtomicParsley'
+  ],
+  [{ executable: 'FFmpeg', position: { output: 2 }, args: ['x'] }, 'FFmpeg_o2']
+])('postprocessor args NAME: %j', (options, toBe) => {
+  expect(formatPostprocessorArgs(options)[0]).toBe(toBe);
+});
+
+test('structured args are quoted for shlex', () => {
+  expect(
+    formatPostprocessorArgs({ executable: 'FFmpeg', args: ['', "it's", 'a b', '-y'] })
+  ).toEqual(['FFmpeg', "'' 'it'\\''s' 'a b' -y"]);
+  expect(formatDownloaderArgs({ downloader: 'curl', args: ['--limit-rate', '1M'] })).toEqual([
+    'curl',
+    '--limit-rate 1M'
+  ]);
+});
+
+test('structured args round-trip through the parser', () => {
+  const builder = new YtdlpCommandBuilder()
+    .postprocessorArgs({
+      postprocessor: 'Merger',
+      executable: 'FFmpeg',
+      position: 'input',
+      args: ["it's"]
+    })
+    .downloaderArgs({ downloader: 'ffmpeg', position: { input: 1 }, args: ['-ss', '10'] });
+  expect(YtdlpCommandBuilder.parse(builder.build()).build()).toBe(builder.build());
+});
+
+test('invalid structured args', () => {
+  const builder = new YtdlpCommandBuilder();
+  expect(() => builder.postprocessorArgs({ args: ['-v'] })).toThrow(
+    'A postprocessor or executable must be provided'
+  );
+  expect(() =>
+    builder.postprocessorArgs({ postprocessor: 'Mergr' as 'Merger', args: ['-v'] })
+  ).toThrow('Unknown postprocessor "Mergr"');
+  expect(() =>
+    builder.postprocessorArgs({ executable: 'ffmpeg' as 'FFmpeg', args: ['-v'] })
+  ).toThrow('Unknown postprocessor executable "ffmpeg"');
+  expect(() =>
+    builder.postprocessorArgs({ postprocessor: 'Merger', position: 'input', args: ['-v'] })
+  ).toThrow('Positions are only supported for the FFmpeg and FFprobe executables');
+  expect(() =>
+    builder.postprocessorArgs({ executable: 'FFmpeg', position: { input: 0 }, args: ['-v'] })
+  ).toThrow('Position must be "input", "output", { input: N } or { output: N } with N >= 1');
+  expect(() => builder.postprocessorArgs({ executable: 'FFmpeg', args: [] })).toThrow(
+    'At least one argument must be provided'
+  );
+  expect(() => builder.downloaderArgs({ downloader: 'wget2' as 'wget', args: ['-v'] })).toThrow(
+    'Unknown downloader "wget2"'
+  );
+  expect(() =>
+    builder.downloaderArgs({ downloader: 'aria2c', position: 'input', args: ['-v'] })
+  ).toThrow('Positions are only supported for the ffmpeg downloader');
+  expect(builder.build()).toBe('yt-dlp');
+});
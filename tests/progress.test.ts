@@ -0,0 +1,108 @@
+import {
+  DOWNLOAD_PROGRESS_TEMPLATE,
+  parseProgress,
+  parseProgressLine,
+  parseProgressLog,
+  POSTPROCESS_PROGRESS_TEMPLATE
+} from '../src/progress';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+test('jsonProgress', () => {
+  const toBe = [
+    'yt-dlp',
+    '--newline',
+    '--progress-template',
+    `download:${DOWNLOAD_PROGRESS_TEMPLATE}`,
+    '--progress-template',
+    `postprocess:${POSTPROCESS_PROGRESS_TEMPLATE}`
+  ];
+  const build = new YtdlpCommandBuilder().jsonProgress().buildArgv();
+  console.log(build);
+  expect(build).toStrictEqual(toBe);
+});
+
+test('jsonProgress after newline', () => {
+  const build = new YtdlpCommandBuilder().newline().jsonProgress().buildArgv();
+  expect(build.filter((arg) => arg === '--newline')).toHaveLength(1);
+  expect(() => new YtdlpCommandBuilder().jsonProgress().jsonProgress()).toThrow(
+    'Cannot call jsonProgress more than once'
+  );
+});
+
+test('download progress template', () => {
+  expect(DOWNLOAD_PROGRESS_TEMPLATE).toBe(
+    '[progress:download] %(progress.{status,downloaded_bytes,total_bytes,total_bytes_estimate,speed,eta,elapsed,fragment_index,fragment_count,filename})j'
+  );
+});
+
+test('parse JSON download progress', () => {
+  expect(
+    parseProgress(
+      '[progress:download] {"status": "downloading", "downloaded_bytes": 2048, "total_bytes_estimate": 8192, "speed": 1024.5, "eta": 6, "elapsed": 2.5, "fragment_index": 2, "fragment_count": 8, "filename": "a b.mp4"}'
+    )
+  ).toStrictEqual({
+    type: 'download',
+    status: 'downloading',
+    percent: 25,
+    downloadedBytes: 2048,
+    totalBytes: 8192,
+    totalBytesEstimate: true,
+    speed: 1024.5,
+    eta: 6,
+    elapsed: 2.5,
+    fragmentIndex: 2,
+    fragmentCount: 8,
+    filename: 'a b.mp4'
+  });
+  expect(
+    parseProgress('[progress:download] {"status": "finished", "filename": "a.mp4"}')
+  ).toStrictEqual({
+    type: 'download',
+    status: 'finished',
+    percent: 100,
+    filename: 'a.mp4'
+  });
+});
+
+test('parse JSON postprocess progress', () => {
+  expect(
+    parseProgress('[progress:postprocess] {"status": "processing", "postprocessor": "Merger"}')
+  ).toStrictEqual({ type: 'postprocess', status: 'processing', postprocessor: 'Merger' });
+});
+
+test('parse invalid JSON progress', () => {
+  expect(parseProgress('[progress:download] NA')).toBeUndefined();
+  expect(parseProgress('[progress:download] {"status": "paused"}')).toBeUndefined();
+  expect(parseProgress('[progress:postprocess] ["started"]')).toBeUndefined();
+});
+
+test('parse progress log', () => {
+  const log = [
+    '[youtube] dQw4w9WgXcQ: Downloading webpage',
+    '[download]  50.0% of   10.00MiB at    2.00MiB/s ETA 00:02\r[download] 100% of   10.00MiB in 00:00:05 at 2.00MiB/s',
+    '[progress:postprocess] {"status": "started", "postprocessor": "MoveFiles"}',
+    ''
+  ].join('\n');
+  expect(parseProgressLog(log).map((progress) => [progress.type, progress.status])).toStrictEqual([
+    ['download', 'downloading'],
+    ['download', 'finished'],
+    ['postprocess', 'started']
+  ]);
+});
+
+test('parse progress lines', () => {
+  expect(parseProgressLine('[download]    1.00MiB at  500.00KiB/s (00:00:02)')).toStrictEqual({
+    type: 'download',
+    status: 'downloading',
+    downloadedBytes: 1048576,
+    speed: 512000
+  });
+  expect(parseProgressLine('[download] Video.mp4 has already been downloaded')).toStrictEqual({
+    type: 'download',
+    status: 'finished',
+    percent: 100,
+    filename: 'Video.mp4'
+  });
+  expect(parseProgressLine('[download] Destination: Video.mp4')).toBeUndefined();
+  expect(parseProgressLine('[youtube] dQw4w9WgXcQ: Downloading webpage')).toBeUndefined();
+});
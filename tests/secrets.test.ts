@@ -0,0 +1,92 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'ytdlp-secrets-'));
+  writeFileSync(join(dir, 'password'), 'from file\n');
+  process.env.YTDLP_TEST_USERNAME = 'alice';
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+  delete process.env.YTDLP_TEST_USERNAME;
+});
+
+test('secrets are read when the command is built', () => {
+  const toBe =
+    "yt-dlp --username alice --password 'from file' --video-password callback --ap-password literal";
+  const builder = new YtdlpCommandBuilder()
+    .username({ env: 'YTDLP_TEST_USERNAME' })
+    .password({ file: join(dir, 'password') })
+    .videoPassword(() => 'callback')
+    .apPassword('literal');
+  const build = builder.build();
+  console.log(build);
+  expect(build).toBe(toBe);
+
+  process.env.YTDLP_TEST_USERNAME = 'bob';
+  expect(builder.buildArgv()[2]).toBe('bob');
+  process.env.YTDLP_TEST_USERNAME = 'alice';
+});
+
+test('secrets are not kept or serialized', () => {
+  const builder = new YtdlpCommandBuilder()
+    .username({ env: 'YTDLP_TEST_USERNAME' })
+    .clientCertificatePassword(() => 'secret')
+    .format('best');
+  expect(builder.getOption('--username')).toBe('***');
+  expect(builder.toJSON().options).toStrictEqual({ format: 'best' });
+  expect(builder.toConfigFile()).toBe('# coding: utf-8\n--format best\n');
+  expect(builder.toRedactedString()).toBe(
+    "yt-dlp --username '***' --client-certificate-password '***' --format best"
+  );
+  expect(builder.clone().build()).toBe(
+    'yt-dlp --username alice --client-certificate-password secret --format best'
+  );
+});
+
+test('async secrets', async () => {
+  const builder = new YtdlpCommandBuilder()
+    .password(async () => 'hunter2')
+    .url('https://example.com');
+  expect(() => builder.build()).toThrow(
+    'The secret for --password is read asynchronously; use buildArgvAsync() or run() instead'
+  );
+  await expect(builder.buildArgvAsync()).resolves.toStrictEqual([
+    'yt-dlp',
+    '--password',
+    'hunter2',
+    'https://example.com'
+  ]);
+});
+
+test('secrets that cannot be read', async () => {
+  expect(() => new YtdlpCommandBuilder().password({ env: 'YTDLP_TEST_MISSING' }).build()).toThrow(
+    'Environment variable YTDLP_TEST_MISSING is not set (for --password)'
+  );
+  expect(() =>
+    new YtdlpCommandBuilder().password({ file: join(dir, 'missing') }).buildArgv()
+  ).toThrow(`Cannot read --password from "${join(dir, 'missing')}"`);
+  expect(() => new YtdlpCommandBuilder().username(() => '').build()).toThrow(
+    'The secret for --username is empty'
+  );
+  await expect(
+    new YtdlpCommandBuilder()
+      .password(() => Promise.reject(new Error('vault is sealed')))
+      .buildArgvAsync()
+  ).rejects.toThrow('vault is sealed');
+});
+
+test('invalid secret providers', () => {
+  const builder = new YtdlpCommandBuilder();
+  expect(() => builder.password({ env: ' ' })).toThrow('Password must be provided');
+  expect(() => builder.password({ file: 'a', env: 'B' } as { file: string })).toThrow(
+    'Password must be provided'
+  );
+  expect(() => builder.username({} as { env: string })).toThrow('Username must be provided');
+  expect(builder.build()).toBe('yt-dlp');
+});
@@ -0,0 +1,232 @@
+import { execFileSync } from 'child_process';
+import { YtdlpSyntaxError } from '../src/errors';
+import { joinShellCommand, quoteShellArg, quoteShellCommand } from '../src/shellQuote';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+
+const HOSTILE = `x'y"z $(touch pwned) \`id\` & | ; < > * ? ~ \\ %PATH% !! #\nsecond line`;
+
+/**
+ * A builder method, with an optional wrapper for methods that validate their value: the
+ * hostile value is passed inside something that passes validation.
+ */
+type HostileCase = [
+  string,
+  (builder: YtdlpCommandBuilder, value: string) => YtdlpCommandBuilder,
+  ((value: string) => string)?
+];
+
+/** Puts a value in a double-quoted format filter value. */
+const quotedFilter = (value: string) => `b[format_note="${value.replace(/["\\]/g, '\\$&')}"]`;
+
+/** Puts a value in a single-quoted match filter value. */
+const quotedMatch = (value: string) => `title = '${value.replace(/['&]/g, '\\$&')}'`;
+
+const HOSTILE_CASES: HostileCase[] = [
+  ['updateTo', (b, v) => b.updateTo('stable', v)],
+  ['url', (b, v) => b.url(v)],
+  ['useExtractors', (b, v) => b.useExtractors(v)],
+  ['defaultSearch', (b, v) => b.defaultSearch(v)],
+  ['configLocations', (b, v) => b.configLocations(v)],
+  ['pluginDirs', (b, v) => b.pluginDirs(v)],
+  ['jsRuntime', (b, v) => b.jsRuntime('node', v)],
+  ['alias', (b, v) => b.alias(v, v)],
+  ['proxy', (b, v) => b.proxy(v)],
+  ['sourceAddress', (b, v) => b.sourceAddress(v)],
+  ['impersonate', (b, v) => b.impersonate(v)],
+  ['geoVerificationProxy', (b, v) => b.geoVerificationProxy(v)],
+  ['xff', (b, v) => b.xff(v)],
+  ['playlistItems', (b, v) => b.playlistItems(v)],
+  ['minFilesize', (b, v) => b.minFilesize(v)],
+  ['maxFilesize', (b, v) => b.maxFilesize(v)],
+  ['date', (b, v) => b.date(v)],
+  ['dateBefore', (b, v) => b.dateBefore(v)],
+  ['dateAfter', (b, v) => b.dateAfter(v)],
+  ['matchFilters', (b, v) => b.matchFilters(v), quotedMatch],
+  ['breakMatchFilters', (b, v) => b.breakMatchFilters(v), quotedMatch],
+  ['downloadArchive', (b, v) => b.downloadArchive(v)],
+  ['limitRate', (b, v) => b.limitRate(v)],
+  ['throttledRate', (b, v) => b.throttledRate(v)],
+  ['retrySleep', (b, v) => b.retrySleep(v, 'fragment')],
+  ['bufferSize', (b, v) => b.bufferSize(v)],
+  ['httpChunkSize', (b, v) => b.httpChunkSize(v)],
+  ['downloadSections', (b, v) => b.downloadSections(v)],
+  ['downloadSections chapters', (b, v) => b.downloadSections({ chapters: v })],
+  ['downloader', (b, v) => b.downloader(v, 'm3u8')],
+  ['downloaderArgs', (b, v) => b.downloaderArgs(v, v)],
+  ['batchFile', (b, v) => b.batchFile(v)],
+  ['paths', (b, v) => b.paths(v, 'temp')],
+  ['output', (b, v) => b.output(v, 'subtitle')],
+  ['outputNaPlaceholder', (b, v) => b.outputNaPlaceholder(v)],
+  ['loadInfoJson', (b, v) => b.loadInfoJson(v)],
+  ['cookies', (b, v) => b.cookies(v)],
+  ['cookiesFromBrowser', (b, v) => b.cookiesFromBrowser('firefox', { profile: v, container: v })],
+  ['cacheDir', (b, v) => b.cacheDir(v)],
+  ['print', (b, v) => b.print(v, 'after_move')],
+  ['printToFile', (b, v) => b.printToFile(v, v)],
+  ['progressTemplate', (b, v) => b.progressTemplate(v, 'download')],
+  ['encoding', (b, v) => b.encoding(v)],
+  ['addHeaders', (b, v) => b.addHeaders(v, v)],
+  ['format', (b, v) => b.format(v), quotedFilter],
+  ['mergeOutputFormat', (b, v) => b.mergeOutputFormat(v)],
+  ['subFormat', (b, v) => b.subFormat(v)],
+  ['subLangs', (b, v) => b.subLangs(v)],
+  ['username', (b, v) => b.username(v)],
+  ['password', (b, v) => b.password(v)],
+  ['twofactor', (b, v) => b.twofactor(v)],
+  ['netrcLocation', (b, v) => b.netrcLocation(v)],
+  ['netrcCmd', (b, v) => b.netrcCmd(v)],
+  ['videoPassword', (b, v) => b.videoPassword(v)],
+  ['apMso', (b, v) => b.apMso(v)],
+  ['apUsername', (b, v) => b.apUsername(v)],
+  ['apPassword', (b, v) => b.apPassword(v)],
+  ['clientCertificate', (b, v) => b.clientCertificate(v)],
+  ['clientCertificateKey', (b, v) => b.clientCertificateKey(v)],
+  ['clientCertificatePassword', (b, v) => b.clientCertificatePassword(v)],
+  ['audioFormat', (b, v) => b.audioFormat(v)],
+  ['audioQuality', (b, v) => b.audioQuality(v)],
+  ['remuxVideo', (b, v) => b.remuxVideo(v)],
+  ['recodeVideo', (b, v) => b.recodeVideo(v)],
+  ['postprocessorArgs', (b, v) => b.postprocessorArgs(v, v)],
+  ['parseMetadata', (b, v) => b.parseMetadata(v)],
+  ['replaceInMetadata', (b, v) => b.replaceInMetadata(v, v, v)],
+  ['ffmpegLocation', (b, v) => b.ffmpegLocation(v)],
+  ['exec', (b, v) => b.exec(v)],
+  ['convertThumbnails', (b, v) => b.convertThumbnails(v)],
+  ['removeChapters', (b, v) => b.removeChapters(v)],
+  ['usePostprocessor', (b, v) => b.usePostprocessor(v)],
+  ['sponsorblockMark', (b, v) => b.sponsorblockMark([v, v])],
+  ['sponsorblockRemove', (b, v) => b.sponsorblockRemove(v)],
+  ['sponsorblockChapterTitle', (b, v) => b.sponsorblockChapterTitle(v)],
+  ['sponsorblockApi', (b, v) => b.sponsorblockApi(v)],
+  ['extractorArgs', (b, v) => b.extractorArgs(v, v)]
+];
+
+/** Methods whose validation cannot let a hostile value through at all. */
+const REJECTED_CASES: HostileCase[] = [['formatSort', (b, v) => b.formatSort(v)]];
+
+/**
+ * Gives every case a wrapper, so test.each passes the same number of arguments for all of
+ * them (jest takes a missing one for a done callback).
+ */
+function hostileCases() {
+  return HOSTILE_CASES.map(
+    ([name, apply, wrap = (value: string) => value]) => [name, apply, wrap] as const
+  );
+}
+
+/**
+ * Runs a built command through a real shell, with the program replaced by a
+ * function that prints every argument it receives.
+ */
+function runInShell(shell: 'sh' | 'bash', command: string) {
+  const script = `argv_dump() { printf '%s\\0' "$@"; }; ${command}`;
+  const output = execFileSync(shell, ['-c', script], { encoding: 'utf-8' });
+  return output.split('\0').slice(0, -1);
+}
+
+function hasShell(shell: string) {
+  try {
+    execFileSync(shell, ['-c', 'true']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const shTest = hasShell('sh') ? test : test.skip;
+const bashTest = hasShell('bash') ? test : test.skip;
+
+test.each(REJECTED_CASES)('hostile value is rejected: %s', (_name, apply) => {
+  expect(() => apply(new YtdlpCommandBuilder(), HOSTILE)).toThrow(YtdlpSyntaxError);
+});
+
+test.each(hostileCases())('buildArgv keeps hostile value intact: %s', (_name, apply, wrap) => {
+  const value = wrap(HOSTILE);
+  const argv = apply(new YtdlpCommandBuilder(), value).buildArgv();
+  expect(argv[0]).toBe('yt-dlp');
+  expect(argv.some((arg) => arg.includes(value))).toBe(true);
+});
+
+shTest.each(hostileCases())('posix build survives sh: %s', (_name, apply, wrap) => {
+  const builder = apply(new YtdlpCommandBuilder('argv_dump'), wrap(HOSTILE));
+  const received = runInShell('sh', builder.build({ shell: 'posix' }));
+  expect(received).toStrictEqual(builder.buildArgv().slice(1));
+});
+
+bashTest.each(hostileCases())('bash build survives bash: %s', (_name, apply, wrap) => {
+  const builder = apply(new YtdlpCommandBuilder('argv_dump'), wrap(HOSTILE));
+  const command = builder.build({ shell: 'bash' });
+  expect(command).not.toContain('\n');
+  const received = runInShell('bash', command);
+  expect(received).toStrictEqual(builder.buildArgv().slice(1));
+});
+
+test('buildArgv returns a copy', () => {
+  const builder = new YtdlpCommandBuilder().format('best');
+  const argv = builder.buildArgv();
+  argv.push('--injected');
+  expect(builder.buildArgv()).toStrictEqual(['yt-dlp', '--format', 'best']);
+});
+
+test('posix quoting', () => {
+  expect(quoteShellArg('bestvideo+bestaudio/best')).toBe('bestvideo+bestaudio/best');
+  expect(quoteShellArg('%(title)s - %(id)s.%(ext)s')).toBe(`'%(title)s - %(id)s.%(ext)s'`);
+  expect(quoteShellArg("it's")).toBe(`'it'\\''s'`);
+  expect(quoteShellArg('')).toBe(`''`);
+});
+
+test('bash quoting', () => {
+  expect(quoteShellArg('a b', 'bash')).toBe(`'a b'`);
+  expect(quoteShellArg("a\n'b'\t\\", 'bash')).toBe(`$'a\\n\\'b\\'\\t\\\\'`);
+});
+
+test('powershell quoting', () => {
+  expect(quoteShellArg('--format', 'powershell')).toBe('--format');
+  expect(quoteShellArg('a,b', 'powershell')).toBe(`'a,b'`);
+  expect(quoteShellArg(`it's $env:HOME`, 'powershell')).toBe(`'it''s $env:HOME'`);
+  expect(quoteShellArg('it’s', 'powershell')).toBe(`'it’’s'`);
+  expect(quoteShellArg('', 'powershell')).toBe(`''`);
+  expect(quoteShellCommand('C:\\Program Files\\yt-dlp.exe', 'powershell')).toBe(
+    `& 'C:\\Program Files\\yt-dlp.exe'`
+  );
+});
+
+test('cmd quoting', () => {
+  expect(quoteShellArg('C:\\videos\\out.mp4', 'cmd')).toBe('C:\\videos\\out.mp4');
+  expect(quoteShellArg('a & b', 'cmd')).toBe('^"a ^& b^"');
+  expect(quoteShellArg('%PATH%', 'cmd')).toBe('^"^%PATH^%^"');
+  expect(quoteShellArg('say "hi"', 'cmd')).toBe('^"say \\^"hi\\^"^"');
+  expect(quoteShellArg('C:\\dir with space\\', 'cmd')).toBe('^"C:\\dir with space\\\\^"');
+  expect(() => quoteShellArg('a\nb', 'cmd')).toThrow(
+    'cmd.exe arguments cannot contain line breaks'
+  );
+  expect(quoteShellCommand('C:\\Program Files\\yt-dlp.exe', 'cmd')).toBe(
+    '"C:\\Program Files\\yt-dlp.exe"'
+  );
+});
+
+test('null bytes are rejected', () => {
+  expect(() => quoteShellArg('a\0b')).toThrow('Arguments cannot contain null bytes');
+});
+
+test('build with shell dialects', () => {
+  const builder = new YtdlpCommandBuilder('C:\\Program Files\\yt-dlp.exe')
+    .output('%(title)s - %(id)s.%(ext)s')
+    .url('https://example.com/watch?v=1&list=2');
+
+  expect(builder.build()).toBe(
+    `'C:\\Program Files\\yt-dlp.exe' --output '%(title)s - %(id)s.%(ext)s' 'https://example.com/watch?v=1&list=2'`
+  );
+  expect(builder.build({ shell: 'powershell' })).toBe(
+    `& 'C:\\Program Files\\yt-dlp.exe' --output '%(title)s - %(id)s.%(ext)s' 'https://example.com/watch?v=1&list=2'`
+  );
+  expect(builder.build({ shell: 'cmd' })).toBe(
+    `"C:\\Program Files\\yt-dlp.exe" --output ^"^%^(title^)s - ^%^(id^)s.^%^(ext^)s^" ^"https://example.com/watch?v=1^&list=2^"`
+  );
+  expect(builder.get({ shell: 'cmd' }).completeCommand).toBe(builder.build({ shell: 'cmd' }));
+});
+
+test('joinShellCommand', () => {
+  expect(joinShellCommand([])).toBe('');
+  expect(joinShellCommand(['yt-dlp', 'a b', 'c'])).toBe(`yt-dlp 'a b' c`);
+});
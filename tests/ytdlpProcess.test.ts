@@ -0,0 +1,196 @@
+import { join } from 'path';
+import { DestinationEvent, PostprocessEvent, Progress } from '../src/types';
+import { YtdlpCommandBuilder } from '../src/ytdlpCommandBuilder';
+import { YtdlpProcess } from '../src/ytdlpProcess';
+
+const FAKE_YTDLP = join(__dirname, 'fixtures', 'fake-yt-dlp.mjs');
+const URL = 'https://www.youtube.com/watch?v=dQw4w9WgXcQ';
+
+// The fixture relies on its shebang line, which Windows cannot execute.
+const unixTest = process.platform === 'win32' ? test.skip : test;
+
+unixTest('run resolves with exit code and collected output', async () => {
+  const result = await new YtdlpCommandBuilder(FAKE_YTDLP)
+    .output('%(title)s.%(ext)s')
+    .url(URL)
+    .run();
+  expect(result.exitCode).toBe(0);
+  expect(result.signal).toBeNull();
+  expect(result.stdout).toContain('[Merger] Merging formats into "Video [dQw4w9WgXcQ].mp4"');
+  expect(result.stderr).toContain(
+    `[debug] Command-line config: ${JSON.stringify(['--output', '%(title)s.%(ext)s', URL])}`
+  );
+});
+
+unixTest('run emits typed events', async () => {
+  const ytdlp = new YtdlpCommandBuilder(FAKE_YTDLP).url(URL).run();
+  const progress: Progress[] = [];
+  const destinations: DestinationEvent[] = [];
+  const merges: string[] = [];
+  const postprocess: PostprocessEvent[] = [];
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const exit = jest.fn();
+
+  ytdlp
+    .on('progress', (event) => progress.push(event))
+    .on('destination', (event) => destinations.push(event))
+    .on('merge', (event) => merges.push(event.path))
+    .on('postprocess', (event) => postprocess.push(event))
+    .on('stdout', (line) => stdout.push(line))
+    .on('stderr', (line) => stderr.push(line))
+    .on('exit', exit);
+
+  await ytdlp;
+
+  expect(progress).toStrictEqual([
+    {
+      type: 'download',
+      status: 'downloading',
+      percent: 0,
+      totalBytes: 10485760,
+      downloadedBytes: 0
+    },
+    {
+      type: 'download',
+      status: 'downloading',
+      percent: 50,
+      totalBytes: 10485760,
+      downloadedBytes: 5242880,
+      speed: 2097152,
+      eta: 2
+    },
+    {
+      type: 'download',
+      status: 'finished',
+      percent: 100,
+      totalBytes: 10485760,
+      downloadedBytes: 10485760,
+      speed: 2097152,
+      elapsed: 5
+    },
+    {
+      type: 'download',
+      status: 'downloading',
+      percent: 25,
+      totalBytes: 4194304,
+      totalBytesEstimate: true,
+      downloadedBytes: 1048576,
+      speed: 524288,
+      eta: 6,
+      fragmentIndex: 1,
+      fragmentCount: 4
+    }
+  ]);
+  expect(destinations).toStrictEqual([
+    { path: 'Video [dQw4w9WgXcQ].f137.mp4' },
+    { path: 'Video [dQw4w9WgXcQ].f140.m4a' },
+    { path: 'Video [dQw4w9WgXcQ].mp3', postprocessor: 'ExtractAudio' },
+    { path: 'Video [dQw4w9WgXcQ].mkv', postprocessor: 'VideoConvertor' }
+  ]);
+  expect(merges).toStrictEqual(['Video [dQw4w9WgXcQ].mp4']);
+  expect(postprocess).toStrictEqual([
+    { postprocessor: 'Merger', message: 'Merging formats into "Video [dQw4w9WgXcQ].mp4"' },
+    { postprocessor: 'ExtractAudio', message: 'Destination: Video [dQw4w9WgXcQ].mp3' },
+    {
+      postprocessor: 'VideoConvertor',
+      message: 'Converting video from mp4 to mkv; Destination: Video [dQw4w9WgXcQ].mkv'
+    }
+  ]);
+  expect(stdout).toHaveLength(11);
+  expect(stderr).toContain('WARNING: [youtube] Falling back to generic n function search');
+  expect(exit).toHaveBeenCalledWith({ exitCode: 0, signal: null });
+});
+
+unixTest('run reports yt-dlp errors and resolves with the exit code', async () => {
+  const errors: Error[] = [];
+  const ytdlp = new YtdlpCommandBuilder(FAKE_YTDLP).url('https://example.com/fail').run();
+  ytdlp.on('error', (error) => errors.push(error));
+
+  const result = await ytdlp;
+  expect(result.exitCode).toBe(1);
+  expect(errors.map((error) => error.message)).toStrictEqual([
+    '[generic] Unsupported URL: https://example.com/fail'
+  ]);
+});
+
+unixTest('run without an error listener does not throw', async () => {
+  const result = await new YtdlpCommandBuilder(FAKE_YTDLP).url('https://example.com/fail').run();
+  expect(result.exitCode).toBe(1);
+});
+
+unixTest('run is cancelled with an AbortSignal', async () => {
+  const controller = new AbortController();
+  const ytdlp = new YtdlpCommandBuilder(FAKE_YTDLP)
+    .url('https://example.com/hang')
+    .run({ signal: controller.signal });
+  const exit = jest.fn();
+  ytdlp.on('exit', exit);
+  ytdlp.on('stdout', () => controller.abort());
+
+  await expect(ytdlp).rejects.toMatchObject({ name: 'AbortError' });
+  expect(exit).toHaveBeenCalledWith({ exitCode: null, signal: 'SIGTERM' });
+});
+
+unixTest('run emits JSON progress', async () => {
+  const progress: Progress[] = [];
+  const ytdlp = new YtdlpCommandBuilder(FAKE_YTDLP).jsonProgress().url(URL).run();
+  ytdlp.on('progress', (event) => progress.push(event));
+
+  await ytdlp;
+  expect(progress.map((event) => [event.type, event.status])).toStrictEqual([
+    ['download', 'downloading'],
+    ['download', 'downloading'],
+    ['download', 'finished'],
+    ['postprocess', 'started'],
+    ['postprocess', 'finished']
+  ]);
+  expect(progress[1]).toStrictEqual({
+    type: 'download',
+    status: 'downloading',
+    percent: 50,
+    downloadedBytes: 500,
+    totalBytes: 1000,
+    speed: 250.5,
+    eta: 2,
+    elapsed: 2.1,
+    filename: 'Video.mp4'
+  });
+});
+
+test('run rejects when yt-dlp cannot be started', async () => {
+  const ytdlp = new YtdlpCommandBuilder(join(__dirname, 'fixtures', 'missing-yt-dlp')).run();
+  await expect(ytdlp).rejects.toMatchObject({ code: 'ENOENT' });
+  expect(ytdlp.pid).toBeUndefined();
+});
+
+test('YtdlpProcess requires a program', () => {
+  expect(() => new YtdlpProcess([])).toThrow('Command must include the yt-dlp program');
+});
+
+unixTest('run waits for async secrets', async () => {
+  const result = await new YtdlpCommandBuilder(FAKE_YTDLP)
+    .password(async () => 'hunter2')
+    .url(URL)
+    .run();
+  expect(result.stderr).toContain(
+    `[debug] Command-line config: ${JSON.stringify(['--password', 'hunter2', URL])}`
+  );
+});
+
+test('run rejects when an async secret cannot be read', async () => {
+  const ytdlp = new YtdlpCommandBuilder(FAKE_YTDLP)
+    .password(() => Promise.reject(new Error('vault is sealed')))
+    .run();
+  const error = jest.fn();
+  ytdlp.on('error', error);
+  expect(ytdlp.pid).toBeUndefined();
+  await expect(ytdlp).rejects.toThrow('vault is sealed');
+  expect(error).toHaveBeenCalledWith(new Error('vault is sealed'));
+});
+
+test('killing a run before it starts', async () => {
+  const ytdlp = new YtdlpProcess(Promise.resolve([FAKE_YTDLP, URL]));
+  expect(ytdlp.kill()).toBe(true);
+  await expect(ytdlp).rejects.toThrow('yt-dlp was killed before it started');
+});